@@ -0,0 +1,133 @@
+import { createHash } from "node:crypto";
+import { FieldValue, QueryDocumentSnapshot, Timestamp } from "firebase-admin/firestore";
+import { NextRequest, NextResponse } from "next/server";
+import { getAuthUser } from "@/lib/auth";
+import { getAdminDb } from "@/lib/firebase-admin";
+import { getMealPlanDocumentId, isIsoDate } from "@/lib/meal-plan";
+import { SHARES_COLLECTION } from "@/lib/shared-recipes";
+
+export const runtime = "nodejs";
+
+const RECIPES_COLLECTION = "recipes";
+const MEAL_PLANS_COLLECTION = "meal-plans";
+/** One document per claimed device id, recording which account took its data. */
+const CLAIMS_COLLECTION = "device-claims";
+/** Claims close on this date unless LEGACY_CLAIM_DEADLINE sets another. */
+const DEFAULT_CLAIM_DEADLINE = "2027-03-31";
+/** Firestore allows 500 writes per batch; meal plans take two each. */
+const BATCH_SIZE = 200;
+
+function badRequest(message: string) {
+  return NextResponse.json({ error: message }, { status: 400 });
+}
+
+function unauthorized() {
+  return NextResponse.json({ error: "Sign-in required" }, { status: 401 });
+}
+
+function conflict(message: string) {
+  return NextResponse.json({ error: message }, { status: 409 });
+}
+
+/** End of the migration period from LEGACY_CLAIM_DEADLINE (an ISO date), or the default. */
+function getClaimDeadline() {
+  const deadline = Date.parse(process.env.LEGACY_CLAIM_DEADLINE?.trim() || "");
+  return Number.isFinite(deadline) ? deadline : Date.parse(DEFAULT_CLAIM_DEADLINE);
+}
+
+/**
+ * Records the claim unless another account holds it or this account already
+ * has data. The check and the write share a transaction, so two requests
+ * cannot both pass the check.
+ */
+function recordClaim(claimRef: FirebaseFirestore.DocumentReference, uid: string) {
+  const db = getAdminDb();
+  return db.runTransaction(async (transaction): Promise<"claimed" | "taken" | "has-data"> => {
+    const existing = await transaction.get(claimRef);
+    if (existing.exists) return existing.data()?.claimedBy === uid ? "claimed" : "taken";
+
+    const found = await Promise.all(
+      [RECIPES_COLLECTION, SHARES_COLLECTION, MEAL_PLANS_COLLECTION].map((collection) =>
+        transaction.get(db.collection(collection).where("ownerId", "==", uid).limit(1))
+      )
+    );
+    if (found.some((snap) => !snap.empty)) return "has-data";
+
+    transaction.create(claimRef, { claimedBy: uid, claimedAt: Timestamp.now() });
+    return "claimed";
+  });
+}
+
+async function inBatches(
+  docs: QueryDocumentSnapshot[],
+  write: (batch: FirebaseFirestore.WriteBatch, doc: QueryDocumentSnapshot) => void
+) {
+  const db = getAdminDb();
+  for (let start = 0; start < docs.length; start += BATCH_SIZE) {
+    const batch = db.batch();
+    for (const doc of docs.slice(start, start + BATCH_SIZE)) write(batch, doc);
+    await batch.commit();
+  }
+}
+
+/**
+ * Moves everything saved under a pre-accounts device id to the signed-in user.
+ * Knowing the id is the only proof of ownership, so a claim is refused after
+ * the claim deadline, by an account that already has data of its own, or
+ * once another account has claimed the id. The claim is recorded with its
+ * `claimedBy` uid before anything moves; the same account may retry it.
+ */
+export async function POST(req: NextRequest) {
+  try {
+    const user = await getAuthUser(req);
+    if (!user) return unauthorized();
+
+    const body = await req.json();
+    const deviceId = String(body?.deviceId || "").trim();
+    if (!deviceId) return badRequest("Missing deviceId");
+
+    if (Date.now() > getClaimDeadline()) {
+      return NextResponse.json({ error: "Data saved before accounts can no longer be claimed." }, { status: 410 });
+    }
+
+    const db = getAdminDb();
+    const [recipes, shares, mealPlans] = await Promise.all(
+      [RECIPES_COLLECTION, SHARES_COLLECTION, MEAL_PLANS_COLLECTION].map((collection) =>
+        db.collection(collection).where("deviceId", "==", deviceId).get()
+      )
+    );
+    if (recipes.empty && shares.empty && mealPlans.empty) {
+      return NextResponse.json({ recipes: 0, mealPlans: 0, shares: 0 });
+    }
+
+    // Device ids come from the client, so the claim document id is a hash of it.
+    const claimRef = db.collection(CLAIMS_COLLECTION).doc(createHash("sha256").update(deviceId).digest("hex"));
+    const result = await recordClaim(claimRef, user.uid);
+    if (result === "taken") return conflict("This data was already claimed by another account.");
+    if (result === "has-data") {
+      return conflict("This account already has saved data, so older data cannot be moved into it.");
+    }
+
+    const claim = { ownerId: user.uid, deviceId: FieldValue.delete() };
+    await inBatches(recipes.docs, (batch, doc) => batch.update(doc.ref, claim));
+    await inBatches(shares.docs, (batch, doc) => batch.update(doc.ref, claim));
+    // Meal plan ids include the owner, so each plan moves to a new document.
+    await inBatches(mealPlans.docs, (batch, doc) => {
+      const { weekStart, entries, createdAt, updatedAt } = doc.data();
+      if (isIsoDate(weekStart)) {
+        const target = db.collection(MEAL_PLANS_COLLECTION).doc(getMealPlanDocumentId(user.uid, weekStart));
+        batch.set(target, { ownerId: user.uid, weekStart, entries, createdAt, updatedAt });
+      }
+      batch.delete(doc.ref);
+    });
+
+    return NextResponse.json({
+      recipes: recipes.size,
+      mealPlans: mealPlans.size,
+      shares: shares.size,
+    });
+  } catch (error) {
+    console.error("POST /api/account/claim error:", error);
+    return NextResponse.json({ error: "Failed to claim saved data" }, { status: 500 });
+  }
+}
@@ -1,75 +1,323 @@
-import { GoogleGenerativeAI } from "@google/generative-ai";
+import { createHash } from "node:crypto";
 import { NextRequest, NextResponse } from "next/server";
+import { AnalysisCache, getAnalysisCache, getAnalysisCacheTtlMs } from "@/lib/analysis-cache";
+import {
+  ANALYSIS_IMAGE_TTL_MS,
+  AnalysisImageStore,
+  getAnalysisImageStore,
+  MAX_ANALYSIS_IMAGE_BYTES,
+} from "@/lib/analysis-images";
+import { AnalyzeEvent } from "@/lib/analyze-events";
+import { checkAnalyzeRateLimit } from "@/lib/analyze-rate-limit";
+import { ImageNormalizationError, normalizeImage } from "@/lib/image-normalize";
+import {
+  extractJsonObject,
+  formatRecipeIssues,
+  MAX_DISH_ALTERNATIVES,
+  parseDishIdentification,
+  parsePartialRecipeText,
+  parseRecipeText,
+  RecipeApiResponse,
+  RecipeIssue,
+  withRecipeFallbacks,
+} from "@/lib/recipe";
+import {
+  ALLERGENS,
+  DietaryConstraints,
+  findDietaryConflicts,
+  getAllergenLabel,
+  getDietaryLabel,
+  hasDietaryConstraints,
+  normalizeDietaryConstraints,
+} from "@/lib/dietary";
+import {
+  AnalysisMode,
+  isAnalysisMode,
+  MAX_PANTRY_CANDIDATES,
+  PantryIdeas,
+  parsePantryText,
+  withPantryFallbacks,
+} from "@/lib/pantry";
+import { getRateLimitHeaders } from "@/lib/rate-limit";
+import { describePhotoQualityIssues, PhotoQuality } from "@/lib/photo-quality";
+import { formatServerSentEvent } from "@/lib/sse";
+import { getVisionProvider, VisionImage, VisionProvider, VisionProviderError } from "@/lib/vision";
 
 export const runtime = "nodejs";
 export const maxDuration = 60;
 
-const ALLOWED_MIME_TYPES = new Set(["image/jpeg", "image/png", "image/webp"]);
-const MAX_SERVER_IMAGE_BYTES = 2_000_000;
+const MAX_IMAGES = 4;
 const TRANSIENT_RETRY_DELAYS_MS = [1200, 2600];
+/** Bump whenever the prompts or the response shape change, so older cached results are not served. */
+const PROMPT_VERSION = 3;
+/** "hit", "miss", "bypass" (`?fresh=1`) or "off". */
+const CACHE_STATUS_HEADER = "X-Analysis-Cache";
+/** Comma-separated ids of the normalized photos, which later requests can send as `imageId` instead of the files. */
+const IMAGE_IDS_HEADER = "X-Analysis-Image-Ids";
+const IMAGE_ID_PATTERN = /^[0-9a-f]{64}$/;
+const MAX_DISH_NAME_CHARS = 120;
 
-type RecipeApiResponse = {
-  dishName: string;
-  shortDescription: string;
-  cuisine: string;
-  difficulty: "Easy" | "Medium" | "Hard";
-  servings: string;
-  prepTime: string;
-  cookTime: string;
-  caloriesPerServing: string;
-  ingredients: Array<{ item: string; amount: string }>;
-  instructions: string[];
-  platingTips: string[];
-};
-
-function parseModelJson(raw: string): RecipeApiResponse {
-  const cleaned = raw.replace(/```json/gi, "").replace(/```/g, "").trim();
-  const firstBrace = cleaned.indexOf("{");
-  const lastBrace = cleaned.lastIndexOf("}");
-  const jsonString =
-    firstBrace !== -1 && lastBrace !== -1
-      ? cleaned.slice(firstBrace, lastBrace + 1)
-      : cleaned;
-
-  let parsed: Partial<RecipeApiResponse>;
+function describeDietary(dietary: DietaryConstraints) {
+  return [
+    dietary.diets.length > 0
+      ? `The cook follows these diets: ${dietary.diets.map(getDietaryLabel).join(", ")}.`
+      : "",
+    dietary.allergens.length > 0
+      ? `The cook must avoid these allergens: ${dietary.allergens.map(getAllergenLabel).join(", ")}.`
+      : "",
+  ].filter(Boolean);
+}
+
+function buildDietaryInstructions(dietary: DietaryConstraints) {
+  if (!hasDietaryConstraints(dietary)) {
+    return ['Set "substitutionNote" to null.'];
+  }
+  return [
+    ...describeDietary(dietary),
+    "Adapt the recipe so every ingredient complies, swapping in suitable substitutes while keeping the dish recognisable.",
+    'If the photographed dish conflicts with these constraints, explain the swaps in "substitutionNote" (max 2 sentences); otherwise set it to null.',
+  ];
+}
+
+/** The recipe object the model must return, shared by both analysis modes. */
+function recipeStructure(indent: string, extraLines: string[] = []) {
+  return [
+    "{",
+    '  "dishName": "string",',
+    '  "shortDescription": "string (max 2 sentences)",',
+    '  "cuisine": "string",',
+    '  "difficulty": "Easy | Medium | Hard",',
+    '  "servings": number,',
+    '  "prepTime": "string",',
+    '  "cookTime": "string",',
+    '  "nutrition": { "kcal": number, "protein": number, "carbs": number, "fat": number, "fiber": number, "sugar": number, "sodium": number },',
+    '  "ingredients": [',
+    '    { "item": "string", "quantity": number | null, "quantityMax": number | null, "unit": "string | null", "amount": "string", "allergens": ["string"] }',
+    "  ],",
+    '  "instructions": ["string (4-6 steps total)"],',
+    '  "platingTips": ["string (max 2 tips)"],',
+    ...extraLines,
+    '  "substitutionNote": "string | null"',
+    "}",
+  ].map((line) => `${indent}${line}`);
+}
+
+const RECIPE_FIELD_RULES = [
+  "For each ingredient, quantity is the numeric amount (use quantityMax only for ranges), unit is a short unit such as g, ml, tsp, tbsp or cup (null for countable items), and amount is the same quantity as readable text. Use quantity null with amount \"to taste\" when there is no measurable amount.",
+  "nutrition is your estimate per serving: kcal, grams of protein, carbs, fat, fiber and sugar, and milligrams of sodium.",
+  `allergens lists any of: ${ALLERGENS.map((allergen) => allergen.id).join(", ")} (empty array if none).`,
+  "Keep wording compact. No markdown. No explanation outside JSON.",
+];
+
+/** `dish` is set when the cook rejected the first identification and picked another. */
+function buildRecipePrompt(dietary: DietaryConstraints, dish: string | null) {
+  return [
+    "You are an expert chef.",
+    "Analyze the dish in the image and return concise professional recipe data.",
+    "When several images are provided they all show the same dish from different angles (for example a close-up, a cross-section and a side view); combine what each one shows.",
+    dish
+      ? `The cook says the dish is ${JSON.stringify(dish)}. Use that as dishName and write the recipe for it, using the photo for details such as portion size, garnish and plating.`
+      : "If the photo is unclear, infer the most likely dish and still return recipe data.",
+    ...buildDietaryInstructions(dietary),
+    "Return ONLY valid JSON with this exact structure and no extra keys:",
+    ...recipeStructure("", [
+      '  "confidence": number,',
+      '  "alternatives": [{ "dishName": "string", "confidence": number, "reason": "string (max 1 sentence)" }],',
+    ]),
+    "confidence is how sure you are, between 0 and 1, that the photo shows dishName.",
+    `alternatives lists up to ${MAX_DISH_ALTERNATIVES} other dishes the photo could plausibly show, most likely first, each with its own confidence and what in the photo points to it (empty array if there are none).`,
+    ...RECIPE_FIELD_RULES,
+  ].join("\n");
+}
+
+/** The alternative dish the cook picked, if any. */
+function readDishName(formData: FormData) {
+  const value = formData.get("dish");
+  if (typeof value !== "string") return null;
+  return value.trim().slice(0, MAX_DISH_NAME_CHARS) || null;
+}
+
+function buildPantryPrompt(dietary: DietaryConstraints) {
+  return [
+    "You are an expert chef helping a home cook decide what to make.",
+    "The images show raw ingredients, for example the inside of a fridge, a pantry shelf or a kitchen counter.",
+    "List every ingredient you can identify with a confidence between 0 and 1, then suggest recipes that use mainly those ingredients.",
+    `Suggest ${MAX_PANTRY_CANDIDATES} different recipes. Assume salt, pepper, cooking oil and water are available.`,
+    'For each recipe list in "missingIngredients" the recipe ingredients that are not visible in the photos (empty array if none); prefer recipes with few missing ingredients.',
+    ...(hasDietaryConstraints(dietary)
+      ? [
+          ...describeDietary(dietary),
+          'Every suggested recipe must comply. If a swap was needed, explain it in "substitutionNote"; otherwise set it to null.',
+        ]
+      : ['Set "substitutionNote" to null.']),
+    "Return ONLY valid JSON with this exact structure and no extra keys:",
+    "{",
+    '  "detectedIngredients": [{ "name": "string", "confidence": number }],',
+    '  "candidates": [',
+    ...recipeStructure("    ", ['  "missingIngredients": ["string"],']),
+    "  ]",
+    "}",
+    ...RECIPE_FIELD_RULES,
+  ].join("\n");
+}
+
+/**
+ * Identical photos analyzed with the same prompt, model and options get the
+ * same key. Each image is hashed on its own so the photos' order is kept.
+ */
+function getAnalysisCacheKey({
+  provider,
+  mode,
+  dietary,
+  dish,
+  images,
+}: {
+  provider: VisionProvider;
+  mode: AnalysisMode;
+  dietary: DietaryConstraints;
+  dish: string | null;
+  images: VisionImage[];
+}) {
+  const hash = createHash("sha256").update(
+    JSON.stringify({
+      version: PROMPT_VERSION,
+      provider: provider.id,
+      model: provider.model,
+      mode,
+      diets: [...dietary.diets].sort(),
+      allergens: [...dietary.allergens].sort(),
+      dish,
+    })
+  );
+  for (const image of images) {
+    hash.update(Buffer.from(getImageId(image), "hex"));
+  }
+  return hash.digest("hex");
+}
+
+function getImageId(image: VisionImage) {
+  return createHash("sha256").update(Buffer.from(image.data, "base64")).digest("hex");
+}
+
+/** Results that needed placeholders are not cached, so asking again can do better. */
+function isCacheable(result: RecipeApiResponse | PantryIdeas) {
+  const recipes = "candidates" in result ? result.candidates : [result];
+  return recipes.every((recipe) => !recipe.fallbackFields?.length);
+}
+
+/** The cache only saves money; when it fails the request carries on without it. */
+async function readCachedAnalysis(cache: AnalysisCache, key: string) {
   try {
-    parsed = JSON.parse(jsonString) as Partial<RecipeApiResponse>;
-  } catch {
-    parsed = {};
+    return await cache.get(key);
+  } catch (error) {
+    console.error(`Analysis cache read failed (${cache.id}):`, error);
+    return null;
   }
+}
 
-  return {
-    dishName: parsed.dishName || "Unknown Dish",
-    shortDescription:
-      parsed.shortDescription || "A flavorful dish generated from your photo.",
-    cuisine: parsed.cuisine || "Fusion",
-    difficulty: ["Easy", "Medium", "Hard"].includes(parsed.difficulty || "")
-      ? (parsed.difficulty as "Easy" | "Medium" | "Hard")
-      : "Medium",
-    servings: parsed.servings || "2-3",
-    prepTime: parsed.prepTime || "20 min",
-    cookTime: parsed.cookTime || "30 min",
-    caloriesPerServing: parsed.caloriesPerServing || "Approx. 450 kcal",
-    ingredients: Array.isArray(parsed.ingredients)
-      ? parsed.ingredients
-          .filter((x) => x && typeof x === "object")
-          .map((x) => ({
-            item: (x.item as string) || "Ingredient",
-            amount: (x.amount as string) || "To taste",
-          }))
-      : [],
-    instructions: Array.isArray(parsed.instructions)
-      ? parsed.instructions.map((x) => String(x)).filter(Boolean)
-      : [
-          "Review the dish photo and identify the main protein, vegetables, starches, and sauces.",
-          "Prepare matching ingredients in balanced portions.",
-          "Cook the main ingredients until tender and season gradually.",
-          "Finish with herbs, acidity, or sauce to match the photographed dish.",
-        ],
-    platingTips: Array.isArray(parsed.platingTips)
-      ? parsed.platingTips.map((x) => String(x)).filter(Boolean)
-      : ["Plate neatly and keep the main ingredient visible."],
-  };
+async function writeCachedAnalysis(cache: AnalysisCache, key: string, result: RecipeApiResponse | PantryIdeas) {
+  if (!isCacheable(result)) return;
+  try {
+    await cache.set(key, result, getAnalysisCacheTtlMs());
+  } catch (error) {
+    console.error(`Analysis cache write failed (${cache.id}):`, error);
+  }
+}
+
+type ImageError = { index: number; name: string; error: string };
+
+type ImageUpload = { images: VisionImage[]; quality: PhotoQuality[] };
+
+type ImageUploadError = { error: string; imageErrors: ImageError[]; status: number };
+
+/**
+ * Keeps the normalized photos so the cook can ask for a different dish without
+ * uploading them again. A photo that is too large or fails to store simply
+ * cannot be reused, and the client falls back to uploading it.
+ */
+async function storeImages(store: AnalysisImageStore, { images, quality }: ImageUpload) {
+  for (const [index, image] of images.entries()) {
+    const data = Buffer.from(image.data, "base64");
+    if (data.byteLength > MAX_ANALYSIS_IMAGE_BYTES) continue;
+    try {
+      await store.set(getImageId(image), { data, quality: quality[index] }, ANALYSIS_IMAGE_TTL_MS);
+    } catch (error) {
+      console.error(`Analysis image write failed (${store.id}):`, error);
+    }
+  }
+}
+
+/** Reads the photos named by `imageId` fields, as returned in IMAGE_IDS_HEADER. */
+async function readStoredImages(
+  store: AnalysisImageStore | null,
+  entries: FormDataEntryValue[]
+): Promise<ImageUpload | ImageUploadError> {
+  const ids = entries.filter((entry): entry is string => typeof entry === "string" && IMAGE_ID_PATTERN.test(entry));
+  if (ids.length !== entries.length || ids.length > MAX_IMAGES) {
+    return { error: "Invalid photo ids.", imageErrors: [], status: 400 };
+  }
+
+  const images: VisionImage[] = [];
+  const quality: PhotoQuality[] = [];
+  for (const id of ids) {
+    let stored = null;
+    try {
+      stored = store ? await store.get(id) : null;
+    } catch (error) {
+      console.error(`Analysis image read failed (${store?.id}):`, error);
+    }
+    if (!stored) {
+      return { error: "These photos are no longer on the server. Send them again.", imageErrors: [], status: 410 };
+    }
+    images.push({ data: Buffer.from(stored.data).toString("base64"), mimeType: "image/jpeg" });
+    quality.push(stored.quality);
+  }
+  return { images, quality };
+}
+
+/**
+ * Reads every `image` field and normalizes it to an upright, metadata-free JPEG,
+ * scoring its quality on the way. Each file is checked on its own so the
+ * client can point at the exact photo that was rejected.
+ */
+async function readUploadedImages(formData: FormData): Promise<ImageUpload | ImageUploadError> {
+  const files = formData.getAll("image").filter((entry): entry is File => entry instanceof File);
+  if (files.length === 0) {
+    return { error: "No image uploaded.", imageErrors: [], status: 400 };
+  }
+  if (files.length > MAX_IMAGES) {
+    return {
+      error: `Too many photos. Send up to ${MAX_IMAGES} photos at once.`,
+      imageErrors: [],
+      status: 400,
+    };
+  }
+
+  const images: VisionImage[] = [];
+  const quality: PhotoQuality[] = [];
+  const imageErrors: ImageError[] = [];
+  let unsupported = false;
+  // One at a time: decoding large photos is memory-hungry.
+  for (const [index, file] of files.entries()) {
+    try {
+      const image = await normalizeImage(new Uint8Array(await file.arrayBuffer()));
+      images.push({ data: image.data.toString("base64"), mimeType: image.mimeType });
+      quality.push(image.quality);
+    } catch (error) {
+      if (!(error instanceof ImageNormalizationError)) throw error;
+      if (error.status === 415) unsupported = true;
+      imageErrors.push({ index, name: file.name, error: error.message });
+    }
+  }
+
+  if (imageErrors.length > 0) {
+    const error =
+      files.length === 1
+        ? imageErrors[0].error
+        : `${imageErrors.length} of ${files.length} photos could not be used.`;
+    return { error, imageErrors, status: unsupported ? 415 : 413 };
+  }
+  return { images, quality };
 }
 
 function sleep(ms: number) {
@@ -77,56 +325,107 @@ function sleep(ms: number) {
 }
 
 function getProviderStatus(error: unknown) {
-  if (typeof error === "object" && error && "status" in error) {
-    const status = Number((error as { status?: unknown }).status);
-    return Number.isFinite(status) ? status : null;
-  }
-  const message = error instanceof Error ? error.message : String(error);
-  const match = message.match(/\[(\d{3}) [^\]]+\]/);
-  return match ? Number(match[1]) : null;
+  return error instanceof VisionProviderError ? error.status : null;
 }
 
 function getProviderMessage(error: unknown) {
   return error instanceof Error ? error.message : String(error);
 }
 
-async function generateRecipeText({
-  apiKey,
+type EmitEvent = (event: AnalyzeEvent) => void;
+
+function describeAnalyzeError(error: unknown, provider: VisionProvider) {
+  const status = getProviderStatus(error);
+  const message = getProviderMessage(error);
+  if (status === 429 || message.toLowerCase().includes("quota")) {
+    return {
+      status: 429,
+      error: `${provider.label} quota is currently exhausted for this API key. Wait a minute or update the ${provider.label} billing/quota settings, then try again.`,
+    };
+  }
+  if (status === 503) {
+    return {
+      status: 503,
+      error: `${provider.label} is temporarily busy. Please wait a moment and try analyzing the photo again.`,
+    };
+  }
+  return { status: 500, error: "Failed to analyze image and generate recipe." };
+}
+
+/**
+ * Streams the model reply when the caller is listening for events and the
+ * provider supports it, publishing newly completed recipe fields as they parse.
+ */
+async function readModelText({
+  provider,
   prompt,
-  imageBase64,
-  mimeType,
+  images,
+  mode,
+  emit,
+  signal,
 }: {
-  apiKey: string;
+  provider: VisionProvider;
   prompt: string;
-  imageBase64: string;
-  mimeType: string;
+  images: VisionImage[];
+  mode: AnalysisMode;
+  emit?: EmitEvent;
+  signal?: AbortSignal;
+}) {
+  // Pantry replies hold several recipes, so there is no single draft to preview.
+  if (!emit || !provider.streamText || mode === "pantry") {
+    return provider.generateText({ prompt, images, signal });
+  }
+
+  let text = "";
+  let lastPartial = "";
+  for await (const chunk of provider.streamText({ prompt, images, signal })) {
+    text += chunk;
+    const partial = parsePartialRecipeText(text);
+    const serialized = JSON.stringify(partial);
+    if (serialized !== lastPartial && Object.keys(partial).length > 0) {
+      lastPartial = serialized;
+      emit({ type: "partial", recipe: partial });
+    }
+  }
+  return text;
+}
+
+async function generateModelText({
+  provider,
+  prompt,
+  images,
+  mode,
+  pass,
+  emit,
+  signal,
+}: {
+  provider: VisionProvider;
+  prompt: string;
+  images: VisionImage[];
+  mode: AnalysisMode;
+  pass: "initial" | "repair";
+  emit?: EmitEvent;
+  signal?: AbortSignal;
 }) {
-  const genAI = new GoogleGenerativeAI(apiKey);
   let lastError: unknown;
 
   for (let attempt = 0; attempt <= TRANSIENT_RETRY_DELAYS_MS.length; attempt += 1) {
+    signal?.throwIfAborted();
     try {
-      const model = genAI.getGenerativeModel({
-        model: "gemini-3.1-flash-lite-preview",
-        generationConfig: {
-          responseMimeType: "application/json",
-        },
-      });
-      const result = await model.generateContent([
-        prompt,
-        {
-          inlineData: {
-            data: imageBase64,
-            mimeType,
-          },
-        },
-      ]);
-      return result.response.text();
+      emit?.({ type: "model", attempt: attempt + 1, pass, provider: provider.label });
+      return await readModelText({ provider, prompt, images, mode, emit, signal });
     } catch (error) {
       lastError = error;
       const status = getProviderStatus(error);
-      const shouldRetry = status === 503 && attempt < TRANSIENT_RETRY_DELAYS_MS.length;
+      const shouldRetry = status === 503 && attempt < TRANSIENT_RETRY_DELAYS_MS.length && !signal?.aborted;
       if (!shouldRetry) break;
+      emit?.({
+        type: "retry",
+        attempt: attempt + 1,
+        maxRetries: TRANSIENT_RETRY_DELAYS_MS.length,
+        delayMs: TRANSIENT_RETRY_DELAYS_MS[attempt],
+        status,
+      });
       await sleep(TRANSIENT_RETRY_DELAYS_MS[attempt]);
     }
   }
@@ -134,100 +433,368 @@ async function generateRecipeText({
   throw lastError;
 }
 
+const MAX_REPAIR_ECHO_CHARS = 6000;
+
+function buildRepairPrompt(prompt: string, previousText: string, validation: { issues: RecipeIssue[] }) {
+  return [
+    prompt,
+    "",
+    "Your previous reply did not match the required JSON structure.",
+    "Problems found:",
+    formatRecipeIssues(validation.issues),
+    "",
+    "Previous reply:",
+    previousText.slice(0, MAX_REPAIR_ECHO_CHARS),
+    "",
+    "Return the corrected JSON only, fixing every problem listed above.",
+  ].join("\n");
+}
+
+/**
+ * Calls the model, validates its reply with `parse` and, if that fails,
+ * re-prompts once with the validation errors. Returns whichever reply had
+ * fewer issues; the caller fills in placeholders for anything still invalid.
+ */
+async function generateValidated<T extends { issues: RecipeIssue[] }>({
+  provider,
+  prompt,
+  images,
+  mode,
+  parse,
+  emit,
+  signal,
+}: {
+  provider: VisionProvider;
+  prompt: string;
+  images: VisionImage[];
+  mode: AnalysisMode;
+  parse: (text: string) => T;
+  emit?: EmitEvent;
+  signal?: AbortSignal;
+}): Promise<T> {
+  const text = await generateModelText({ provider, prompt, images, mode, pass: "initial", emit, signal });
+  const first = parse(text);
+  if (first.issues.length === 0) return first;
+
+  console.warn("Model output failed validation, attempting repair:", first.issues);
+  emit?.({ type: "repair", issues: first.issues.map((issue) => `${issue.path}: ${issue.message}`) });
+  let repaired: T | null = null;
+  try {
+    const repairText = await generateModelText({
+      provider,
+      prompt: buildRepairPrompt(prompt, text, first),
+      images,
+      mode,
+      pass: "repair",
+      emit,
+      signal,
+    });
+    repaired = parse(repairText);
+  } catch (error) {
+    if (signal?.aborted) throw error;
+    console.error("Repair call failed:", error);
+  }
+
+  return repaired && repaired.issues.length <= first.issues.length ? repaired : first;
+}
+
+/** Validates the recipe and keeps the parsed reply for `confidence` and `alternatives`. */
+function parseIdentifiedRecipeText(text: string) {
+  const extracted = extractJsonObject(text);
+  return { ...parseRecipeText(text), payload: "value" in extracted ? extracted.value : null };
+}
+
+/**
+ * Dish mode: anything still invalid after the repair pass is filled with
+ * placeholders and reported in `fallbackFields`/`warnings`. When the cook
+ * picked the dish, its name is kept exactly as picked.
+ */
+async function generateRecipe({
+  dish,
+  ...options
+}: {
+  provider: VisionProvider;
+  prompt: string;
+  images: VisionImage[];
+  dish: string | null;
+  emit?: EmitEvent;
+  signal?: AbortSignal;
+}): Promise<RecipeApiResponse> {
+  const { payload, ...validation } = await generateValidated({
+    ...options,
+    mode: "dish",
+    parse: parseIdentifiedRecipeText,
+  });
+  const recipe = withRecipeFallbacks(validation);
+  const named = dish ? { ...recipe, dishName: dish } : recipe;
+  return { ...named, ...parseDishIdentification(payload, named.dishName) };
+}
+
+async function generatePantryIdeas(options: {
+  provider: VisionProvider;
+  prompt: string;
+  images: VisionImage[];
+  emit?: EmitEvent;
+  signal?: AbortSignal;
+}): Promise<PantryIdeas> {
+  const ideas = withPantryFallbacks(
+    await generateValidated({ ...options, mode: "pantry", parse: parsePantryText })
+  );
+  if (ideas.candidates.length === 0) {
+    throw new Error("The model did not suggest any recipes for these ingredients.");
+  }
+  return ideas;
+}
+
+/** Records the constraints on the recipe and warns about anything that still breaks them. */
+function applyDietaryChecks(recipe: RecipeApiResponse, dietary: DietaryConstraints): RecipeApiResponse {
+  if (!hasDietaryConstraints(dietary)) return recipe;
+  const conflicts = findDietaryConflicts(recipe.ingredients, dietary);
+  return {
+    ...recipe,
+    dietary,
+    ...(conflicts.length > 0 ? { dietaryConflicts: conflicts } : {}),
+  };
+}
+
+function applyPantryDietaryChecks(ideas: PantryIdeas, dietary: DietaryConstraints): PantryIdeas {
+  return {
+    ...ideas,
+    candidates: ideas.candidates.map((candidate) => applyDietaryChecks(candidate, dietary)),
+  };
+}
+
+/**
+ * Weak photos are analyzed anyway (the client lets the cook override its own
+ * check), but the scores are returned and the recipe warns that it may be a guess.
+ */
+function applyPhotoQuality(recipe: RecipeApiResponse, quality: PhotoQuality[]): RecipeApiResponse {
+  const warning = describePhotoQualityIssues(quality);
+  return {
+    ...recipe,
+    ...(warning ? { warnings: [...(recipe.warnings ?? []), warning] } : {}),
+    photoQuality: quality,
+  };
+}
+
+function applyPantryPhotoQuality(ideas: PantryIdeas, quality: PhotoQuality[]): PantryIdeas {
+  const warning = describePhotoQualityIssues(quality);
+  return {
+    ...ideas,
+    candidates: warning
+      ? ideas.candidates.map((candidate) => ({ ...candidate, warnings: [...(candidate.warnings ?? []), warning] }))
+      : ideas.candidates,
+    photoQuality: quality,
+  };
+}
+
+function streamAnalysis({
+  provider,
+  prompt,
+  images,
+  mode,
+  dietary,
+  dish,
+  quality,
+  headers,
+  onResult,
+  signal,
+}: {
+  provider: VisionProvider;
+  prompt: string;
+  images: VisionImage[];
+  mode: AnalysisMode;
+  dietary: DietaryConstraints;
+  dish: string | null;
+  quality: PhotoQuality[];
+  headers: Record<string, string>;
+  onResult: (result: RecipeApiResponse | PantryIdeas) => Promise<void>;
+  /** The request's signal; the model call stops once it aborts. */
+  signal: AbortSignal;
+}) {
+  const encoder = new TextEncoder();
+  // Aborted when the reader cancels or an enqueue finds the stream already closed.
+  const cancelled = new AbortController();
+  const stopped = AbortSignal.any([signal, cancelled.signal]);
+  let closed = false;
+  const stream = new ReadableStream<Uint8Array>({
+    async start(controller) {
+      // Throws once the client has gone, so the generation below stops at its next event.
+      const emit: EmitEvent = (event) => {
+        stopped.throwIfAborted();
+        try {
+          controller.enqueue(encoder.encode(formatServerSentEvent(event.type, event)));
+        } catch (error) {
+          closed = true;
+          cancelled.abort(error);
+          throw error;
+        }
+      };
+
+      try {
+        emit({
+          type: "received",
+          images: images.map((image, index) => ({
+            bytes: Buffer.byteLength(image.data, "base64"),
+            mimeType: image.mimeType,
+            quality: quality[index],
+          })),
+        });
+        if (mode === "pantry") {
+          const ideas = applyPantryPhotoQuality(
+            applyPantryDietaryChecks(
+              await generatePantryIdeas({ provider, prompt, images, emit, signal: stopped }),
+              dietary
+            ),
+            quality
+          );
+          emit({ type: "ideas", ideas });
+          await onResult(ideas);
+        } else {
+          const recipe = applyPhotoQuality(
+            applyDietaryChecks(
+              await generateRecipe({ provider, prompt, images, dish, emit, signal: stopped }),
+              dietary
+            ),
+            quality
+          );
+          emit({ type: "done", recipe });
+          await onResult(recipe);
+        }
+      } catch (error) {
+        // Nobody is left to tell once the client has disconnected.
+        if (stopped.aborted) return;
+        console.error(`Analyze stream error (${provider.id}/${provider.model}):`, error);
+        emit({ type: "error", ...describeAnalyzeError(error, provider) });
+      } finally {
+        if (!closed) {
+          closed = true;
+          try {
+            controller.close();
+          } catch {
+            // Already closed by a cancelled reader.
+          }
+        }
+      }
+    },
+    cancel(reason) {
+      closed = true;
+      cancelled.abort(reason);
+    },
+  });
+
+  return new Response(stream, {
+    headers: {
+      ...headers,
+      "Content-Type": "text/event-stream; charset=utf-8",
+      "Cache-Control": "no-cache, no-transform",
+      Connection: "keep-alive",
+      "X-Accel-Buffering": "no",
+    },
+  });
+}
+
 export async function POST(req: NextRequest) {
+  let provider: VisionProvider;
   try {
-    const apiKey =
-      process.env.GEMINI_API_KEY?.trim() || process.env.GOOGLE_API_KEY?.trim();
+    provider = getVisionProvider();
+  } catch (error) {
+    return NextResponse.json({ error: getProviderMessage(error) }, { status: 500 });
+  }
 
-    if (!apiKey) {
+  let rateLimitHeaders: Record<string, string> = {};
+  try {
+    const rateLimit = await checkAnalyzeRateLimit(req, "analyze");
+    rateLimitHeaders = getRateLimitHeaders(rateLimit);
+    if (!rateLimit.allowed) {
       return NextResponse.json(
-        { error: "Missing GEMINI_API_KEY (or GOOGLE_API_KEY)." },
-        { status: 500 }
+        { error: "Too many photos analyzed. Please wait before trying again." },
+        { status: 429, headers: rateLimitHeaders }
       );
     }
 
     const formData = await req.formData();
-    const file = formData.get("image");
-    if (!(file instanceof File)) {
-      return NextResponse.json({ error: "No image uploaded." }, { status: 400 });
-    }
-
-    const mimeType = (file.type || "").toLowerCase();
-    if (!ALLOWED_MIME_TYPES.has(mimeType)) {
+    const cache = getAnalysisCache();
+    const imageStore = getAnalysisImageStore();
+    const imageIds = formData.getAll("imageId");
+    const upload =
+      imageIds.length > 0 ? await readStoredImages(imageStore, imageIds) : await readUploadedImages(formData);
+    if ("error" in upload) {
       return NextResponse.json(
-        { error: "Unsupported image type. Use JPG, PNG, or WebP." },
-        { status: 400 }
+        { error: upload.error, imageErrors: upload.imageErrors },
+        { status: upload.status, headers: rateLimitHeaders }
       );
     }
+    const { images, quality } = upload;
 
-    const bytes = await file.arrayBuffer();
-    if (bytes.byteLength > MAX_SERVER_IMAGE_BYTES) {
-      return NextResponse.json(
-        {
-          error:
-            "Image is too large. Please retake the photo with better lighting or upload a smaller image.",
-        },
-        { status: 413 }
-      );
-    }
-    const imageBase64 = Buffer.from(bytes).toString("base64");
-
-    const prompt = [
-      "You are an expert chef.",
-      "Analyze the dish in the image and return concise professional recipe data.",
-      "If the photo is unclear, infer the most likely dish and still return recipe data.",
-      "Return ONLY valid JSON with this exact structure and no extra keys:",
-      "{",
-      '  "dishName": "string",',
-      '  "shortDescription": "string (max 2 sentences)",',
-      '  "cuisine": "string",',
-      '  "difficulty": "Easy | Medium | Hard",',
-      '  "servings": "string",',
-      '  "prepTime": "string",',
-      '  "cookTime": "string",',
-      '  "caloriesPerServing": "string",',
-      '  "ingredients": [',
-      '    { "item": "string", "amount": "string" }',
-      "  ],",
-      '  "instructions": ["string (4-6 steps total)"],',
-      '  "platingTips": ["string (max 2 tips)"]',
-      "}",
-      "Keep wording compact. No markdown. No explanation outside JSON.",
-    ].join("\n");
-
-    const text = await generateRecipeText({
-      apiKey,
-      prompt,
-      imageBase64,
-      mimeType,
+    const dietary = normalizeDietaryConstraints({
+      diets: formData.getAll("diet"),
+      allergens: formData.getAll("allergen"),
     });
-    const parsed = parseModelJson(text);
-    return NextResponse.json(parsed);
-  } catch (error) {
-    console.error("Analyze route error:", error);
-    const status = getProviderStatus(error);
-    const message = getProviderMessage(error);
-    if (status === 429 || message.toLowerCase().includes("quota")) {
-      return NextResponse.json(
-        {
-          error:
-            "Gemini quota is currently exhausted for this API key. Wait a minute or update the Gemini billing/quota settings, then try again.",
-        },
-        { status: 429 }
-      );
+    const requestedMode = formData.get("mode");
+    const mode: AnalysisMode = isAnalysisMode(requestedMode) ? requestedMode : "dish";
+    const dish = mode === "dish" ? readDishName(formData) : null;
+    const prompt = mode === "pantry" ? buildPantryPrompt(dietary) : buildRecipePrompt(dietary, dish);
+
+    const reusable = imageStore !== null && mode === "dish";
+    const imageHeaders: Record<string, string> = reusable
+      ? { [IMAGE_IDS_HEADER]: images.map(getImageId).join(",") }
+      : {};
+    const cacheKey = getAnalysisCacheKey({ provider, mode, dietary, dish, images });
+    const fresh = req.nextUrl.searchParams.get("fresh") === "1";
+    if (cache && !fresh) {
+      const cached = await readCachedAnalysis(cache, cacheKey);
+      if (cached) {
+        return NextResponse.json(cached, {
+          headers: { ...rateLimitHeaders, ...imageHeaders, [CACHE_STATUS_HEADER]: "hit" },
+        });
+      }
     }
-    if (status === 503) {
-      return NextResponse.json(
-        {
-          error:
-            "Gemini is temporarily busy. Please wait a moment and try analyzing the photo again.",
-        },
-        { status: 503 }
+
+    // Photos are kept when the model is asked, so cache hits and reused photos do not write them again.
+    if (reusable && imageIds.length === 0) await storeImages(imageStore, upload);
+
+    const headers = {
+      ...rateLimitHeaders,
+      ...imageHeaders,
+      [CACHE_STATUS_HEADER]: !cache ? "off" : fresh ? "bypass" : "miss",
+    };
+    const saveResult = async (result: RecipeApiResponse | PantryIdeas) => {
+      if (cache) await writeCachedAnalysis(cache, cacheKey, result);
+    };
+
+    if (req.headers.get("accept")?.includes("text/event-stream")) {
+      return streamAnalysis({
+        provider,
+        prompt,
+        images,
+        mode,
+        dietary,
+        dish,
+        quality,
+        headers,
+        onResult: saveResult,
+        signal: req.signal,
+      });
+    }
+
+    if (mode === "pantry") {
+      const ideas = applyPantryPhotoQuality(
+        applyPantryDietaryChecks(await generatePantryIdeas({ provider, prompt, images, signal: req.signal }), dietary),
+        quality
       );
+      await saveResult(ideas);
+      return NextResponse.json(ideas, { headers });
     }
-    return NextResponse.json(
-      { error: "Failed to analyze image and generate recipe." },
-      { status: 500 }
+    const recipe = applyPhotoQuality(
+      applyDietaryChecks(await generateRecipe({ provider, prompt, images, dish, signal: req.signal }), dietary),
+      quality
     );
+    await saveResult(recipe);
+    return NextResponse.json(recipe, { headers });
+  } catch (error) {
+    console.error(`Analyze route error (${provider.id}/${provider.model}):`, error);
+    const { status, error: message } = describeAnalyzeError(error, provider);
+    return NextResponse.json({ error: message }, { status, headers: rateLimitHeaders });
   }
 }
@@ -0,0 +1,43 @@
+import { NextRequest, NextResponse } from "next/server";
+import { checkAnalyzeRateLimit } from "@/lib/analyze-rate-limit";
+import { ImageNormalizationError, normalizeImage } from "@/lib/image-normalize";
+import { getRateLimitHeaders } from "@/lib/rate-limit";
+
+export const runtime = "nodejs";
+
+/**
+ * Converts a photo the browser cannot decode itself (HEIC outside Safari, for
+ * one) into the same upright JPEG that `/api/analyze` would make of it, so the
+ * app can preview it, put it on cards and save it like any other photo.
+ * Decoding is expensive, so callers get the same limits as `/api/analyze`.
+ */
+export async function POST(req: NextRequest) {
+  let rateLimitHeaders: Record<string, string> = {};
+  try {
+    const rateLimit = await checkAnalyzeRateLimit(req, "normalize");
+    rateLimitHeaders = getRateLimitHeaders(rateLimit);
+    if (!rateLimit.allowed) {
+      return NextResponse.json(
+        { error: "Too many photos converted. Please wait before trying again." },
+        { status: 429, headers: rateLimitHeaders }
+      );
+    }
+
+    const formData = await req.formData();
+    const file = formData.get("image");
+    if (!(file instanceof File)) {
+      return NextResponse.json({ error: "No image uploaded." }, { status: 400, headers: rateLimitHeaders });
+    }
+
+    const image = await normalizeImage(new Uint8Array(await file.arrayBuffer()));
+    return new NextResponse(new Uint8Array(image.data), {
+      headers: { ...rateLimitHeaders, "Content-Type": image.mimeType, "Cache-Control": "no-store" },
+    });
+  } catch (error) {
+    if (error instanceof ImageNormalizationError) {
+      return NextResponse.json({ error: error.message }, { status: error.status, headers: rateLimitHeaders });
+    }
+    console.error("POST /api/images/normalize error:", error);
+    return NextResponse.json({ error: "Failed to convert image" }, { status: 500, headers: rateLimitHeaders });
+  }
+}
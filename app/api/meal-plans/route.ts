@@ -0,0 +1,145 @@
+import { NextRequest, NextResponse } from "next/server";
+import { getAuthUser } from "@/lib/auth";
+import { getAdminDb } from "@/lib/firebase-admin";
+import {
+  getMealPlanDocumentId,
+  isIsoDate,
+  isSavedRecipeId,
+  normalizeMealPlanEntries,
+  PlannedMeal,
+} from "@/lib/meal-plan";
+
+export const runtime = "nodejs";
+
+const COLLECTION = "meal-plans";
+const RECIPES_COLLECTION = "recipes";
+
+type MealPlanDocument = {
+  ownerId?: string;
+  weekStart?: string;
+  entries?: unknown;
+  createdAt?: number;
+  updatedAt?: number;
+};
+
+function badRequest(message: string) {
+  return NextResponse.json({ error: message }, { status: 400 });
+}
+
+function unauthorized() {
+  return NextResponse.json({ error: "Sign-in required" }, { status: 401 });
+}
+
+/**
+ * Sorts planned recipe ids into those that no longer exist, such as recipes
+ * deleted since they were planned, and those that belong to another user.
+ */
+async function checkPlannedRecipeIds(ownerId: string, entries: PlannedMeal[]) {
+  const ids = [...new Set(entries.map((entry) => entry.recipeId))];
+  if (ids.length === 0) return { missing: new Set<string>(), foreign: [] };
+  const db = getAdminDb();
+  const snapshots = await db.getAll(...ids.map((id) => db.collection(RECIPES_COLLECTION).doc(id)));
+  return {
+    missing: new Set(snapshots.filter((snap) => !snap.exists).map((snap) => snap.id)),
+    foreign: snapshots
+      .filter((snap) => snap.exists && (snap.data()?.ownerId as string) !== ownerId)
+      .map((snap) => snap.id),
+  };
+}
+
+export async function GET(req: NextRequest) {
+  try {
+    const user = await getAuthUser(req);
+    if (!user) return unauthorized();
+
+    const snapshot = await getAdminDb()
+      .collection(COLLECTION)
+      .where("ownerId", "==", user.uid)
+      .get();
+
+    const items = snapshot.docs
+      .flatMap((doc) => {
+        const data = doc.data() as MealPlanDocument;
+        if (!isIsoDate(data.weekStart)) return [];
+        return [
+          {
+            id: doc.id,
+            weekStart: data.weekStart,
+            entries: normalizeMealPlanEntries(data.entries, data.weekStart),
+            updatedAt: Number(data.updatedAt || 0),
+          },
+        ];
+      })
+      .sort((a, b) => a.weekStart.localeCompare(b.weekStart));
+    return NextResponse.json({ items });
+  } catch (error) {
+    console.error("GET /api/meal-plans error:", error);
+    return NextResponse.json({ error: "Failed to load meal plans" }, { status: 500 });
+  }
+}
+
+export async function PUT(req: NextRequest) {
+  try {
+    const user = await getAuthUser(req);
+    if (!user) return unauthorized();
+    const body = await req.json();
+    const weekStart = String(body?.weekStart || "").trim();
+
+    if (!isIsoDate(weekStart) || new Date(`${weekStart}T00:00:00Z`).getUTCDay() !== 1) {
+      return badRequest("weekStart must be a Monday in YYYY-MM-DD format");
+    }
+    if (!Array.isArray(body?.entries)) return badRequest("Missing entries");
+
+    const requested = normalizeMealPlanEntries(body.entries, weekStart);
+    if (!requested.every((entry) => isSavedRecipeId(entry.recipeId))) {
+      return badRequest("The plan refers to an invalid recipe id");
+    }
+    const { missing, foreign } = await checkPlannedRecipeIds(user.uid, requested);
+    if (foreign.length > 0) {
+      return badRequest("The plan refers to recipes that are not in your saved recipes");
+    }
+    const entries = requested.filter((entry) => !missing.has(entry.recipeId));
+
+    const ref = getAdminDb().collection(COLLECTION).doc(getMealPlanDocumentId(user.uid, weekStart));
+    const snap = await ref.get();
+    if (snap.exists && (snap.data()?.ownerId as string) !== user.uid) {
+      return NextResponse.json({ error: "Forbidden" }, { status: 403 });
+    }
+
+    const now = Date.now();
+    await ref.set({
+      ownerId: user.uid,
+      weekStart,
+      entries,
+      createdAt: (snap.data()?.createdAt as number | undefined) ?? now,
+      updatedAt: now,
+    });
+    return NextResponse.json({ id: ref.id, entries });
+  } catch (error) {
+    console.error("PUT /api/meal-plans error:", error);
+    return NextResponse.json({ error: "Failed to save meal plan" }, { status: 500 });
+  }
+}
+
+export async function DELETE(req: NextRequest) {
+  try {
+    const user = await getAuthUser(req);
+    if (!user) return unauthorized();
+    const id = req.nextUrl.searchParams.get("id")?.trim();
+
+    if (!id) return badRequest("Missing id");
+
+    const ref = getAdminDb().collection(COLLECTION).doc(id);
+    const snap = await ref.get();
+    if (!snap.exists) return NextResponse.json({ error: "Not found" }, { status: 404 });
+    if ((snap.data()?.ownerId as string) !== user.uid) {
+      return NextResponse.json({ error: "Forbidden" }, { status: 403 });
+    }
+
+    await ref.delete();
+    return NextResponse.json({ ok: true });
+  } catch (error) {
+    console.error("DELETE /api/meal-plans error:", error);
+    return NextResponse.json({ error: "Failed to remove meal plan" }, { status: 500 });
+  }
+}
@@ -0,0 +1,32 @@
+import { NextRequest, NextResponse } from "next/server";
+import { getPhotoStorage } from "@/lib/photo-storage";
+import { isPhotoKey } from "@/lib/recipe-photo";
+
+export const runtime = "nodejs";
+
+/**
+ * Serves stored dish photos. Keys are random and never reused, so responses
+ * cache forever. Share cards are only served through their link; see
+ * `getSharedImageUrl`.
+ */
+export async function GET(_req: NextRequest, { params }: { params: Promise<{ key: string }> }) {
+  try {
+    const { key } = await params;
+    if (!isPhotoKey(key) || key.endsWith("-card.jpg")) {
+      return NextResponse.json({ error: "Not found" }, { status: 404 });
+    }
+
+    const photo = await getPhotoStorage().get(key);
+    if (!photo) return NextResponse.json({ error: "Not found" }, { status: 404 });
+
+    return new NextResponse(photo.data as BodyInit, {
+      headers: {
+        "Content-Type": photo.contentType,
+        "Cache-Control": "public, max-age=31536000, immutable",
+      },
+    });
+  } catch (error) {
+    console.error("GET /api/photos error:", error);
+    return NextResponse.json({ error: "Failed to load photo" }, { status: 500 });
+  }
+}
@@ -0,0 +1,83 @@
+import { randomBytes } from "node:crypto";
+import { NextRequest, NextResponse } from "next/server";
+import { getAuthUser } from "@/lib/auth";
+import { getAdminDb } from "@/lib/firebase-admin";
+import { readJpeg } from "@/lib/pdf";
+import { getPhotoStorage } from "@/lib/photo-storage";
+import { MAX_PHOTO_BYTES, MAX_THUMBNAIL_BYTES, parseRecipePhoto, RecipePhoto } from "@/lib/recipe-photo";
+
+export const runtime = "nodejs";
+
+const COLLECTION = "recipes";
+
+function badRequest(message: string) {
+  return NextResponse.json({ error: message }, { status: 400 });
+}
+
+function unauthorized() {
+  return NextResponse.json({ error: "Sign-in required" }, { status: 401 });
+}
+
+type JpegUpload = { data: Uint8Array; width: number; height: number } | { error: string };
+
+async function readJpegUpload(entry: FormDataEntryValue | null, label: string, maxBytes: number): Promise<JpegUpload> {
+  if (!(entry instanceof File)) return { error: `Missing ${label}` };
+  if (entry.size > maxBytes) return { error: `The ${label} is too large` };
+  const data = new Uint8Array(await entry.arrayBuffer());
+  const jpeg = readJpeg(data);
+  if (!jpeg) return { error: `The ${label} must be a JPEG image` };
+  return { data, width: jpeg.width, height: jpeg.height };
+}
+
+/**
+ * Attaches the dish photo to a saved recipe, replacing any earlier one. The
+ * client sends the full JPEG and a thumbnail it has already resized.
+ */
+export async function POST(req: NextRequest) {
+  try {
+    const user = await getAuthUser(req);
+    if (!user) return unauthorized();
+    const formData = await req.formData();
+    const id = String(formData.get("id") || "").trim();
+
+    if (!id) return badRequest("Missing id");
+
+    const full = await readJpegUpload(formData.get("photo"), "photo", MAX_PHOTO_BYTES);
+    if ("error" in full) return badRequest(full.error);
+    const thumbnail = await readJpegUpload(formData.get("thumbnail"), "thumbnail", MAX_THUMBNAIL_BYTES);
+    if ("error" in thumbnail) return badRequest(thumbnail.error);
+
+    const ref = getAdminDb().collection(COLLECTION).doc(id);
+    const snap = await ref.get();
+    if (!snap.exists) return NextResponse.json({ error: "Not found" }, { status: 404 });
+    if ((snap.data()?.ownerId as string) !== user.uid) {
+      return NextResponse.json({ error: "Forbidden" }, { status: 403 });
+    }
+
+    const storage = getPhotoStorage();
+    const token = randomBytes(16).toString("hex");
+    const photo: RecipePhoto = {
+      full: `${token}-full.jpg`,
+      thumbnail: `${token}-thumb.jpg`,
+      width: full.width,
+      height: full.height,
+    };
+    await Promise.all([
+      storage.put(photo.full, { data: full.data, contentType: "image/jpeg" }),
+      storage.put(photo.thumbnail, { data: thumbnail.data, contentType: "image/jpeg" }),
+    ]);
+    await ref.update({ photo, updatedAt: Date.now() });
+
+    const previous = parseRecipePhoto(snap.data()?.photo);
+    if (previous) {
+      await Promise.all([storage.delete(previous.full), storage.delete(previous.thumbnail)]).catch((error) =>
+        console.error("POST /api/recipes/photo cleanup error:", error)
+      );
+    }
+
+    return NextResponse.json({ photo });
+  } catch (error) {
+    console.error("POST /api/recipes/photo error:", error);
+    return NextResponse.json({ error: "Failed to save photo" }, { status: 500 });
+  }
+}
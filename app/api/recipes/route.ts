@@ -1,14 +1,21 @@
 import { NextRequest, NextResponse } from "next/server";
+import { getAuthUser } from "@/lib/auth";
 import { getAdminDb } from "@/lib/firebase-admin";
+import { getPhotoStorage } from "@/lib/photo-storage";
+import { parseRecipeApiResponse } from "@/lib/recipe";
+import { parseRecipePhoto } from "@/lib/recipe-photo";
+import { deleteShare, isShareSlug } from "@/lib/shared-recipes";
 
 export const runtime = "nodejs";
 
 const COLLECTION = "recipes";
 
 type RecipeDocument = {
-  deviceId?: string;
+  ownerId?: string;
   name?: string;
   recipe?: unknown;
+  photo?: unknown;
+  shareSlug?: string;
   createdAt?: number;
   updatedAt?: number;
 };
@@ -17,14 +24,18 @@ function badRequest(message: string) {
   return NextResponse.json({ error: message }, { status: 400 });
 }
 
+function unauthorized() {
+  return NextResponse.json({ error: "Sign-in required" }, { status: 401 });
+}
+
 export async function GET(req: NextRequest) {
   try {
-    const deviceId = req.nextUrl.searchParams.get("deviceId")?.trim();
-    if (!deviceId) return badRequest("Missing deviceId");
+    const user = await getAuthUser(req);
+    if (!user) return unauthorized();
 
     const snapshot = await getAdminDb()
       .collection(COLLECTION)
-      .where("deviceId", "==", deviceId)
+      .where("ownerId", "==", user.uid)
       .get();
 
     const items = snapshot.docs
@@ -39,19 +50,20 @@ export async function GET(req: NextRequest) {
 
 export async function POST(req: NextRequest) {
   try {
+    const user = await getAuthUser(req);
+    if (!user) return unauthorized();
     const body = await req.json();
-    const deviceId = String(body?.deviceId || "").trim();
     const recipe = body?.recipe;
     const name = String(body?.name || "").trim();
 
-    if (!deviceId) return badRequest("Missing deviceId");
     if (!recipe || typeof recipe !== "object") return badRequest("Missing recipe");
 
+    const normalized = parseRecipeApiResponse(recipe);
     const now = Date.now();
     const ref = await getAdminDb().collection(COLLECTION).add({
-      deviceId,
-      name: name || recipe.dishName || "Saved Recipe",
-      recipe,
+      ownerId: user.uid,
+      name: name || normalized.dishName || "Saved Recipe",
+      recipe: normalized,
       createdAt: now,
       updatedAt: now,
     });
@@ -65,19 +77,19 @@ export async function POST(req: NextRequest) {
 
 export async function PATCH(req: NextRequest) {
   try {
+    const user = await getAuthUser(req);
+    if (!user) return unauthorized();
     const body = await req.json();
     const id = String(body?.id || "").trim();
-    const deviceId = String(body?.deviceId || "").trim();
     const name = String(body?.name || "").trim();
 
     if (!id) return badRequest("Missing id");
-    if (!deviceId) return badRequest("Missing deviceId");
     if (!name) return badRequest("Missing name");
 
     const ref = getAdminDb().collection(COLLECTION).doc(id);
     const snap = await ref.get();
     if (!snap.exists) return NextResponse.json({ error: "Not found" }, { status: 404 });
-    if ((snap.data()?.deviceId as string) !== deviceId) {
+    if ((snap.data()?.ownerId as string) !== user.uid) {
       return NextResponse.json({ error: "Forbidden" }, { status: 403 });
     }
 
@@ -91,20 +103,31 @@ export async function PATCH(req: NextRequest) {
 
 export async function DELETE(req: NextRequest) {
   try {
+    const user = await getAuthUser(req);
+    if (!user) return unauthorized();
     const id = req.nextUrl.searchParams.get("id")?.trim();
-    const deviceId = req.nextUrl.searchParams.get("deviceId")?.trim();
 
     if (!id) return badRequest("Missing id");
-    if (!deviceId) return badRequest("Missing deviceId");
 
     const ref = getAdminDb().collection(COLLECTION).doc(id);
     const snap = await ref.get();
     if (!snap.exists) return NextResponse.json({ error: "Not found" }, { status: 404 });
-    if ((snap.data()?.deviceId as string) !== deviceId) {
+    if ((snap.data()?.ownerId as string) !== user.uid) {
       return NextResponse.json({ error: "Forbidden" }, { status: 403 });
     }
 
     await ref.delete();
+    const slug = snap.data()?.shareSlug;
+    if (isShareSlug(slug)) {
+      await deleteShare(slug).catch((error) => console.error("DELETE /api/recipes share cleanup error:", error));
+    }
+    const photo = parseRecipePhoto(snap.data()?.photo);
+    if (photo) {
+      const storage = getPhotoStorage();
+      await Promise.all([storage.delete(photo.full), storage.delete(photo.thumbnail)]).catch((error) =>
+        console.error("DELETE /api/recipes photo cleanup error:", error)
+      );
+    }
     return NextResponse.json({ ok: true });
   } catch (error) {
     console.error("DELETE /api/recipes error:", error);
@@ -0,0 +1,112 @@
+import { randomBytes } from "node:crypto";
+import { FieldValue } from "firebase-admin/firestore";
+import { NextRequest, NextResponse } from "next/server";
+import { getAuthUser } from "@/lib/auth";
+import { getAdminDb } from "@/lib/firebase-admin";
+import { readJpeg } from "@/lib/pdf";
+import { getPhotoStorage } from "@/lib/photo-storage";
+import { isPhotoKey, MAX_PHOTO_BYTES } from "@/lib/recipe-photo";
+import { createShareSlug, deleteShare, isShareSlug, SHARES_COLLECTION } from "@/lib/shared-recipes";
+
+export const runtime = "nodejs";
+
+const COLLECTION = "recipes";
+
+function badRequest(message: string) {
+  return NextResponse.json({ error: message }, { status: 400 });
+}
+
+function unauthorized() {
+  return NextResponse.json({ error: "Sign-in required" }, { status: 401 });
+}
+
+/**
+ * Publishes a saved recipe at /r/<slug>, or refreshes the card image of an
+ * existing link. Sharing the same recipe again keeps its slug.
+ */
+export async function POST(req: NextRequest) {
+  try {
+    const user = await getAuthUser(req);
+    if (!user) return unauthorized();
+    const formData = await req.formData();
+    const id = String(formData.get("id") || "").trim();
+
+    if (!id) return badRequest("Missing id");
+
+    const cardEntry = formData.get("card");
+    let card: Uint8Array | null = null;
+    if (cardEntry instanceof File) {
+      if (cardEntry.size > MAX_PHOTO_BYTES) return badRequest("The card image is too large");
+      card = new Uint8Array(await cardEntry.arrayBuffer());
+      if (!readJpeg(card)) return badRequest("The card image must be a JPEG image");
+    }
+
+    const db = getAdminDb();
+    const ref = db.collection(COLLECTION).doc(id);
+    const snap = await ref.get();
+    if (!snap.exists) return NextResponse.json({ error: "Not found" }, { status: 404 });
+    if ((snap.data()?.ownerId as string) !== user.uid) {
+      return NextResponse.json({ error: "Forbidden" }, { status: 403 });
+    }
+
+    const existingSlug = snap.data()?.shareSlug;
+    const slug = isShareSlug(existingSlug) ? existingSlug : createShareSlug();
+    const shareRef = db.collection(SHARES_COLLECTION).doc(slug);
+    const previous = (await shareRef.get()).data();
+    const previousCard = isPhotoKey(previous?.card) ? previous.card : null;
+
+    const storage = getPhotoStorage();
+    let cardKey = previousCard;
+    if (card) {
+      cardKey = `${randomBytes(16).toString("hex")}-card.jpg`;
+      await storage.put(cardKey, { data: card, contentType: "image/jpeg" });
+    }
+
+    const now = Date.now();
+    await shareRef.set({
+      recipeId: id,
+      ownerId: user.uid,
+      card: cardKey,
+      createdAt: (previous?.createdAt as number | undefined) ?? now,
+      updatedAt: now,
+    });
+    if (slug !== existingSlug) await ref.update({ shareSlug: slug, updatedAt: now });
+
+    if (previousCard && previousCard !== cardKey) {
+      await storage
+        .delete(previousCard)
+        .catch((error) => console.error("POST /api/recipes/share cleanup error:", error));
+    }
+
+    return NextResponse.json({ slug });
+  } catch (error) {
+    console.error("POST /api/recipes/share error:", error);
+    return NextResponse.json({ error: "Failed to share recipe" }, { status: 500 });
+  }
+}
+
+/** Revokes the recipe's share link; the old URL stops working immediately. */
+export async function DELETE(req: NextRequest) {
+  try {
+    const user = await getAuthUser(req);
+    if (!user) return unauthorized();
+    const id = req.nextUrl.searchParams.get("id")?.trim();
+
+    if (!id) return badRequest("Missing id");
+
+    const ref = getAdminDb().collection(COLLECTION).doc(id);
+    const snap = await ref.get();
+    if (!snap.exists) return NextResponse.json({ error: "Not found" }, { status: 404 });
+    if ((snap.data()?.ownerId as string) !== user.uid) {
+      return NextResponse.json({ error: "Forbidden" }, { status: 403 });
+    }
+
+    const slug = snap.data()?.shareSlug;
+    if (isShareSlug(slug)) await deleteShare(slug);
+    await ref.update({ shareSlug: FieldValue.delete(), updatedAt: Date.now() });
+    return NextResponse.json({ ok: true });
+  } catch (error) {
+    console.error("DELETE /api/recipes/share error:", error);
+    return NextResponse.json({ error: "Failed to revoke link" }, { status: 500 });
+  }
+}
@@ -0,0 +1,34 @@
+import { NextRequest, NextResponse } from "next/server";
+import { getPhotoStorage } from "@/lib/photo-storage";
+import { getSharedRecipe } from "@/lib/shared-recipes";
+
+export const runtime = "nodejs";
+
+type Params = { params: Promise<{ slug: string; image: string }> };
+
+/**
+ * Serves a shared recipe's dish photo (`photo.jpg`) or flash card (`card.jpg`)
+ * only while its link is live. Caches keep them briefly, so a revoked link's
+ * images stop loading within minutes.
+ */
+export async function GET(_req: NextRequest, { params }: Params) {
+  try {
+    const { slug, image } = await params;
+    const shared = await getSharedRecipe(slug);
+    const key = image === "card.jpg" ? shared?.card : image === "photo.jpg" ? shared?.photo?.full : null;
+    if (!key) return NextResponse.json({ error: "Not found" }, { status: 404 });
+
+    const photo = await getPhotoStorage().get(key);
+    if (!photo) return NextResponse.json({ error: "Not found" }, { status: 404 });
+
+    return new NextResponse(photo.data as BodyInit, {
+      headers: {
+        "Content-Type": photo.contentType,
+        "Cache-Control": "public, max-age=300",
+      },
+    });
+  } catch (error) {
+    console.error("GET /api/shared image error:", error);
+    return NextResponse.json({ error: "Failed to load photo" }, { status: 500 });
+  }
+}
@@ -0,0 +1,72 @@
+import { randomBytes } from "node:crypto";
+import { NextRequest, NextResponse } from "next/server";
+import { getAuthUser } from "@/lib/auth";
+import { getAdminDb } from "@/lib/firebase-admin";
+import { getPhotoStorage } from "@/lib/photo-storage";
+import { RecipePhoto } from "@/lib/recipe-photo";
+import { getSharedImageUrl, getSharedRecipe } from "@/lib/shared-recipes";
+
+export const runtime = "nodejs";
+
+const RECIPES_COLLECTION = "recipes";
+
+type Params = { params: Promise<{ slug: string }> };
+
+function unauthorized() {
+  return NextResponse.json({ error: "Sign-in required" }, { status: 401 });
+}
+
+/** Copies the photo files so the copy survives the original being deleted. */
+async function copyPhoto(photo: RecipePhoto): Promise<RecipePhoto | null> {
+  const storage = getPhotoStorage();
+  const [full, thumbnail] = await Promise.all([storage.get(photo.full), storage.get(photo.thumbnail)]);
+  if (!full || !thumbnail) return null;
+  const token = randomBytes(16).toString("hex");
+  const copy = { ...photo, full: `${token}-full.jpg`, thumbnail: `${token}-thumb.jpg` };
+  await Promise.all([storage.put(copy.full, full), storage.put(copy.thumbnail, thumbnail)]);
+  return copy;
+}
+
+export async function GET(_req: NextRequest, { params }: Params) {
+  try {
+    const shared = await getSharedRecipe((await params).slug);
+    if (!shared) return NextResponse.json({ error: "Not found" }, { status: 404 });
+    return NextResponse.json({
+      name: shared.name,
+      recipe: shared.recipe,
+      photoUrl: shared.photo ? getSharedImageUrl(shared.slug, "photo") : null,
+    });
+  } catch (error) {
+    console.error("GET /api/shared error:", error);
+    return NextResponse.json({ error: "Failed to load recipe" }, { status: 500 });
+  }
+}
+
+/** "Save to my recipes": adds a copy of the shared recipe to the caller's library. */
+export async function POST(req: NextRequest, { params }: Params) {
+  try {
+    const user = await getAuthUser(req);
+    if (!user) return unauthorized();
+
+    const shared = await getSharedRecipe((await params).slug);
+    if (!shared) return NextResponse.json({ error: "Not found" }, { status: 404 });
+
+    const photo = shared.photo ? await copyPhoto(shared.photo) : null;
+    const now = Date.now();
+    const ref = await getAdminDb()
+      .collection(RECIPES_COLLECTION)
+      .add({
+        ownerId: user.uid,
+        name: shared.name,
+        recipe: shared.recipe,
+        ...(photo ? { photo } : {}),
+        createdAt: now,
+        updatedAt: now,
+      });
+
+    return NextResponse.json({ id: ref.id });
+  } catch (error) {
+    console.error("POST /api/shared error:", error);
+    return NextResponse.json({ error: "Failed to save recipe" }, { status: 500 });
+  }
+}
@@ -0,0 +1,165 @@
+"use client";
+
+import { useEffect, useState } from "react";
+import { findStepIngredients } from "@/lib/cook-mode";
+import { RecipeApiResponse } from "@/lib/recipe";
+import { StepTimerButtons } from "./timer-tray";
+
+/**
+ * Full-screen, one-step-at-a-time view for cooking. Keeps the screen awake
+ * while open and responds to arrow keys as well as the large buttons.
+ */
+export default function CookMode({
+  recipe,
+  step,
+  onStepChange,
+  onExit,
+}: {
+  recipe: RecipeApiResponse;
+  step: number;
+  onStepChange: (step: number) => void;
+  onExit: () => void;
+}) {
+  const total = recipe.instructions.length;
+  const current = Math.min(Math.max(step, 0), total - 1);
+  const isLast = current === total - 1;
+  const instruction = recipe.instructions[current] ?? "";
+  const stepIngredients = findStepIngredients(instruction, recipe.ingredients);
+  const [wakeLockActive, setWakeLockActive] = useState(false);
+
+  useEffect(() => {
+    if (!("wakeLock" in navigator)) return;
+    let sentinel: WakeLockSentinel | null = null;
+    let cancelled = false;
+
+    async function requestWakeLock() {
+      try {
+        const lock = await navigator.wakeLock.request("screen");
+        if (cancelled) {
+          void lock.release();
+          return;
+        }
+        sentinel = lock;
+        setWakeLockActive(true);
+        lock.addEventListener("release", () => {
+          if (!cancelled) setWakeLockActive(false);
+        });
+      } catch {
+        setWakeLockActive(false);
+      }
+    }
+
+    // The browser drops the lock whenever the tab is hidden, so take it again on return.
+    function handleVisibilityChange() {
+      if (document.visibilityState === "visible") void requestWakeLock();
+    }
+
+    void requestWakeLock();
+    document.addEventListener("visibilitychange", handleVisibilityChange);
+    return () => {
+      cancelled = true;
+      document.removeEventListener("visibilitychange", handleVisibilityChange);
+      void sentinel?.release();
+    };
+  }, []);
+
+  useEffect(() => {
+    function handleKeyDown(event: KeyboardEvent) {
+      if (event.key === "ArrowRight" || event.key === "ArrowDown" || event.key === "PageDown" || event.key === " ") {
+        event.preventDefault();
+        if (current < total - 1) onStepChange(current + 1);
+      } else if (event.key === "ArrowLeft" || event.key === "ArrowUp" || event.key === "PageUp") {
+        event.preventDefault();
+        if (current > 0) onStepChange(current - 1);
+      } else if (event.key === "Escape") {
+        onExit();
+      }
+    }
+
+    window.addEventListener("keydown", handleKeyDown);
+    return () => window.removeEventListener("keydown", handleKeyDown);
+  }, [current, total, onStepChange, onExit]);
+
+  return (
+    <div
+      className="no-print fixed inset-0 z-50 flex flex-col bg-white text-[#111111]"
+      role="dialog"
+      aria-modal="true"
+      aria-label={`Cook mode: ${recipe.dishName}`}
+    >
+      <header className="flex items-center justify-between gap-4 border-b border-[#e6e6e6] px-4 py-3 sm:px-8">
+        <div className="min-w-0">
+          <p className="truncate text-sm font-semibold">{recipe.dishName}</p>
+          <p className="text-xs text-[#777777]">
+            Step {current + 1} of {total}
+            {wakeLockActive ? " · Screen stays on" : ""}
+          </p>
+        </div>
+        <button
+          type="button"
+          onClick={onExit}
+          className="min-h-12 rounded-lg border border-[#cfcfcf] px-5 text-sm font-semibold hover:bg-[#f3f3f3]"
+        >
+          Exit
+        </button>
+      </header>
+      <div className="h-1.5 bg-[#eeeeee]">
+        <div className="h-full bg-[#111111] transition-all" style={{ width: `${((current + 1) / total) * 100}%` }} />
+      </div>
+
+      <main className="flex flex-1 flex-col overflow-y-auto px-4 py-6 sm:px-8 sm:py-10">
+        <p className="text-3xl font-semibold leading-snug sm:text-5xl sm:leading-tight" aria-live="polite">
+          {instruction}
+        </p>
+        <StepTimerButtons
+          instruction={instruction}
+          label={`${recipe.dishName}: step ${current + 1}`}
+          large
+        />
+        {stepIngredients.length > 0 && (
+          <section className="mt-8">
+            <h2 className="text-sm font-semibold uppercase text-[#777777]">You need</h2>
+            <ul className="mt-3 grid gap-2 sm:grid-cols-2">
+              {stepIngredients.map((ingredient, index) => (
+                <li
+                  key={`${ingredient.item}-cook-${index}`}
+                  className="rounded-lg border border-[#e6e6e6] px-4 py-3 text-lg sm:text-xl"
+                >
+                  <span className="font-semibold">{ingredient.amount}</span> {ingredient.item}
+                </li>
+              ))}
+            </ul>
+          </section>
+        )}
+        {isLast && recipe.platingTips.length > 0 && (
+          <section className="mt-8">
+            <h2 className="text-sm font-semibold uppercase text-[#777777]">Plating</h2>
+            <ul className="mt-3 space-y-2 text-lg text-[#333333] sm:text-xl">
+              {recipe.platingTips.map((tip, index) => (
+                <li key={`${tip}-cook-${index}`}>- {tip}</li>
+              ))}
+            </ul>
+          </section>
+        )}
+      </main>
+
+      <footer className="grid grid-cols-2 gap-3 border-t border-[#e6e6e6] p-3 sm:p-4">
+        <button
+          type="button"
+          onClick={() => onStepChange(current - 1)}
+          disabled={current === 0}
+          className="min-h-24 rounded-lg border border-[#cfcfcf] text-xl font-semibold hover:bg-[#f3f3f3] disabled:text-[#a6a6a6]"
+        >
+          Back
+        </button>
+        <button
+          type="button"
+          onClick={() => (isLast ? onExit() : onStepChange(current + 1))}
+          className="min-h-24 rounded-lg bg-[#111111] text-xl font-semibold text-white hover:bg-[#303030]"
+        >
+          {isLast ? "Done" : "Next"}
+        </button>
+      </footer>
+    </div>
+  );
+}
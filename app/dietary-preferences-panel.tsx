@@ -0,0 +1,59 @@
+"use client";
+
+import { ALLERGENS, DIETARY_PREFERENCES, DietaryConstraints, EMPTY_DIETARY_CONSTRAINTS } from "@/lib/dietary";
+import { LinkButton, ToggleChip } from "./ui";
+
+export default function DietaryPreferencesPanel({
+  value,
+  onChange,
+  disabled,
+}: {
+  value: DietaryConstraints;
+  onChange: (value: DietaryConstraints) => void;
+  disabled: boolean;
+}) {
+  function toggle<T extends string>(list: T[], id: T) {
+    return list.includes(id) ? list.filter((entry) => entry !== id) : [...list, id];
+  }
+
+  return (
+    <section className="rounded-lg border border-[#e6e6e6] bg-white">
+      <div className="flex items-center justify-between border-b border-[#e6e6e6] px-4 py-3">
+        <h2 className="text-base font-semibold uppercase text-[#777777] sm:text-sm">Dietary needs</h2>
+        {(value.diets.length > 0 || value.allergens.length > 0) && (
+          <LinkButton onClick={() => onChange(EMPTY_DIETARY_CONSTRAINTS)}>Clear</LinkButton>
+        )}
+      </div>
+      <div className="space-y-3 px-4 py-3">
+        <fieldset disabled={disabled}>
+          <legend className="text-xs font-medium uppercase text-[#777777]">Diet</legend>
+          <div className="mt-2 flex flex-wrap gap-1.5">
+            {DIETARY_PREFERENCES.map((diet) => (
+              <ToggleChip
+                key={diet.id}
+                active={value.diets.includes(diet.id)}
+                onClick={() => onChange({ ...value, diets: toggle(value.diets, diet.id) })}
+              >
+                {diet.label}
+              </ToggleChip>
+            ))}
+          </div>
+        </fieldset>
+        <fieldset disabled={disabled}>
+          <legend className="text-xs font-medium uppercase text-[#777777]">Avoid</legend>
+          <div className="mt-2 flex flex-wrap gap-1.5">
+            {ALLERGENS.map((allergen) => (
+              <ToggleChip
+                key={allergen.id}
+                active={value.allergens.includes(allergen.id)}
+                onClick={() => onChange({ ...value, allergens: toggle(value.allergens, allergen.id) })}
+              >
+                {allergen.label}
+              </ToggleChip>
+            ))}
+          </div>
+        </fieldset>
+      </div>
+    </section>
+  );
+}
@@ -0,0 +1,115 @@
+"use client";
+
+import { CARD_TEMPLATES, CARD_THEMES, FlashCardSettings } from "@/lib/flash-card";
+import { Button, ToggleChip } from "./ui";
+
+export type FlashCardPreview = {
+  settings: FlashCardSettings;
+  /** JPEG data URLs, one per card page. */
+  pages: string[];
+  fileNames: string[];
+  readable: boolean;
+};
+
+/** Template and theme choice with a live preview of every page of the card. */
+export default function FlashCardPicker({
+  preview,
+  onChange,
+  onDownload,
+  onShare,
+  onClose,
+}: {
+  preview: FlashCardPreview;
+  onChange: (settings: FlashCardSettings) => void;
+  onDownload: () => void;
+  onShare: () => void;
+  onClose: () => void;
+}) {
+  const { settings } = preview;
+
+  return (
+    <div
+      className="no-print fixed inset-0 z-50 flex flex-col bg-white text-[#111111]"
+      role="dialog"
+      aria-modal="true"
+      aria-label="Flash card"
+    >
+      <header className="flex items-center justify-between gap-4 border-b border-[#e6e6e6] px-4 py-3 sm:px-8">
+        <p className="text-sm font-semibold">Flash Card</p>
+        <button
+          type="button"
+          onClick={onClose}
+          className="min-h-12 rounded-lg border border-[#cfcfcf] px-5 text-sm font-semibold hover:bg-[#f3f3f3]"
+        >
+          Close
+        </button>
+      </header>
+
+      <div className="grid flex-1 gap-6 overflow-y-auto px-4 py-6 sm:px-8 md:grid-cols-[18rem_1fr]">
+        <div className="space-y-5">
+          <section>
+            <h2 className="text-sm font-semibold uppercase text-[#777777]">Layout</h2>
+            <div className="mt-3 grid gap-2">
+              {CARD_TEMPLATES.map((template) => (
+                <button
+                  key={template.id}
+                  type="button"
+                  aria-pressed={template.id === settings.template}
+                  onClick={() => onChange({ ...settings, template: template.id })}
+                  className={
+                    template.id === settings.template
+                      ? "rounded-lg border border-[#111111] bg-[#111111] px-3 py-2 text-left text-white"
+                      : "rounded-lg border border-[#d6d6d6] px-3 py-2 text-left hover:bg-[#f3f3f3]"
+                  }
+                >
+                  <span className="block text-sm font-semibold">{template.label}</span>
+                  <span className="block text-xs opacity-70">{template.description}</span>
+                </button>
+              ))}
+            </div>
+          </section>
+
+          <section>
+            <h2 className="text-sm font-semibold uppercase text-[#777777]">Theme</h2>
+            <div className="mt-3 flex flex-wrap gap-2">
+              {CARD_THEMES.map((theme) => (
+                <ToggleChip
+                  key={theme.id}
+                  active={theme.id === settings.theme}
+                  onClick={() => onChange({ ...settings, theme: theme.id })}
+                >
+                  {theme.label}
+                </ToggleChip>
+              ))}
+            </div>
+          </section>
+
+          {!preview.readable && (
+            <p className="text-sm leading-6 text-[#555555]">
+              This recipe is long for this layout, so the text is small. The Two-Page Card keeps it readable.
+            </p>
+          )}
+
+          <div className="grid gap-3">
+            <Button onClick={onDownload}>{preview.pages.length > 1 ? "Save JPGs" : "Save JPG"}</Button>
+            <Button onClick={onShare} primary>
+              Share
+            </Button>
+          </div>
+        </div>
+
+        <div className="flex flex-wrap items-start justify-center gap-4 bg-[#f3f3f3] p-4">
+          {preview.pages.map((page, index) => (
+            // eslint-disable-next-line @next/next/no-img-element
+            <img
+              key={`${preview.fileNames[index]}-${index}`}
+              src={page}
+              alt={`Card page ${index + 1}`}
+              className="max-h-[70vh] w-auto max-w-full border border-[#d8d8d8] bg-white"
+            />
+          ))}
+        </div>
+      </div>
+    </div>
+  );
+}
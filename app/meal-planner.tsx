@@ -0,0 +1,171 @@
+"use client";
+
+import {
+  addDays,
+  findPlannedMeal,
+  formatDayLabel,
+  getWeekDays,
+  MAX_PLANNED_SERVINGS,
+  MEAL_SLOTS,
+  MealSlot,
+  PlannedMeal,
+  startOfWeek,
+  toIsoDate,
+} from "@/lib/meal-plan";
+import { computeNutrition, formatNutritionValue, Nutrient, NUTRIENTS, sumNutrition } from "@/lib/nutrition";
+import { SavedRecipe } from "./recipe-library";
+import { Button, LinkButton } from "./ui";
+
+/** The daily totals shown in the planner; the full breakdown lives on each recipe. */
+const PLANNER_NUTRIENTS: Nutrient[] = ["kcal", "protein", "carbs", "fat"];
+
+/**
+ * One week of saved recipes by day and meal. Daily totals are per person: one
+ * serving of each planned meal, whatever the servings override for cooking.
+ */
+export default function MealPlanner({
+  weekStart,
+  entries,
+  recipes,
+  loaded,
+  error,
+  onWeekChange,
+  onPlan,
+  onServingsChange,
+  onShoppingList,
+}: {
+  weekStart: string;
+  entries: PlannedMeal[];
+  recipes: SavedRecipe[];
+  loaded: boolean;
+  error: string | null;
+  onWeekChange: (weekStart: string) => void;
+  onPlan: (day: string, meal: MealSlot, recipeId: string | null) => void;
+  onServingsChange: (day: string, meal: MealSlot, servings: number | null) => void;
+  onShoppingList: () => void;
+}) {
+  const findRecipe = (id: string) => recipes.find((item) => item.id === id) ?? null;
+  const plannedCount = entries.filter((entry) => findRecipe(entry.recipeId)).length;
+
+  return (
+    <section className="rounded-lg border border-[#e6e6e6] bg-white">
+      <div className="flex items-center justify-between border-b border-[#e6e6e6] px-4 py-3">
+        <h2 className="text-base font-semibold uppercase text-[#777777] sm:text-sm">Meal Plan</h2>
+        {loaded && <span className="text-xs font-medium text-[#777777]">{plannedCount} planned</span>}
+      </div>
+
+      {error && <p className="border-b border-[#e6e6e6] px-4 py-3 text-sm text-[#555555]">{error}</p>}
+
+      {!loaded ? (
+        <p className="px-4 py-4 text-sm leading-6 text-[#555555]">Loading meal plan...</p>
+      ) : recipes.length === 0 ? (
+        <p className="px-4 py-4 text-sm leading-6 text-[#555555]">
+          Save recipes to My Recipes to plan them into your week.
+        </p>
+      ) : (
+        <>
+          <div className="flex items-center justify-between gap-2 border-b border-[#e6e6e6] px-4 py-3 text-xs font-medium">
+            <LinkButton onClick={() => onWeekChange(addDays(weekStart, -7))}>Previous</LinkButton>
+            <button
+              type="button"
+              onClick={() => onWeekChange(startOfWeek())}
+              className="text-sm font-semibold"
+              title="Go to this week"
+            >
+              {formatDayLabel(weekStart)} – {formatDayLabel(addDays(weekStart, 6))}
+            </button>
+            <LinkButton onClick={() => onWeekChange(addDays(weekStart, 7))}>Next</LinkButton>
+          </div>
+
+          <ul className="divide-y divide-[#e6e6e6]">
+            {getWeekDays(weekStart).map((day) => {
+              const meals = MEAL_SLOTS.flatMap((slot) => {
+                const entry = findPlannedMeal(entries, day, slot.id);
+                const saved = entry ? findRecipe(entry.recipeId) : null;
+                return saved ? [computeNutrition(saved.recipe)] : [];
+              });
+              const totals = sumNutrition(meals);
+              const estimated = PLANNER_NUTRIENTS.some((id) => totals[id] && totals[id].source !== "table");
+
+              return (
+                <li key={day} className="px-4 py-3">
+                  <div className="flex flex-wrap items-baseline justify-between gap-x-3 gap-y-1">
+                    <p className={day === toIsoDate(new Date()) ? "text-sm font-semibold" : "text-sm font-medium"}>
+                      {formatDayLabel(day)}
+                    </p>
+                    {meals.length > 0 && (
+                      <p
+                        className={
+                          estimated
+                            ? "rounded border border-dashed border-[#9a9a9a] px-1.5 py-0.5 text-xs text-[#777777]"
+                            : "text-xs text-[#777777]"
+                        }
+                        title={estimated ? "Includes estimated values" : undefined}
+                      >
+                        {PLANNER_NUTRIENTS.map(
+                          (id) =>
+                            `${NUTRIENTS.find((nutrient) => nutrient.id === id)?.label} ${formatNutritionValue(id, totals[id])}`
+                        ).join(" · ")}
+                      </p>
+                    )}
+                  </div>
+
+                  <div className="mt-2 grid gap-2 sm:grid-cols-3">
+                    {MEAL_SLOTS.map((slot) => {
+                      const entry = findPlannedMeal(entries, day, slot.id);
+                      const saved = entry ? findRecipe(entry.recipeId) : null;
+                      return (
+                        <div key={slot.id} className="rounded-md border border-[#e6e6e6] p-2">
+                          <p className="text-[10px] font-medium uppercase text-[#777777]">{slot.label}</p>
+                          <select
+                            value={saved?.id ?? ""}
+                            onChange={(event) => onPlan(day, slot.id, event.target.value || null)}
+                            className="mt-1 min-h-9 w-full rounded-md border border-[#cfcfcf] bg-white px-2 text-sm"
+                            aria-label={`${slot.label} on ${formatDayLabel(day)}`}
+                          >
+                            <option value="">Nothing planned</option>
+                            {recipes.map((item) => (
+                              <option key={item.id} value={item.id}>
+                                {item.name}
+                              </option>
+                            ))}
+                          </select>
+                          {entry && saved && (
+                            <select
+                              value={entry.servings ?? ""}
+                              onChange={(event) =>
+                                onServingsChange(day, slot.id, event.target.value ? Number(event.target.value) : null)
+                              }
+                              className="mt-1 min-h-9 w-full rounded-md border border-[#cfcfcf] bg-white px-2 text-xs"
+                              aria-label={`Servings for ${slot.label.toLowerCase()} on ${formatDayLabel(day)}`}
+                            >
+                              <option value="">Serves {saved.recipe.servings} (as saved)</option>
+                              {Array.from({ length: MAX_PLANNED_SERVINGS }, (_, index) => index + 1).map((count) => (
+                                <option key={count} value={count}>
+                                  Serves {count}
+                                </option>
+                              ))}
+                            </select>
+                          )}
+                        </div>
+                      );
+                    })}
+                  </div>
+                </li>
+              );
+            })}
+          </ul>
+
+          <div className="border-t border-[#d8d8d8] p-4">
+            <p className="mb-3 text-xs leading-5 text-[#777777]">
+              Daily totals are per person: one serving of each planned meal.
+            </p>
+            <Button onClick={onShoppingList} disabled={plannedCount === 0}>
+              Shopping List for This Week
+            </Button>
+          </div>
+        </>
+      )}
+    </section>
+  );
+}
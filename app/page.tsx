@@ -1,50 +1,259 @@
 "use client";
 
-import { ChangeEvent, ReactNode, RefObject, useEffect, useRef, useState } from "react";
+import { ChangeEvent, RefObject, useEffect, useRef, useState, useSyncExternalStore } from "react";
+import { flushSync } from "react-dom";
+import { AnalyzeEvent } from "@/lib/analyze-events";
+import { authFetch, claimLegacyDeviceData, getIdToken } from "@/lib/auth-client";
+import {
+  DietaryConstraints,
+  EMPTY_DIETARY_CONSTRAINTS,
+  getAllergenLabel,
+  getAvoidedAllergens,
+  getDietaryLabel,
+  normalizeDietaryConstraints,
+} from "@/lib/dietary";
+import {
+  DEFAULT_FLASH_CARD_SETTINGS,
+  FlashCardSettings,
+  normalizeFlashCardSettings,
+  renderFlashCard,
+} from "@/lib/flash-card";
+import {
+  findPlannedMeal,
+  formatDayLabel,
+  MealPlan,
+  MealSlot,
+  PlannedMeal,
+  setPlannedMeal,
+  startOfWeek,
+} from "@/lib/meal-plan";
+import {
+  computeNutrition,
+  describeNutritionSources,
+  formatNutritionValue,
+  NutritionBreakdown,
+  NUTRIENTS,
+  NUTRITION_SOURCE_LABELS,
+} from "@/lib/nutrition";
+import { AnalysisMode, isMissingIngredient, PantryIdeas, parsePantryIdeas } from "@/lib/pantry";
+import {
+  getPhotoQualityAdvice,
+  measurePhotoQuality,
+  PhotoQuality,
+  QUALITY_SAMPLE_SIZE,
+  rgbaToLuma,
+} from "@/lib/photo-quality";
+import {
+  createPaprikaArchive,
+  parseRecipeFile,
+  RECIPE_FORMATS,
+  RECIPE_IMPORT_ACCEPT,
+  RecipeFormat,
+  toMarkdownRecipe,
+  toSchemaOrgRecipe,
+} from "@/lib/recipe-formats";
+import { createRecipePdf, getPaperSize } from "@/lib/recipe-pdf";
+import { getPhotoUrl, parseRecipePhoto, THUMBNAIL_SIZE } from "@/lib/recipe-photo";
+import {
+  DishAlternative,
+  getRecipeFieldLabel,
+  parseDishIdentification,
+  parseRecipeApiResponse,
+  Recipe,
+  RecipeApiResponse,
+  RecipeField,
+  scaleRecipe,
+} from "@/lib/recipe";
+import {
+  buildShoppingList,
+  formatShoppingListMarkdown,
+  formatShoppingListText,
+  ShoppingSource,
+} from "@/lib/shopping-list";
+import { readServerSentEvents } from "@/lib/sse";
+import { createStoredValue } from "@/lib/stored-value";
+import { convertRecipeUnits, UNIT_SYSTEMS, UnitSystem } from "@/lib/units";
+import CookMode from "./cook-mode";
+import DietaryPreferencesPanel from "./dietary-preferences-panel";
+import FlashCardPicker, { FlashCardPreview } from "./flash-card-picker";
+import MealPlanner from "./meal-planner";
+import { AnalysisModeToggle, PantryIdeasPanel } from "./pantry-ideas-panel";
+import RecipeLibrary, { SavedRecipe } from "./recipe-library";
+import ShoppingListPanel, { PrintableShoppingList } from "./shopping-list-panel";
+import StreamingRecipePanel from "./streaming-recipe-panel";
+import { StepTimerButtons } from "./timer-tray";
+import { Button, GuessedMark, LinkButton, Notice, RecipeSection, Tag } from "./ui";
+
+type CapturedPhoto = {
+  id: string;
+  file: File;
+  url: string;
+  /** Null when the browser could not score the photo. */
+  quality: PhotoQuality | null;
+};
+
+/** The recipe being cooked and the step on screen, persisted so a reload resumes it. */
+type CookSession = {
+  recipe: RecipeApiResponse;
+  step: number;
+};
 
-type Ingredient = {
-  item: string;
-  amount: string;
+/** Recipes picked for the shopping list and the items already ticked off. */
+type ShoppingListState = {
+  recipeIds: string[];
+  checked: string[];
 };
 
-type Recipe = {
-  dishName: string;
-  shortDescription: string;
-  cuisine: string;
-  difficulty: "Easy" | "Medium" | "Hard";
-  servings: string;
-  prepTime: string;
-  cookTime: string;
-  caloriesPerServing: string;
-  ingredients: Ingredient[];
-  instructions: string[];
-  platingTips: string[];
+/** Server-side ids of the photos last analyzed, so a follow-up request can skip the upload. */
+type AnalyzedImages = {
+  photoIds: string[];
+  imageIds: string[];
+};
+
+/** Set when /api/analyze turns the client away until `retryAt`. */
+type RateLimitNotice = {
+  message: string;
+  retryAt: number;
 };
 
 type WorkflowStep = "idle" | "camera" | "captured" | "analyzing" | "ready";
+type SaveState = "idle" | "saving" | "saved";
+type PrintTarget = "recipe" | "shopping";
 
 const MAX_UPLOAD_BYTES = 4 * 1024 * 1024;
-const ALLOWED_MIME_TYPES = new Set(["image/jpeg", "image/png", "image/webp"]);
+const MAX_PHOTOS = 4;
+/** Browsers often leave `type` empty for HEIC, so the extension counts too. */
+const PHOTO_ACCEPT = "image/jpeg,image/png,image/webp,image/heic,image/heif,image/avif,.heic,.heif,.avif";
+const PHOTO_FILE_PATTERN = /\.(jpe?g|png|webp|heic|heif|avif)$/i;
+const UNIT_SYSTEM_STORAGE_KEY = "chef-cam-unit-system";
+const DIETARY_STORAGE_KEY = "chef-cam-dietary";
+const COOK_SESSION_STORAGE_KEY = "chef-cam-cook-session";
+const SHOPPING_LIST_STORAGE_KEY = "chef-cam-shopping-list";
+const FLASH_CARD_STORAGE_KEY = "chef-cam-flash-card";
+/** Stands in for the recipe on screen when it has not been saved yet. */
+const CURRENT_RECIPE_ID = "current";
+/** Stands in for every meal in the week shown in the planner. */
+const MEAL_PLAN_OPTION_ID = "meal-plan";
+
+const unitSystemStore = createStoredValue<UnitSystem>(UNIT_SYSTEM_STORAGE_KEY, "original", parseUnitSystem, String);
+const dietaryStore = createStoredValue(DIETARY_STORAGE_KEY, EMPTY_DIETARY_CONSTRAINTS, parseDietaryConstraints);
+const cookSessionStore = createStoredValue<CookSession | null>(COOK_SESSION_STORAGE_KEY, null, parseCookSession);
+const shoppingListStore = createStoredValue<ShoppingListState>(
+  SHOPPING_LIST_STORAGE_KEY,
+  { recipeIds: [], checked: [] },
+  parseShoppingList
+);
+const cardSettingsStore = createStoredValue(
+  FLASH_CARD_STORAGE_KEY,
+  DEFAULT_FLASH_CARD_SETTINGS,
+  parseFlashCardSettings
+);
 
 export default function Home() {
   const videoRef = useRef<HTMLVideoElement>(null);
   const streamRef = useRef<MediaStream | null>(null);
   const fileInputRef = useRef<HTMLInputElement>(null);
+  const importInputRef = useRef<HTMLInputElement>(null);
+  const photosRef = useRef<CapturedPhoto[]>([]);
+  const pickerAppendsRef = useRef(false);
+  const mealPlanSaveRef = useRef<Promise<void>>(Promise.resolve());
 
   const [step, setStep] = useState<WorkflowStep>("idle");
-  const [previewUrl, setPreviewUrl] = useState<string | null>(null);
-  const [capturedFile, setCapturedFile] = useState<File | null>(null);
-  const [recipe, setRecipe] = useState<Recipe | null>(null);
+  const [photos, setPhotos] = useState<CapturedPhoto[]>([]);
+  const [activePhotoId, setActivePhotoId] = useState<string | null>(null);
+  const [photoErrors, setPhotoErrors] = useState<Record<string, string>>({});
+  const [cameraAppends, setCameraAppends] = useState(false);
+  const [analysisMode, setAnalysisMode] = useState<AnalysisMode>("dish");
+  const [pantryIdeas, setPantryIdeas] = useState<PantryIdeas | null>(null);
+  const [candidateIndex, setCandidateIndex] = useState(0);
+  const [recipe, setRecipe] = useState<RecipeApiResponse | null>(null);
+  const [draftRecipe, setDraftRecipe] = useState<Partial<Recipe> | null>(null);
   const [error, setError] = useState<string | null>(null);
   const [statusMessage, setStatusMessage] = useState("");
   const [elapsedSeconds, setElapsedSeconds] = useState(0);
+  const [rateLimit, setRateLimit] = useState<RateLimitNotice | null>(null);
+  const [retrySeconds, setRetrySeconds] = useState(0);
+  const [fromCache, setFromCache] = useState(false);
+  const [qualityHold, setQualityHold] = useState(false);
+  const [qualityOverride, setQualityOverride] = useState(false);
+  const [analyzedImages, setAnalyzedImages] = useState<AnalyzedImages | null>(null);
+  const [dishCandidates, setDishCandidates] = useState<DishAlternative[]>([]);
+  const [savedRecipes, setSavedRecipes] = useState<SavedRecipe[]>([]);
+  const [libraryLoaded, setLibraryLoaded] = useState(false);
+  const [libraryError, setLibraryError] = useState<string | null>(null);
+  const [importing, setImporting] = useState(false);
+  const [mealPlans, setMealPlans] = useState<MealPlan[]>([]);
+  const [mealPlansLoaded, setMealPlansLoaded] = useState(false);
+  const [mealPlanError, setMealPlanError] = useState<string | null>(null);
+  // This week depends on the browser's timezone, so it is only known after hydration.
+  const currentWeek = useSyncExternalStore(subscribeToNothing, getCurrentWeek, getServerWeek);
+  const [chosenWeek, setPlanWeek] = useState<string | null>(null);
+  const planWeek = chosenWeek ?? currentWeek;
+  const [savedRecipeId, setSavedRecipeId] = useState<string | null>(null);
+  const [saveState, setSaveState] = useState<SaveState>("idle");
+  const [servings, setServings] = useState<number | null>(null);
+  const unitSystem = useSyncExternalStore(unitSystemStore.subscribe, unitSystemStore.get, unitSystemStore.getServer);
+  const dietary = useSyncExternalStore(dietaryStore.subscribe, dietaryStore.get, dietaryStore.getServer);
+  const cookSession = useSyncExternalStore(
+    cookSessionStore.subscribe,
+    cookSessionStore.get,
+    cookSessionStore.getServer
+  );
+  const shoppingList = useSyncExternalStore(
+    shoppingListStore.subscribe,
+    shoppingListStore.get,
+    shoppingListStore.getServer
+  );
+  const cardSettings = useSyncExternalStore(
+    cardSettingsStore.subscribe,
+    cardSettingsStore.get,
+    cardSettingsStore.getServer
+  );
+  const [cardPreview, setCardPreview] = useState<FlashCardPreview | null>(null);
+  const [sharingLink, setSharingLink] = useState(false);
+  const [printTarget, setPrintTarget] = useState<PrintTarget>("recipe");
+
+  // Saving keeps the rescaled recipe in its original units; the panel and the
+  // print/card exports show it in the chosen unit system.
+  const scaledRecipe = recipe ? scaleRecipe(recipe, servings ?? recipe.servings) : null;
+  const displayedRecipe = scaledRecipe ? convertRecipeUnits(scaledRecipe, unitSystem) : null;
+
+  const planEntries = mealPlans.find((plan) => plan.weekStart === planWeek)?.entries ?? [];
+  const plannedRecipes = planEntries.flatMap((entry) => {
+    const saved = savedRecipes.find((item) => item.id === entry.recipeId);
+    return saved ? [{ entry, name: saved.name, recipe: saved.recipe }] : [];
+  });
+
+  const shoppingOptions = [
+    ...(plannedRecipes.length > 0
+      ? [{ id: MEAL_PLAN_OPTION_ID, name: `Week of ${formatDayLabel(planWeek)}` }]
+      : []),
+    ...(displayedRecipe && !savedRecipeId ? [{ id: CURRENT_RECIPE_ID, name: displayedRecipe.dishName }] : []),
+    ...savedRecipes.map((item) => ({ id: item.id, name: item.name })),
+  ];
+  const shoppingSources: ShoppingSource[] = shoppingOptions
+    .filter((option) => shoppingList.recipeIds.includes(option.id))
+    .flatMap((option) => {
+      if (option.id === MEAL_PLAN_OPTION_ID) {
+        return plannedRecipes.map(({ entry, name, recipe }) => ({
+          name,
+          ingredients: convertRecipeUnits(scaleRecipe(recipe, entry.servings ?? recipe.servings), unitSystem)
+            .ingredients,
+        }));
+      }
+      const saved = savedRecipes.find((item) => item.id === option.id);
+      const source = saved ? convertRecipeUnits(saved.recipe, unitSystem) : displayedRecipe;
+      return [{ name: option.name, ingredients: source?.ingredients ?? [] }];
+    });
+  const shoppingAisles = buildShoppingList(shoppingSources);
+  const shoppingRecipeNames = [...new Set(shoppingSources.map((source) => source.name))];
 
   useEffect(() => {
     return () => {
       stopCamera();
-      if (previewUrl) URL.revokeObjectURL(previewUrl);
+      for (const photo of photosRef.current) URL.revokeObjectURL(photo.url);
     };
-  }, [previewUrl]);
+  }, []);
 
   useEffect(() => {
     if (step !== "analyzing") return;
@@ -55,10 +264,74 @@ export default function Home() {
     return () => window.clearInterval(timer);
   }, [step]);
 
-  async function openCamera() {
+  useEffect(() => {
+    if (!rateLimit) return;
+    const timer = window.setInterval(() => {
+      const seconds = Math.ceil((rateLimit.retryAt - Date.now()) / 1000);
+      if (seconds > 0) {
+        setRetrySeconds(seconds);
+      } else {
+        setRateLimit(null);
+      }
+    }, 250);
+    return () => window.clearInterval(timer);
+  }, [rateLimit]);
+
+  useEffect(() => {
+    let cancelled = false;
+    // Older builds saved under a device id; hand that data to the account before the first load.
+    const claimed = claimLegacyDeviceData();
+
+    async function loadSavedRecipes() {
+      try {
+        await claimed;
+        const response = await authFetch("/api/recipes");
+        const payload = await response.json().catch(() => null);
+        if (!response.ok) {
+          throw new Error(payload?.error || "Could not load saved recipes.");
+        }
+        if (cancelled) return;
+        setSavedRecipes(Array.isArray(payload?.items) ? (payload.items as unknown[]).map(toSavedRecipe) : []);
+      } catch (err: unknown) {
+        if (cancelled) return;
+        setLibraryError(err instanceof Error ? err.message : "Could not load saved recipes.");
+      } finally {
+        if (!cancelled) setLibraryLoaded(true);
+      }
+    }
+
+    async function loadMealPlans() {
+      try {
+        // A failed claim is already reported by the library; still show the plans this account has.
+        await claimed.catch(() => undefined);
+        const response = await authFetch("/api/meal-plans");
+        const payload = await response.json().catch(() => null);
+        if (!response.ok) {
+          throw new Error(payload?.error || "Could not load meal plans.");
+        }
+        if (cancelled) return;
+        setMealPlans(Array.isArray(payload?.items) ? (payload.items as MealPlan[]) : []);
+      } catch (err: unknown) {
+        if (cancelled) return;
+        setMealPlanError(err instanceof Error ? err.message : "Could not load meal plans.");
+      } finally {
+        if (!cancelled) setMealPlansLoaded(true);
+      }
+    }
+
+    void loadSavedRecipes();
+    void loadMealPlans();
+    return () => {
+      cancelled = true;
+    };
+  }, []);
+
+  /** Opens the camera; with `append` the captures are added to the current photo set. */
+  async function openCamera(append = false) {
     try {
       setError(null);
-      setRecipe(null);
+      if (!append) setRecipe(null);
+      setCameraAppends(append && photos.length < MAX_PHOTOS);
       setStep("camera");
       const stream = await navigator.mediaDevices.getUserMedia({
         video: {
@@ -74,7 +347,7 @@ export default function Home() {
         await videoRef.current.play();
       }
     } catch {
-      setStep(capturedFile ? "captured" : "idle");
+      setStep(photos.length > 0 ? "captured" : "idle");
       setError("Camera unavailable. Allow camera access or choose a photo from your device.");
     }
   }
@@ -88,7 +361,11 @@ export default function Home() {
     }
   }
 
-  async function capturePhoto() {
+  /**
+   * Captures a frame. With `analyze` the whole photo set is sent straight away;
+   * otherwise the camera stays open for another angle until the set is full.
+   */
+  async function capturePhoto(analyze = true) {
     if (!videoRef.current) return;
     const video = videoRef.current;
     const canvas = document.createElement("canvas");
@@ -112,162 +389,744 @@ export default function Home() {
       return;
     }
 
-    stopCamera();
     const file = new File([blob], `chef-cam-${Date.now()}.jpg`, { type: "image/jpeg" });
-    setCapturedImage(file);
-    await analyzeFile(file);
+    const quality = measureImageQuality(canvas, canvas, {
+      width: video.videoWidth || canvas.width,
+      height: video.videoHeight || canvas.height,
+    });
+    const next = setCapturedPhotos([...(cameraAppends ? photos : []), createCapturedPhoto(file, quality)]);
+    setCameraAppends(true);
+
+    if (analyze || next.length >= MAX_PHOTOS) {
+      stopCamera();
+    } else {
+      setStep("camera");
+    }
+    if (analyze) await analyzePhotos(next);
+  }
+
+  function choosePhotos(append: boolean) {
+    pickerAppendsRef.current = append;
+    fileInputRef.current?.click();
   }
 
   async function handleFileSelected(event: ChangeEvent<HTMLInputElement>) {
-    const file = event.target.files?.[0];
+    const files = Array.from(event.target.files ?? []);
     event.target.value = "";
-    if (!file) return;
-
-    try {
-      setError(null);
-      const prepared = await prepareImage(file);
-      setCapturedImage(prepared);
-      await analyzeFile(prepared);
-    } catch (err: unknown) {
-      setError(err instanceof Error ? err.message : "Could not use that photo.");
+    if (files.length === 0) return;
+
+    const append = pickerAppendsRef.current;
+    const base = append ? photos : [];
+    const accepted = files.slice(0, MAX_PHOTOS - base.length);
+    const results = await Promise.allSettled(accepted.map((file) => prepareImage(file)));
+
+    const problems = results.flatMap((result, index) =>
+      result.status === "rejected"
+        ? [
+            `${accepted[index].name}: ${
+              result.reason instanceof Error ? result.reason.message : "Could not use that photo."
+            }`,
+          ]
+        : []
+    );
+    if (files.length > accepted.length) {
+      problems.push(`Only ${MAX_PHOTOS} photos can be analyzed together; the rest were skipped.`);
     }
+    setError(problems.length > 0 ? problems.join(" ") : null);
+
+    const prepared = results.flatMap((result) => (result.status === "fulfilled" ? [result.value] : []));
+    if (prepared.length === 0) return;
+    const next = setCapturedPhotos([
+      ...base,
+      ...prepared.map((photo) => createCapturedPhoto(photo.file, photo.quality)),
+    ]);
+    if (!append) await analyzePhotos(next);
   }
 
-  function setCapturedImage(file: File) {
-    if (previewUrl) URL.revokeObjectURL(previewUrl);
-    setPreviewUrl(URL.createObjectURL(file));
-    setCapturedFile(file);
+  /** Replaces the photo set, releasing preview URLs of photos that were dropped. */
+  function setCapturedPhotos(next: CapturedPhoto[]) {
+    for (const photo of photosRef.current) {
+      if (!next.includes(photo)) URL.revokeObjectURL(photo.url);
+    }
+    photosRef.current = next;
+    setPhotos(next);
+    setActivePhotoId(next.at(-1)?.id ?? null);
+    setPhotoErrors({});
+    setQualityHold(false);
+    setQualityOverride(false);
+    setAnalyzedImages(null);
+    setDishCandidates([]);
     setRecipe(null);
+    setPantryIdeas(null);
+    setSavedRecipeId(null);
+    setSaveState("idle");
     setElapsedSeconds(0);
-    setStep("captured");
+    setStep(next.length > 0 ? "captured" : "idle");
+    return next;
   }
 
-  async function prepareImage(file: File): Promise<File> {
-    if (!file.type.startsWith("image/")) {
+  function removePhoto(id: string) {
+    const removed = photos.find((photo) => photo.id === id);
+    if (!removed) return;
+    URL.revokeObjectURL(removed.url);
+    const next = photos.filter((photo) => photo !== removed);
+    photosRef.current = next;
+    setPhotos(next);
+    setPhotoErrors((errors) => {
+      const remaining = { ...errors };
+      delete remaining[id];
+      return remaining;
+    });
+    if (activePhotoId === id) setActivePhotoId(next.at(-1)?.id ?? null);
+    if (next.length === 0 && step === "captured") setStep("idle");
+  }
+
+  async function prepareImage(file: File): Promise<{ file: File; quality: PhotoQuality | null }> {
+    if (!file.type.startsWith("image/") && !PHOTO_FILE_PATTERN.test(file.name)) {
       throw new Error("Choose a valid image file.");
     }
-    if (!ALLOWED_MIME_TYPES.has(file.type.toLowerCase())) {
-      throw new Error("Use JPG, PNG, or WebP. HEIC/HEIF is not supported.");
-    }
 
-    const compressed = await compressImage(file);
+    // Formats the browser cannot decode (HEIC outside Safari, for one) are converted on the server.
+    const compressed = await compressImage(file).catch(() => convertImageOnServer(file));
     if (compressed.size > MAX_UPLOAD_BYTES) {
       throw new Error("Image is too large after compression. Try another photo.");
     }
-    return compressed;
+    // Scored at full size when the browser can decode it, so the resolution check sees the original.
+    const quality = (await checkPhotoQuality(file)) ?? (await checkPhotoQuality(compressed));
+    return { file: compressed, quality };
   }
 
   async function compressImage(file: File): Promise<File> {
-    return new Promise((resolve, reject) => {
-      const image = new Image();
-      const sourceUrl = URL.createObjectURL(file);
-      image.src = sourceUrl;
-
-      image.onload = () => {
-        URL.revokeObjectURL(sourceUrl);
-        const canvas = document.createElement("canvas");
-        const ctx = canvas.getContext("2d");
-        if (!ctx) {
-          reject(new Error("Could not process image."));
-          return;
-        }
-
-        const maxSide = 1100;
-        const scale = Math.min(1, maxSide / Math.max(image.width, image.height));
-        canvas.width = Math.round(image.width * scale);
-        canvas.height = Math.round(image.height * scale);
-        ctx.drawImage(image, 0, 0, canvas.width, canvas.height);
-
-        canvas.toBlob(
-          (blob) => {
-            if (!blob) {
-              reject(new Error("Could not compress image."));
-              return;
-            }
-            resolve(new File([blob], `chef-cam-${Date.now()}.jpg`, { type: "image/jpeg" }));
-          },
-          "image/jpeg",
-          0.74
-        );
-      };
+    const blob = await resizeToJpeg(file, 1100, 0.74);
+    return new File([blob], `chef-cam-${Date.now()}.jpg`, { type: "image/jpeg" });
+  }
 
-      image.onerror = () => {
-        URL.revokeObjectURL(sourceUrl);
-        reject(new Error("Unsupported image format. Use JPG, PNG, or WebP."));
-      };
+  async function convertImageOnServer(file: File): Promise<File> {
+    const body = new FormData();
+    body.append("image", file, file.name);
+    // As with /api/analyze, a token adds a per-account bucket to the rate limit.
+    const token = await getIdToken().catch(() => null);
+    const response = await fetch("/api/images/normalize", {
+      method: "POST",
+      headers: token ? { Authorization: `Bearer ${token}` } : {},
+      body,
     });
+    if (!response.ok) {
+      const payload = await response.json().catch(() => null);
+      throw new Error(payload?.error || "Could not read this photo.");
+    }
+    return new File([await response.blob()], `chef-cam-${Date.now()}.jpg`, { type: "image/jpeg" });
   }
 
-  async function analyzeFile(file: File) {
+  /**
+   * `fresh` skips the server's result cache, for "Analyze Again" on the same
+   * photos. Weak photos are held back with advice unless `ignoreQuality` is set.
+   * `dish` asks for the recipe of an alternative the cook picked. Photos the
+   * server still holds are sent by id instead of being uploaded again.
+   */
+  async function analyzePhotos(
+    set: CapturedPhoto[],
+    options: { fresh?: boolean; ignoreQuality?: boolean; dish?: string } = {}
+  ) {
+    if (set.length === 0) return;
+    if (rateLimit) {
+      setStep("captured");
+      return;
+    }
+    if (!options.ignoreQuality && set.some((photo) => photo.quality?.issues.length)) {
+      setQualityHold(true);
+      setStep("captured");
+      return;
+    }
+    setQualityHold(false);
+    const mode = options.dish ? "dish" : analysisMode;
     setStep("analyzing");
     setElapsedSeconds(0);
-    setStatusMessage("Uploading photo");
+    setStatusMessage(
+      options.dish
+        ? `Writing the recipe for ${options.dish}`
+        : set.length > 1
+          ? `Uploading ${set.length} photos`
+          : "Uploading photo"
+    );
+    setDraftRecipe(null);
+    setPhotoErrors({});
     setError(null);
+    setFromCache(false);
 
-    const timer = window.setTimeout(() => setStatusMessage("Creating recipe"), 600);
-    try {
-      const formData = new FormData();
-      formData.append("image", file, file.name);
+    const photoIds = set.map((photo) => photo.id);
+    const imageIds =
+      analyzedImages && analyzedImages.photoIds.join() === photoIds.join() ? analyzedImages.imageIds : null;
 
-      const response = await fetch("/api/analyze", {
-        method: "POST",
-        body: formData,
-      });
-      const payload = await response.json().catch(() => null);
+    try {
+      // Signing in is optional here: it only gives the rate limit a per-account key.
+      const token = await getIdToken().catch(() => null);
+      const send = (reuse: boolean) => {
+        const formData = new FormData();
+        if (reuse && imageIds) {
+          for (const imageId of imageIds) formData.append("imageId", imageId);
+        } else {
+          for (const photo of set) formData.append("image", photo.file, photo.file.name);
+        }
+        formData.append("mode", mode);
+        if (options.dish) formData.append("dish", options.dish);
+        for (const diet of dietary.diets) formData.append("diet", diet);
+        for (const allergen of dietary.allergens) formData.append("allergen", allergen);
+        return fetch(options.fresh ? "/api/analyze?fresh=1" : "/api/analyze", {
+          method: "POST",
+          headers: {
+            Accept: "text/event-stream, application/json",
+            ...(token ? { Authorization: `Bearer ${token}` } : {}),
+          },
+          body: formData,
+        });
+      };
+      let response = await send(true);
+      // 410: the server no longer has the photos, so upload them after all.
+      if (imageIds && response.status === 410) response = await send(false);
 
-      if (!response.ok) {
-        throw new Error(payload?.error || "Request failed. Try again.");
+      let payload: unknown = null;
+      if (response.ok && response.body && isEventStream(response)) {
+        payload = await readAnalyzeStream(response.body);
+      } else {
+        const body = await response.json().catch(() => null);
+        const retryAfter = Number(response.headers.get("retry-after"));
+        if (response.status === 429 && retryAfter > 0) {
+          setRateLimit({ message: body?.error || "Too many requests.", retryAt: Date.now() + retryAfter * 1000 });
+          setRetrySeconds(Math.ceil(retryAfter));
+          setStep("captured");
+          return;
+        }
+        if (!response.ok) {
+          if (Array.isArray(body?.imageErrors)) {
+            setPhotoErrors(toPhotoErrors(set, body.imageErrors));
+          }
+          throw new Error(body?.error || "Request failed. Try again.");
+        }
+        payload = body;
       }
       if (!payload) {
         throw new Error("No recipe data received.");
       }
 
-      setRecipe(payload as Recipe);
+      if (mode === "pantry") {
+        const ideas = parsePantryIdeas(payload);
+        if (ideas.candidates.length === 0) {
+          throw new Error("No recipe ideas came back for these ingredients. Try another photo.");
+        }
+        setPantryIdeas(ideas);
+        setDishCandidates([]);
+        setCandidateIndex(0);
+        setRecipe(ideas.candidates[0]);
+      } else {
+        const next = parseRecipeApiResponse(payload);
+        setPantryIdeas(null);
+        setRecipe(next);
+        // A picked alternative keeps the first analysis's list so the cook can switch again.
+        if (!options.dish) {
+          const { confidence = null, alternatives = [] } = parseDishIdentification(payload, next.dishName);
+          setDishCandidates([{ dishName: next.dishName, confidence, reason: "" }, ...alternatives]);
+        }
+      }
+      const returnedIds = response.headers.get("x-analysis-image-ids")?.split(",") ?? [];
+      setAnalyzedImages(returnedIds.length === set.length ? { photoIds, imageIds: returnedIds } : null);
+      setServings(null);
+      setSavedRecipeId(null);
+      setSaveState("idle");
+      setFromCache(response.headers.get("x-analysis-cache") === "hit");
       setStep("ready");
     } catch (err: unknown) {
       setStep("captured");
       setError(err instanceof Error ? err.message : "Failed to generate recipe.");
     } finally {
-      window.clearTimeout(timer);
+      setDraftRecipe(null);
       setStatusMessage("");
     }
   }
 
+  async function readAnalyzeStream(body: ReadableStream<Uint8Array>) {
+    for await (const message of readServerSentEvents(body)) {
+      let event: AnalyzeEvent;
+      try {
+        event = JSON.parse(message.data) as AnalyzeEvent;
+      } catch {
+        continue;
+      }
+
+      switch (event.type) {
+        case "received":
+          setStatusMessage(
+            event.images.length > 1 ? `${event.images.length} photos received` : "Photo received"
+          );
+          break;
+        case "model":
+          setStatusMessage(
+            event.pass === "repair"
+              ? "Fixing incomplete recipe"
+              : event.attempt > 1
+                ? `Asking ${event.provider} again`
+                : `Asking ${event.provider}`
+          );
+          break;
+        case "retry":
+          setStatusMessage(
+            `Model busy, retry ${event.attempt} of ${event.maxRetries} in ${Math.ceil(event.delayMs / 1000)}s`
+          );
+          break;
+        case "partial":
+          setStatusMessage("Writing recipe");
+          setDraftRecipe((draft) => ({ ...draft, ...event.recipe }));
+          break;
+        case "repair":
+          setStatusMessage("Fixing incomplete recipe");
+          break;
+        case "done":
+          return event.recipe;
+        case "ideas":
+          return event.ideas;
+        case "error":
+          throw new Error(event.error);
+      }
+    }
+    throw new Error("The recipe stream ended early. Try again.");
+  }
+
   function retakePhoto() {
     setRecipe(null);
     setError(null);
-    void openCamera();
+    void openCamera(false);
+  }
+
+  /** Stores a recipe in the library and adds it to the top of the list. */
+  async function storeRecipe(recipe: RecipeApiResponse): Promise<SavedRecipe> {
+    const response = await authFetch("/api/recipes", {
+      method: "POST",
+      headers: { "Content-Type": "application/json" },
+      body: JSON.stringify({ recipe, name: recipe.dishName }),
+    });
+    const payload = await response.json().catch(() => null);
+    if (!response.ok || !payload?.id) {
+      throw new Error(payload?.error || "Could not save the recipe.");
+    }
+
+    const now = Date.now();
+    const saved: SavedRecipe = {
+      id: payload.id as string,
+      name: recipe.dishName,
+      recipe,
+      photo: null,
+      shareSlug: null,
+      createdAt: now,
+      updatedAt: now,
+    };
+    setSavedRecipes((items) => [saved, ...items]);
+    return saved;
+  }
+
+  async function saveRecipe(): Promise<SavedRecipe | null> {
+    if (!scaledRecipe || saveState !== "idle") return null;
+    setSaveState("saving");
+    try {
+      const saved = await storeRecipe(scaledRecipe);
+      setSavedRecipeId(saved.id);
+      setSaveState("saved");
+      const photo = photos.find((item) => item.id === activePhotoId) ?? photos.at(-1);
+      if (photo) await storeRecipePhoto(saved.id, photo.file);
+      return saved;
+    } catch (err: unknown) {
+      setSaveState("idle");
+      setError(err instanceof Error ? err.message : "Could not save the recipe.");
+      return null;
+    }
+  }
+
+  /**
+   * Publishes the recipe at /r/<slug>, saving it first if needed, and hands the
+   * link to the share sheet (or the clipboard). The square flash card is
+   * uploaded as the link preview image.
+   */
+  async function shareRecipeLink() {
+    if (sharingLink) return;
+    setSharingLink(true);
+    try {
+      const saved = savedRecipes.find((item) => item.id === savedRecipeId) ?? (await saveRecipe());
+      if (!saved) return;
+
+      const card = renderFlashCard(saved.recipe, { ...cardSettings, template: "square" }, await loadDishPhoto());
+      const body = new FormData();
+      body.append("id", saved.id);
+      if (card.pages[0]) body.append("card", dataUrlToFile(card.pages[0].toDataURL("image/jpeg", 0.88), "card.jpg"));
+      const response = await authFetch("/api/recipes/share", { method: "POST", body });
+      const payload = await response.json().catch(() => null);
+      if (!response.ok || typeof payload?.slug !== "string") {
+        throw new Error(payload?.error || "Could not create a share link.");
+      }
+
+      const shareSlug = payload.slug as string;
+      setSavedRecipes((items) => items.map((item) => (item.id === saved.id ? { ...item, shareSlug } : item)));
+      const url = getShareUrl(shareSlug);
+      if (navigator.share) {
+        await navigator.share({ title: saved.name, url }).catch(() => undefined);
+      } else {
+        await navigator.clipboard?.writeText(url);
+      }
+    } catch (err: unknown) {
+      setError(err instanceof Error ? err.message : "Could not create a share link.");
+    } finally {
+      setSharingLink(false);
+    }
+  }
+
+  async function revokeShareLink() {
+    if (!savedRecipeId) return;
+    try {
+      const params = new URLSearchParams({ id: savedRecipeId });
+      const response = await authFetch(`/api/recipes/share?${params.toString()}`, { method: "DELETE" });
+      const payload = await response.json().catch(() => null);
+      if (!response.ok) {
+        throw new Error(payload?.error || "Could not revoke the link.");
+      }
+      setSavedRecipes((items) =>
+        items.map((item) => (item.id === savedRecipeId ? { ...item, shareSlug: null } : item))
+      );
+    } catch (err: unknown) {
+      setError(err instanceof Error ? err.message : "Could not revoke the link.");
+    }
+  }
+
+  /** Uploads the dish photo and a library thumbnail; the recipe stays saved if this fails. */
+  async function storeRecipePhoto(id: string, file: File) {
+    try {
+      const body = new FormData();
+      body.append("id", id);
+      body.append("photo", file);
+      body.append("thumbnail", await resizeToJpeg(file, THUMBNAIL_SIZE, 0.7), "thumbnail.jpg");
+      const response = await authFetch("/api/recipes/photo", { method: "POST", body });
+      const payload = await response.json().catch(() => null);
+      const photo = parseRecipePhoto(payload?.photo);
+      if (!response.ok || !photo) {
+        throw new Error(payload?.error || "Could not save the photo.");
+      }
+      setSavedRecipes((items) => items.map((item) => (item.id === id ? { ...item, photo } : item)));
+    } catch (err: unknown) {
+      setError(`Recipe saved without its photo. ${err instanceof Error ? err.message : ""}`.trim());
+    }
+  }
+
+  /** The photo to show with the current recipe: this session's capture, else the saved one. */
+  function getDishPhotoUrl() {
+    const captured = photos.find((item) => item.id === activePhotoId) ?? photos.at(-1);
+    if (captured) return captured.url;
+    const saved = savedRecipes.find((item) => item.id === savedRecipeId)?.photo;
+    return saved ? getPhotoUrl(saved.full) : null;
+  }
+
+  /** Imports JSON-LD, Markdown and Paprika files straight into the library. */
+  async function handleImportSelected(event: ChangeEvent<HTMLInputElement>) {
+    const files = Array.from(event.target.files ?? []);
+    event.target.value = "";
+    if (files.length === 0) return;
+
+    setImporting(true);
+    setLibraryError(null);
+    const problems: string[] = [];
+    let imported = 0;
+    for (const file of files) {
+      try {
+        const recipes = await parseRecipeFile(file.name, new Uint8Array(await file.arrayBuffer()));
+        for (const recipe of recipes) {
+          await storeRecipe(recipe);
+          imported += 1;
+        }
+      } catch (err: unknown) {
+        problems.push(err instanceof Error ? err.message : `${file.name}: could not be imported.`);
+      }
+    }
+    setImporting(false);
+    if (problems.length > 0) {
+      setLibraryError(
+        `${imported > 0 ? `Imported ${imported} recipe${imported === 1 ? "" : "s"}. ` : ""}${problems.join(" ")}`
+      );
+    }
+  }
+
+  async function exportRecipes(recipes: RecipeApiResponse[], format: RecipeFormat, baseName: string) {
+    const extension = RECIPE_FORMATS.find((entry) => entry.id === format)?.extension ?? "txt";
+    const fileName = `${slugify(baseName)}.${extension}`;
+    if (format === "paprika") {
+      const archive = await createPaprikaArchive(recipes);
+      downloadBlob(new Blob([archive as BlobPart], { type: "application/zip" }), fileName);
+    } else if (format === "markdown") {
+      downloadTextFile(recipes.map(toMarkdownRecipe).join("\n---\n\n"), fileName, "text/markdown");
+    } else {
+      const documents = recipes.map(toSchemaOrgRecipe);
+      downloadTextFile(
+        JSON.stringify(documents.length === 1 ? documents[0] : documents, null, 2),
+        fileName,
+        "application/ld+json"
+      );
+    }
+  }
+
+  function openSavedRecipe(item: SavedRecipe) {
+    stopCamera();
+    setCapturedPhotos([]);
+    setError(null);
+    setRecipe(item.recipe);
+    setServings(null);
+    setSavedRecipeId(item.id);
+    setSaveState("saved");
+    setStep("ready");
   }
 
-  function saveAsPdf() {
-    if (!recipe) return;
+  async function renameSavedRecipe(id: string, name: string) {
+    const trimmed = name.trim();
+    if (!trimmed) return;
+    try {
+      const response = await authFetch("/api/recipes", {
+        method: "PATCH",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({ id, name: trimmed }),
+      });
+      const payload = await response.json().catch(() => null);
+      if (!response.ok) {
+        throw new Error(payload?.error || "Could not rename the recipe.");
+      }
+      setSavedRecipes((items) =>
+        items.map((item) => (item.id === id ? { ...item, name: trimmed, updatedAt: Date.now() } : item))
+      );
+    } catch (err: unknown) {
+      setLibraryError(err instanceof Error ? err.message : "Could not rename the recipe.");
+    }
+  }
+
+  async function deleteSavedRecipe(id: string) {
+    try {
+      const params = new URLSearchParams({ id });
+      const response = await authFetch(`/api/recipes?${params.toString()}`, { method: "DELETE" });
+      const payload = await response.json().catch(() => null);
+      if (!response.ok) {
+        throw new Error(payload?.error || "Could not remove the recipe.");
+      }
+      setSavedRecipes((items) => items.filter((item) => item.id !== id));
+      setMealPlans((plans) =>
+        plans.map((plan) => ({ ...plan, entries: plan.entries.filter((entry) => entry.recipeId !== id) }))
+      );
+      if (savedRecipeId === id) {
+        setSavedRecipeId(null);
+        setSaveState("idle");
+      }
+    } catch (err: unknown) {
+      setLibraryError(err instanceof Error ? err.message : "Could not remove the recipe.");
+    }
+  }
+
+  function selectCandidate(index: number) {
+    if (!pantryIdeas?.candidates[index]) return;
+    setCandidateIndex(index);
+    setRecipe(pantryIdeas.candidates[index]);
+    setServings(null);
+    setSavedRecipeId(null);
+    setSaveState("idle");
+  }
+
+  /**
+   * Updates the shown week's plan right away and saves it in the background.
+   * Saves are queued so an older request can never land after a newer one.
+   */
+  function updateMealPlan(entries: PlannedMeal[]) {
+    const weekStart = planWeek;
+    setMealPlans((plans) =>
+      plans.some((plan) => plan.weekStart === weekStart)
+        ? plans.map((plan) => (plan.weekStart === weekStart ? { ...plan, entries, updatedAt: Date.now() } : plan))
+        : [...plans, { id: "", weekStart, entries, updatedAt: Date.now() }]
+    );
+
+    mealPlanSaveRef.current = mealPlanSaveRef.current.then(async () => {
+      try {
+        const response = await authFetch("/api/meal-plans", {
+          method: "PUT",
+          headers: { "Content-Type": "application/json" },
+          body: JSON.stringify({ weekStart, entries }),
+        });
+        const payload = await response.json().catch(() => null);
+        if (!response.ok || !payload?.id) {
+          throw new Error(payload?.error || "Could not save the meal plan.");
+        }
+        setMealPlans((plans) =>
+          plans.map((plan) => (plan.weekStart === weekStart ? { ...plan, id: payload.id as string } : plan))
+        );
+        setMealPlanError(null);
+      } catch (err: unknown) {
+        setMealPlanError(err instanceof Error ? err.message : "Could not save the meal plan.");
+      }
+    });
+  }
+
+  function planMeal(day: string, meal: MealSlot, recipeId: string | null) {
+    const current = findPlannedMeal(planEntries, day, meal);
+    const servings = current?.recipeId === recipeId ? current.servings : null;
+    updateMealPlan(setPlannedMeal(planEntries, day, meal, recipeId ? { recipeId, servings } : null));
+  }
+
+  function changePlannedServings(day: string, meal: MealSlot, servings: number | null) {
+    const current = findPlannedMeal(planEntries, day, meal);
+    if (!current) return;
+    updateMealPlan(setPlannedMeal(planEntries, day, meal, { recipeId: current.recipeId, servings }));
+  }
+
+  function shopForMealPlan() {
+    updateShoppingList({ recipeIds: [MEAL_PLAN_OPTION_ID], checked: [] });
+    document.getElementById("shopping-list")?.scrollIntoView({ behavior: "smooth", block: "start" });
+  }
+
+  async function saveAsPdf() {
+    if (!displayedRecipe) return;
+    try {
+      const photoUrl = getDishPhotoUrl();
+      const photo = photoUrl ? new Uint8Array(await (await fetch(photoUrl)).arrayBuffer()) : null;
+      const pdf = createRecipePdf(displayedRecipe, { paper: getPaperSize(navigator.language), photo });
+      downloadBlob(new Blob([pdf as BlobPart], { type: "application/pdf" }), `${slugify(displayedRecipe.dishName)}.pdf`);
+    } catch (err: unknown) {
+      setError(err instanceof Error ? err.message : "Could not create the PDF.");
+    }
+  }
+
+  /** Renders the chosen print sheet before opening the print dialog, then restores the recipe sheet. */
+  function printSheet(target: PrintTarget) {
+    flushSync(() => setPrintTarget(target));
+    window.addEventListener("afterprint", () => setPrintTarget("recipe"), { once: true });
     window.print();
   }
 
-  function saveAsFlashCardJpg() {
-    if (!recipe) return;
-    const dataUrl = createFlashCardJpg(recipe);
-    downloadDataUrl(dataUrl, getFlashCardFileName(recipe));
+  function updateShoppingList(next: ShoppingListState) {
+    shoppingListStore.set(next);
+  }
+
+  function toggleShoppingRecipe(id: string) {
+    const recipeIds = shoppingList.recipeIds.includes(id)
+      ? shoppingList.recipeIds.filter((recipeId) => recipeId !== id)
+      : [...shoppingList.recipeIds, id];
+    updateShoppingList({ ...shoppingList, recipeIds });
+  }
+
+  function toggleShoppingItem(key: string) {
+    const checked = shoppingList.checked.includes(key)
+      ? shoppingList.checked.filter((item) => item !== key)
+      : [...shoppingList.checked, key];
+    updateShoppingList({ ...shoppingList, checked });
+  }
+
+  function downloadShoppingList(format: "text" | "markdown") {
+    if (format === "markdown") {
+      downloadTextFile(
+        formatShoppingListMarkdown(shoppingAisles, shoppingList.checked, shoppingRecipeNames),
+        "shopping-list.md",
+        "text/markdown"
+      );
+    } else {
+      downloadTextFile(
+        formatShoppingListText(shoppingAisles, shoppingList.checked, shoppingRecipeNames),
+        "shopping-list.txt",
+        "text/plain"
+      );
+    }
+  }
+
+  async function shareShoppingList() {
+    const text = formatShoppingListText(shoppingAisles, shoppingList.checked, shoppingRecipeNames);
+
+    if (navigator.canShare?.({ text })) {
+      await navigator.share({ title: "Shopping list", text });
+      return;
+    }
+
+    downloadTextFile(text, "shopping-list.txt", "text/plain");
+    setError("This browser cannot share text directly. The shopping list was downloaded instead.");
+  }
+
+  function exportDisplayedRecipe(format: RecipeFormat) {
+    if (!displayedRecipe) return;
+    void exportRecipes([displayedRecipe], format, displayedRecipe.dishName);
+  }
+
+  function changeDietary(next: DietaryConstraints) {
+    dietaryStore.set(next);
+  }
+
+  function updateCookSession(next: CookSession | null) {
+    cookSessionStore.set(next);
+  }
+
+  function startCooking() {
+    if (!displayedRecipe) return;
+    updateCookSession({ recipe: displayedRecipe, step: 0 });
+    void document.documentElement.requestFullscreen?.().catch(() => undefined);
+  }
+
+  function stopCooking() {
+    updateCookSession(null);
+    if (document.fullscreenElement) void document.exitFullscreen().catch(() => undefined);
+  }
+
+  function changeUnitSystem(system: UnitSystem) {
+    unitSystemStore.set(system);
+  }
+
+  /** A card without the photo beats no card, so a photo that fails to load is skipped. */
+  async function loadDishPhoto() {
+    const url = getDishPhotoUrl();
+    return url ? loadImage(url).catch(() => null) : null;
+  }
+
+  async function createFlashCardFiles(settings: FlashCardSettings): Promise<FlashCardPreview | null> {
+    if (!displayedRecipe) return null;
+    const card = renderFlashCard(displayedRecipe, settings, await loadDishPhoto());
+    const pages = card.pages.map((canvas) => canvas.toDataURL("image/jpeg", 0.92));
+    return {
+      settings,
+      pages,
+      fileNames: pages.map((_, index) => getFlashCardFileName(displayedRecipe, index, pages.length)),
+      readable: card.readable,
+    };
+  }
+
+  async function openFlashCardPicker() {
+    setCardPreview(await createFlashCardFiles(cardSettings));
+  }
+
+  async function changeCardSettings(next: FlashCardSettings) {
+    cardSettingsStore.set(next);
+    setCardPreview(await createFlashCardFiles(next));
+  }
+
+  function downloadFlashCard(preview: FlashCardPreview) {
+    preview.pages.forEach((dataUrl, index) => downloadDataUrl(dataUrl, preview.fileNames[index]));
   }
 
   async function shareOnWhatsApp() {
-    if (!recipe) return;
-    const dataUrl = createFlashCardJpg(recipe);
-    const file = dataUrlToFile(dataUrl, getFlashCardFileName(recipe));
+    const card = cardPreview ?? (await createFlashCardFiles(cardSettings));
+    if (!card || !displayedRecipe) return;
+    const files = card.pages.map((dataUrl, index) => dataUrlToFile(dataUrl, card.fileNames[index]));
 
-    if (navigator.canShare?.({ files: [file] })) {
+    if (navigator.canShare?.({ files })) {
       await navigator.share({
-        files: [file],
-        title: recipe.dishName,
+        files,
+        title: displayedRecipe.dishName,
       });
       return;
     }
 
-    downloadDataUrl(dataUrl, file.name);
+    downloadFlashCard(card);
     setError("This browser cannot attach an image directly to WhatsApp. The JPG card was downloaded instead.");
   }
 
-  const canAnalyzeAgain = Boolean(capturedFile) && step !== "analyzing";
+  const shareSlug = savedRecipes.find((item) => item.id === savedRecipeId)?.shareSlug ?? null;
+  const canAnalyzeAgain = photos.length > 0 && step !== "analyzing" && step !== "camera" && !rateLimit;
+  const currentDish = recipe
+    ? dishCandidates.find((candidate) => candidate.dishName.toLowerCase() === recipe.dishName.toLowerCase())
+    : undefined;
+  const canAddPhotos = photos.length < MAX_PHOTOS && step !== "analyzing" && step !== "camera";
 
   return (
     <main className="min-h-dvh bg-white text-[#111111]">
@@ -290,42 +1149,149 @@ export default function Home() {
             <Studio
               step={step}
               videoRef={videoRef}
-              previewUrl={previewUrl}
+              photos={step === "camera" && !cameraAppends ? [] : photos}
+              activePhotoId={activePhotoId}
+              photoErrors={photoErrors}
+              canAddPhotos={canAddPhotos}
               elapsedSeconds={elapsedSeconds}
               statusMessage={statusMessage}
-              onCapture={capturePhoto}
+              onCapture={() => capturePhoto(true)}
+              onAddAngle={() => capturePhoto(false)}
               onCancel={() => {
                 stopCamera();
-                setStep(capturedFile ? "captured" : "idle");
+                setStep(photos.length > 0 ? "captured" : "idle");
+              }}
+              onSelectPhoto={setActivePhotoId}
+              onRemovePhoto={removePhoto}
+              onAddFromCamera={() => openCamera(true)}
+              onAddFromFiles={() => choosePhotos(true)}
+              qualityHold={qualityHold && step === "captured"}
+              onAnalyzeAnyway={() => {
+                setQualityOverride(true);
+                void analyzePhotos(photos, { ignoreQuality: true });
               }}
             />
 
             {error && <Notice>{error}</Notice>}
+            {rateLimit && (
+              <Notice>
+                {rateLimit.message} You can analyze again in {formatCountdown(retrySeconds)}.
+              </Notice>
+            )}
+            {fromCache && step === "ready" && (
+              <Notice>These photos were analyzed before, so the saved result is shown. Analyze Again for a new one.</Notice>
+            )}
 
             <div className="grid gap-3 rounded-lg border border-[#d8d8d8] bg-white p-3 sm:grid-cols-3">
-              <Button onClick={openCamera} primary disabled={step === "analyzing"}>
+              <AnalysisModeToggle
+                value={analysisMode}
+                onChange={setAnalysisMode}
+                disabled={step === "analyzing"}
+              />
+              <Button onClick={() => openCamera(false)} primary disabled={step === "analyzing"}>
                 Open Camera
               </Button>
-              <Button onClick={() => fileInputRef.current?.click()} disabled={step === "analyzing"}>
-                Choose Photo
+              <Button onClick={() => choosePhotos(false)} disabled={step === "analyzing"}>
+                Choose Photos
               </Button>
               <Button
-                onClick={() => capturedFile && analyzeFile(capturedFile)}
+                onClick={() => analyzePhotos(photos, { fresh: Boolean(recipe), ignoreQuality: qualityOverride })}
                 disabled={!canAnalyzeAgain}
               >
-                Analyze Again
+                {recipe ? "Analyze Again" : "Analyze"}
               </Button>
             </div>
+
+            {pantryIdeas && (
+              <PantryIdeasPanel
+                ideas={pantryIdeas}
+                activeIndex={candidateIndex}
+                onSelect={selectCandidate}
+                disabled={step === "analyzing"}
+              />
+            )}
+
+            <DietaryPreferencesPanel
+              value={dietary}
+              onChange={changeDietary}
+              disabled={step === "analyzing"}
+            />
+
+            <RecipeLibrary
+              items={savedRecipes}
+              loaded={libraryLoaded}
+              error={libraryError}
+              activeId={savedRecipeId}
+              onOpen={openSavedRecipe}
+              onRename={renameSavedRecipe}
+              onDelete={deleteSavedRecipe}
+              importing={importing}
+              onImport={() => importInputRef.current?.click()}
+              onExportAll={() =>
+                exportRecipes(
+                  savedRecipes.map((item) => ({ ...item.recipe, dishName: item.name })),
+                  "paprika",
+                  "chef-cam-recipes"
+                )
+              }
+            />
+
+            <MealPlanner
+              weekStart={planWeek}
+              entries={planEntries}
+              recipes={savedRecipes}
+              loaded={mealPlansLoaded && libraryLoaded}
+              error={mealPlanError}
+              onWeekChange={setPlanWeek}
+              onPlan={planMeal}
+              onServingsChange={changePlannedServings}
+              onShoppingList={shopForMealPlan}
+            />
+
+            <ShoppingListPanel
+              options={shoppingOptions}
+              selectedIds={shoppingList.recipeIds}
+              aisles={shoppingAisles}
+              checked={shoppingList.checked}
+              onToggleRecipe={toggleShoppingRecipe}
+              onToggleItem={toggleShoppingItem}
+              onClearChecked={() => updateShoppingList({ ...shoppingList, checked: [] })}
+              onShare={shareShoppingList}
+              onDownload={downloadShoppingList}
+              onPrint={() => printSheet("shopping")}
+            />
           </div>
 
           <aside className="min-h-[360px] rounded-lg border border-[#e6e6e6] bg-white">
-            {recipe ? (
+            {!recipe && draftRecipe && step === "analyzing" ? (
+              <StreamingRecipePanel
+                recipe={draftRecipe}
+                elapsedSeconds={elapsedSeconds}
+                statusMessage={statusMessage}
+              />
+            ) : displayedRecipe ? (
               <RecipePanel
-                recipe={recipe}
+                recipe={displayedRecipe}
+                baseServings={recipe?.servings ?? displayedRecipe.servings}
+                onServingsChange={setServings}
+                unitSystem={unitSystem}
+                onUnitSystemChange={changeUnitSystem}
+                saveState={saveState}
+                onSave={saveRecipe}
                 onRetake={retakePhoto}
                 onPdf={saveAsPdf}
-                onJpg={saveAsFlashCardJpg}
+                onJpg={openFlashCardPicker}
                 onWhatsApp={shareOnWhatsApp}
+                onExport={exportDisplayedRecipe}
+                onCook={startCooking}
+                shareUrl={shareSlug ? getShareUrl(shareSlug) : null}
+                sharingLink={sharingLink}
+                onShareLink={shareRecipeLink}
+                onRevokeLink={revokeShareLink}
+                confidence={currentDish?.confidence ?? null}
+                alternatives={dishCandidates.filter((candidate) => candidate !== currentDish)}
+                onPickAlternative={(dish) => void analyzePhotos(photos, { dish, ignoreQuality: true })}
+                picking={!canAnalyzeAgain}
               />
             ) : (
               <WaitingPanel step={step} elapsedSeconds={elapsedSeconds} statusMessage={statusMessage} />
@@ -337,12 +1303,48 @@ export default function Home() {
       <input
         ref={fileInputRef}
         type="file"
-        accept="image/jpeg,image/png,image/webp"
+        accept={PHOTO_ACCEPT}
+        multiple
         className="hidden"
         onChange={handleFileSelected}
       />
+      <input
+        ref={importInputRef}
+        type="file"
+        accept={RECIPE_IMPORT_ACCEPT}
+        multiple
+        className="hidden"
+        onChange={handleImportSelected}
+      />
 
-      {recipe && <PrintableRecipe recipe={recipe} />}
+      {cardPreview && (
+        <FlashCardPicker
+          preview={cardPreview}
+          onChange={changeCardSettings}
+          onDownload={() => downloadFlashCard(cardPreview)}
+          onShare={shareOnWhatsApp}
+          onClose={() => setCardPreview(null)}
+        />
+      )}
+
+      {cookSession && (
+        <CookMode
+          recipe={cookSession.recipe}
+          step={cookSession.step}
+          onStepChange={(step) => updateCookSession({ ...cookSession, step })}
+          onExit={stopCooking}
+        />
+      )}
+
+      {printTarget === "shopping" ? (
+        <PrintableShoppingList
+          aisles={shoppingAisles}
+          checked={shoppingList.checked}
+          recipeNames={shoppingRecipeNames}
+        />
+      ) : (
+        displayedRecipe && <PrintableRecipe recipe={displayedRecipe} />
+      )}
     </main>
   );
 }
@@ -350,20 +1352,45 @@ export default function Home() {
 function Studio({
   step,
   videoRef,
-  previewUrl,
+  photos,
+  activePhotoId,
+  photoErrors,
+  canAddPhotos,
   elapsedSeconds,
   statusMessage,
   onCapture,
+  onAddAngle,
   onCancel,
+  onSelectPhoto,
+  onRemovePhoto,
+  onAddFromCamera,
+  onAddFromFiles,
+  qualityHold,
+  onAnalyzeAnyway,
 }: {
   step: WorkflowStep;
   videoRef: RefObject<HTMLVideoElement | null>;
-  previewUrl: string | null;
+  photos: CapturedPhoto[];
+  activePhotoId: string | null;
+  photoErrors: Record<string, string>;
+  canAddPhotos: boolean;
   elapsedSeconds: number;
   statusMessage: string;
   onCapture: () => void;
+  onAddAngle: () => void;
   onCancel: () => void;
+  onSelectPhoto: (id: string) => void;
+  onRemovePhoto: (id: string) => void;
+  onAddFromCamera: () => void;
+  onAddFromFiles: () => void;
+  /** Analysis was held back because of the photo quality issues listed. */
+  qualityHold: boolean;
+  onAnalyzeAnyway: () => void;
 }) {
+  const activePhoto = photos.find((photo) => photo.id === activePhotoId) ?? photos.at(-1);
+  const erroredPhotos = photos.filter((photo) => photoErrors[photo.id]);
+  const weakPhotos = photos.filter((photo) => photo.quality?.issues.length && !photoErrors[photo.id]);
+
   return (
     <section className="overflow-hidden rounded-lg border border-[#e6e6e6] bg-[#f6f6f6]">
       <div className="relative min-h-[52dvh] bg-[#ededed] sm:aspect-[4/3] sm:min-h-0 lg:aspect-[16/11]">
@@ -374,10 +1401,10 @@ function Studio({
             playsInline
             muted
           />
-        ) : previewUrl ? (
+        ) : activePhoto ? (
           // eslint-disable-next-line @next/next/no-img-element
           <img
-            src={previewUrl}
+            src={activePhoto.url}
             alt="Captured dish"
             className="absolute inset-0 h-full w-full object-cover"
           />
@@ -386,7 +1413,8 @@ function Studio({
             <div>
               <p className="text-sm font-semibold uppercase text-[#777777]">No photo</p>
               <p className="mt-2 max-w-xs text-sm leading-6 text-[#555555]">
-                Open the camera and capture the dish in clear light.
+                Open the camera and capture the dish in clear light. Add up to {MAX_PHOTOS} angles,
+                such as a close-up or a cross-section.
               </p>
             </div>
           </div>
@@ -404,12 +1432,103 @@ function Studio({
         )}
       </div>
 
+      {photos.length > 0 && (
+        <div className="border-t border-[#e6e6e6] bg-white p-3">
+          <div className="flex gap-2 overflow-x-auto">
+            {photos.map((photo, index) => (
+              <div key={photo.id} className="relative shrink-0">
+                <button
+                  type="button"
+                  onClick={() => onSelectPhoto(photo.id)}
+                  aria-label={`Show photo ${index + 1}`}
+                  className={`block h-16 w-16 overflow-hidden rounded-md border-2 ${
+                    photoErrors[photo.id]
+                      ? "border-dashed border-[#111111]"
+                      : photo.quality?.issues.length
+                        ? "border-dashed border-[#777777]"
+                        : photo.id === activePhoto?.id
+                        ? "border-[#111111]"
+                        : "border-[#e6e6e6]"
+                  }`}
+                >
+                  {/* eslint-disable-next-line @next/next/no-img-element */}
+                  <img src={photo.url} alt="" className="h-full w-full object-cover" />
+                </button>
+                {step !== "analyzing" && step !== "camera" && (
+                  <button
+                    type="button"
+                    onClick={() => onRemovePhoto(photo.id)}
+                    aria-label={`Remove photo ${index + 1}`}
+                    className="absolute -right-1.5 -top-1.5 flex h-6 w-6 items-center justify-center rounded-full border border-[#d8d8d8] bg-white text-xs font-semibold text-[#111111]"
+                  >
+                    ×
+                  </button>
+                )}
+              </div>
+            ))}
+            {canAddPhotos && (
+              <>
+                <button
+                  type="button"
+                  onClick={onAddFromCamera}
+                  className="h-16 w-16 shrink-0 rounded-md border border-dashed border-[#bdbdbd] text-xs font-medium text-[#555555]"
+                >
+                  + Angle
+                </button>
+                <button
+                  type="button"
+                  onClick={onAddFromFiles}
+                  className="h-16 w-16 shrink-0 rounded-md border border-dashed border-[#bdbdbd] text-xs font-medium text-[#555555]"
+                >
+                  + Photo
+                </button>
+              </>
+            )}
+          </div>
+          {erroredPhotos.length > 0 && (
+            <ul className="mt-2 space-y-1 text-sm leading-5 text-[#333333]">
+              {erroredPhotos.map((photo) => (
+                <li key={photo.id}>
+                  <span className="font-semibold">Photo {photos.indexOf(photo) + 1}:</span>{" "}
+                  {photoErrors[photo.id]}
+                </li>
+              ))}
+            </ul>
+          )}
+          {weakPhotos.length > 0 && (
+            <div className="mt-2 text-sm leading-5 text-[#333333]">
+              <ul className="space-y-1">
+                {weakPhotos.map((photo) => (
+                  <li key={photo.id}>
+                    <span className="font-semibold">Photo {photos.indexOf(photo) + 1}:</span>{" "}
+                    {photo.quality?.issues.map(getPhotoQualityAdvice).join(" ")}
+                  </li>
+                ))}
+              </ul>
+              {qualityHold && (
+                <div className="mt-3 grid gap-2 sm:grid-cols-[1fr_auto] sm:items-center">
+                  <p className="text-[#555555]">
+                    The recipe would likely be a guess. Retake the photo, or analyze it as it is.
+                  </p>
+                  <Button onClick={onAnalyzeAnyway}>Analyze Anyway</Button>
+                </div>
+              )}
+            </div>
+          )}
+        </div>
+      )}
+
       {step === "camera" && (
-        <div className="grid gap-3 border-t border-[#e6e6e6] bg-white p-4 sm:grid-cols-[1fr_auto_auto] sm:items-center">
+        <div className="grid gap-3 border-t border-[#e6e6e6] bg-white p-4 sm:grid-cols-[1fr_auto_auto_auto] sm:items-center">
           <p className="text-base font-medium text-[#333333] sm:text-sm sm:font-normal sm:text-[#555555]">
-            Frame the dish, then capture.
+            {photos.length > 0
+              ? `Angle ${photos.length + 1} of up to ${MAX_PHOTOS}. Add another or capture to analyze.`
+              : "Frame the dish, then capture."}
           </p>
           <Button onClick={onCancel}>Cancel</Button>
+          <Button onClick={onAddAngle} disabled={photos.length >= MAX_PHOTOS - 1}>
+            Add Angle
+          </Button>
           <Button onClick={onCapture} primary>
             Capture
           </Button>
@@ -421,56 +1540,211 @@ function Studio({
 
 function RecipePanel({
   recipe,
+  baseServings,
+  onServingsChange,
+  unitSystem,
+  onUnitSystemChange,
+  saveState,
+  onSave,
   onRetake,
   onPdf,
   onJpg,
   onWhatsApp,
+  onExport,
+  onCook,
+  shareUrl,
+  sharingLink,
+  onShareLink,
+  onRevokeLink,
+  confidence,
+  alternatives,
+  onPickAlternative,
+  picking,
 }: {
-  recipe: Recipe;
+  recipe: RecipeApiResponse;
+  baseServings: number;
+  onServingsChange: (servings: number | null) => void;
+  unitSystem: UnitSystem;
+  onUnitSystemChange: (system: UnitSystem) => void;
+  saveState: SaveState;
+  onSave: () => void;
   onRetake: () => void;
   onPdf: () => void;
   onJpg: () => void;
   onWhatsApp: () => void;
+  onExport: (format: RecipeFormat) => void;
+  onCook: () => void;
+  shareUrl: string | null;
+  sharingLink: boolean;
+  onShareLink: () => void;
+  onRevokeLink: () => void;
+  /** How sure the analysis was of this dish; null for saved recipes. */
+  confidence: number | null;
+  /** Other dishes the photos could show, most likely first. */
+  alternatives: DishAlternative[];
+  onPickAlternative: (dishName: string) => void;
+  picking: boolean;
 }) {
+  const guessed = new Set<RecipeField>(recipe.fallbackFields ?? []);
+  const avoided = new Set(recipe.dietary ? getAvoidedAllergens(recipe.dietary) : []);
+  const missing = recipe.missingIngredients ?? [];
+  const nutrition = computeNutrition(recipe);
+  const nutritionEstimated = NUTRIENTS.some(
+    (nutrient) => nutrition.perServing[nutrient.id]?.source !== "table"
+  );
+
   return (
     <article className="flex h-full flex-col">
       <div className="border-b border-[#e6e6e6] p-4 sm:p-5">
         <p className="text-xs font-medium uppercase text-[#777777]">Recipe</p>
-        <h2 className="mt-2 text-2xl font-semibold leading-tight sm:text-3xl">{recipe.dishName}</h2>
+        <h2 className="mt-2 text-2xl font-semibold leading-tight sm:text-3xl">
+          {recipe.dishName}
+          {guessed.has("dishName") && <GuessedMark />}
+        </h2>
         <p className="mt-2 text-base leading-7 text-[#555555] sm:text-sm sm:leading-6">
           {recipe.shortDescription}
+          {guessed.has("shortDescription") && <GuessedMark />}
         </p>
         <div className="mt-4 flex flex-wrap gap-1.5">
-          <Tag>{recipe.cuisine}</Tag>
-          <Tag>{recipe.difficulty}</Tag>
-          <Tag>Serves {recipe.servings}</Tag>
-          <Tag>{recipe.caloriesPerServing}</Tag>
+          <Tag guessed={guessed.has("cuisine")}>{recipe.cuisine}</Tag>
+          <Tag guessed={guessed.has("difficulty")}>{recipe.difficulty}</Tag>
+          <Tag guessed={guessed.has("servings")}>Serves {recipe.servings}</Tag>
+          {nutrition.perServing.kcal && (
+            <Tag guessed={guessed.has("nutrition") && nutrition.perServing.kcal.source !== "table"}>
+              {formatNutritionValue("kcal", nutrition.perServing.kcal)} per serving
+            </Tag>
+          )}
+          {recipe.dietary?.diets.map((diet) => <Tag key={diet}>{getDietaryLabel(diet)}</Tag>)}
+          {recipe.dietary?.allergens.map((allergen) => (
+            <Tag key={allergen}>No {getAllergenLabel(allergen).toLowerCase()}</Tag>
+          ))}
+          {confidence !== null && <Tag>{Math.round(confidence * 100)}% match</Tag>}
         </div>
+        {alternatives.length > 0 && (
+          <div className="mt-3 rounded-lg border border-[#e6e6e6] px-3 py-2">
+            <p className="text-xs font-medium uppercase text-[#777777]">Not this? Pick another</p>
+            <ul className="mt-1 divide-y divide-[#eeeeee]">
+              {alternatives.map((alternative) => (
+                <li key={alternative.dishName}>
+                  <button
+                    type="button"
+                    disabled={picking}
+                    onClick={() => onPickAlternative(alternative.dishName)}
+                    className="w-full py-2 text-left text-[#555555] hover:text-[#111111] disabled:opacity-60"
+                  >
+                    <span className="block text-sm font-semibold">
+                      {alternative.dishName}
+                      {alternative.confidence !== null && ` · ${Math.round(alternative.confidence * 100)}%`}
+                    </span>
+                    {alternative.reason && (
+                      <span className="block text-xs text-[#777777]">{alternative.reason}</span>
+                    )}
+                  </button>
+                </li>
+              ))}
+            </ul>
+          </div>
+        )}
+        {recipe.substitutionNote && (
+          <p className="mt-3 rounded-lg border border-[#d0d0d0] bg-[#f3f3f3] px-3 py-2 text-sm leading-6 text-[#333333]">
+            <span className="font-semibold">Adapted: </span>
+            {recipe.substitutionNote}
+          </p>
+        )}
+        {missing.length > 0 && (
+          <p className="mt-3 rounded-lg border border-dashed border-[#9a9a9a] px-3 py-2 text-sm leading-6 text-[#333333]">
+            <span className="font-semibold">You will also need: </span>
+            {missing.join(", ")}
+          </p>
+        )}
+        {recipe.dietaryConflicts && recipe.dietaryConflicts.length > 0 && (
+          <div className="mt-3">
+            <Notice>
+              Double-check against your dietary needs: {recipe.dietaryConflicts.join(" ")}
+            </Notice>
+          </div>
+        )}
+        <ServingsStepper
+          servings={recipe.servings}
+          baseServings={baseServings}
+          onChange={onServingsChange}
+        />
+        <UnitSystemToggle value={unitSystem} onChange={onUnitSystemChange} />
+        {guessed.size > 0 && (
+          <div className="mt-4">
+            <Notice>
+              Some details could not be read reliably and were filled in as placeholders:{" "}
+              {[...guessed].map(getRecipeFieldLabel).join(", ")}. Check them before cooking.
+            </Notice>
+          </div>
+        )}
       </div>
 
       <div className="grid gap-0 md:flex-1">
-        <RecipeSection title="Ingredients">
+        <RecipeSection title="Ingredients" guessed={guessed.has("ingredients")}>
           <ul className="grid gap-3 sm:grid-cols-2 md:grid-cols-1">
             {recipe.ingredients.map((ingredient, index) => (
               <li key={`${ingredient.item}-${index}`} className="text-sm">
-                <p className="font-medium">{ingredient.item}</p>
+                <p className="font-medium">
+                  {ingredient.item}
+                  {isMissingIngredient(ingredient.item, missing) && (
+                    <span className="ml-2 inline-block rounded border border-dashed border-[#9a9a9a] px-1.5 py-0.5 align-middle text-[10px] font-medium uppercase text-[#777777]">
+                      Missing
+                    </span>
+                  )}
+                </p>
                 <p className="text-[#666666]">{ingredient.amount}</p>
+                {ingredient.allergens.length > 0 && (
+                  <p className="mt-1 flex flex-wrap gap-1">
+                    {ingredient.allergens.map((allergen) => (
+                      <span
+                        key={allergen}
+                        className={
+                          avoided.has(allergen)
+                            ? "rounded border border-[#111111] bg-[#111111] px-1.5 py-0.5 text-[10px] font-semibold uppercase text-white"
+                            : "rounded border border-[#d6d6d6] px-1.5 py-0.5 text-[10px] font-medium uppercase text-[#666666]"
+                        }
+                        title={avoided.has(allergen) ? "You asked to avoid this" : undefined}
+                      >
+                        {getAllergenLabel(allergen)}
+                      </span>
+                    ))}
+                  </p>
+                )}
               </li>
             ))}
           </ul>
         </RecipeSection>
 
-        <RecipeSection title="Method">
+        <RecipeSection
+          title="Nutrition per serving"
+          guessed={guessed.has("nutrition") && nutritionEstimated}
+        >
+          <NutritionGrid nutrition={nutrition} />
+        </RecipeSection>
+
+        <RecipeSection title="Method" guessed={guessed.has("instructions")}>
           <ol className="space-y-3">
             {recipe.instructions.map((instruction, index) => (
               <li key={`${instruction}-${index}`} className="grid grid-cols-[1.75rem_1fr] gap-3 text-sm leading-6">
                 <span className="flex h-7 w-7 items-center justify-center rounded bg-[#111111] text-xs font-medium text-white">
                   {index + 1}
                 </span>
-                <span>{instruction}</span>
+                <div>
+                  <p>{instruction}</p>
+                  <StepTimerButtons
+                    instruction={instruction}
+                    label={`${recipe.dishName}: step ${index + 1}`}
+                  />
+                </div>
               </li>
             ))}
           </ol>
+          <div className="mt-5">
+            <Button onClick={onCook} primary>
+              Start Cook Mode
+            </Button>
+          </div>
 
           {recipe.platingTips.length > 0 && (
             <div className="mt-5 border-t border-[#e6e6e6] pt-4">
@@ -486,17 +1760,160 @@ function RecipePanel({
       </div>
 
       <div className="grid gap-3 border-t border-[#d8d8d8] bg-white p-4 sm:grid-cols-2">
-        <Button onClick={onJpg}>Save JPG</Button>
+        <div className="sm:col-span-2">
+          <Button onClick={onSave} disabled={saveState !== "idle"}>
+            {saveState === "saving" ? "Saving..." : saveState === "saved" ? "Saved to My Recipes" : "Save to My Recipes"}
+          </Button>
+        </div>
+        <Button onClick={onJpg}>Flash Card</Button>
         <Button onClick={onPdf}>Save PDF</Button>
         <Button onClick={onWhatsApp} primary>
           Share JPG
         </Button>
         <Button onClick={onRetake}>Retake</Button>
+        <div className="flex flex-wrap items-center gap-2 text-xs font-medium sm:col-span-2">
+          <span className="uppercase text-[#777777]">Link</span>
+          {shareUrl ? (
+            <>
+              <a href={shareUrl} target="_blank" rel="noreferrer" className="min-w-0 truncate underline">
+                {shareUrl.replace(/^https?:\/\//, "")}
+              </a>
+              <LinkButton onClick={() => void navigator.clipboard?.writeText(shareUrl)}>Copy</LinkButton>
+              <LinkButton onClick={onRevokeLink}>Revoke</LinkButton>
+            </>
+          ) : (
+            <LinkButton onClick={onShareLink}>{sharingLink ? "Sharing..." : "Share Link"}</LinkButton>
+          )}
+        </div>
+        <div className="flex flex-wrap items-center gap-2 text-xs font-medium sm:col-span-2">
+          <span className="uppercase text-[#777777]">Export</span>
+          {RECIPE_FORMATS.map((format) => (
+            <LinkButton key={format.id} onClick={() => onExport(format.id)}>
+              {format.label}
+            </LinkButton>
+          ))}
+        </div>
       </div>
     </article>
   );
 }
 
+const MAX_SERVINGS = 48;
+
+function ServingsStepper({
+  servings,
+  baseServings,
+  onChange,
+}: {
+  servings: number;
+  baseServings: number;
+  onChange: (servings: number | null) => void;
+}) {
+  const setServings = (value: number) => {
+    const next = Math.min(MAX_SERVINGS, Math.max(1, value));
+    onChange(next === baseServings ? null : next);
+  };
+
+  return (
+    <div className="mt-4 flex items-center gap-3">
+      <p className="text-sm font-medium text-[#555555]">Servings</p>
+      <div className="flex items-center rounded-lg border border-[#cfcfcf]">
+        <button
+          type="button"
+          onClick={() => setServings(servings - 1)}
+          disabled={servings <= 1}
+          className="h-11 w-11 text-lg font-semibold disabled:text-[#a6a6a6]"
+          aria-label="Fewer servings"
+        >
+          -
+        </button>
+        <span className="min-w-10 text-center text-base font-semibold" aria-live="polite">
+          {servings}
+        </span>
+        <button
+          type="button"
+          onClick={() => setServings(servings + 1)}
+          disabled={servings >= MAX_SERVINGS}
+          className="h-11 w-11 text-lg font-semibold disabled:text-[#a6a6a6]"
+          aria-label="More servings"
+        >
+          +
+        </button>
+      </div>
+      {servings !== baseServings && (
+        <button
+          type="button"
+          onClick={() => onChange(null)}
+          className="text-xs font-medium text-[#555555] underline"
+        >
+          Reset to {baseServings}
+        </button>
+      )}
+    </div>
+  );
+}
+
+function UnitSystemToggle({
+  value,
+  onChange,
+}: {
+  value: UnitSystem;
+  onChange: (system: UnitSystem) => void;
+}) {
+  return (
+    <div className="mt-3 flex items-center gap-3">
+      <p className="text-sm font-medium text-[#555555]">Units</p>
+      <div className="grid grid-cols-3 rounded-lg border border-[#cfcfcf] p-0.5" role="radiogroup" aria-label="Units">
+        {UNIT_SYSTEMS.map((system) => (
+          <button
+            key={system.id}
+            type="button"
+            role="radio"
+            aria-checked={value === system.id}
+            onClick={() => onChange(system.id)}
+            className={
+              value === system.id
+                ? "min-h-10 rounded-md bg-[#111111] px-3 text-xs font-medium text-white"
+                : "min-h-10 rounded-md px-3 text-xs font-medium text-[#333333] hover:bg-[#f3f3f3]"
+            }
+          >
+            {system.label}
+          </button>
+        ))}
+      </div>
+    </div>
+  );
+}
+
+function NutritionGrid({ nutrition }: { nutrition: NutritionBreakdown }) {
+  return (
+    <>
+      <dl className="grid grid-cols-2 gap-x-5 gap-y-2 sm:grid-cols-3 md:grid-cols-2">
+        {NUTRIENTS.map((nutrient) => {
+          const value = nutrition.perServing[nutrient.id];
+          return (
+            <div
+              key={nutrient.id}
+              className="flex items-baseline justify-between gap-2 border-b border-[#eeeeee] pb-2 text-sm"
+            >
+              <dt className="text-[#555555]">{nutrient.label}</dt>
+              <dd className="text-right">
+                <span className="font-medium">{formatNutritionValue(nutrient.id, value)}</span>
+                {value && (
+                  <span className="block text-[10px] font-medium uppercase text-[#777777]">
+                    {NUTRITION_SOURCE_LABELS[value.source]}
+                  </span>
+                )}
+              </dd>
+            </div>
+          );
+        })}
+      </dl>
+      <p className="mt-3 text-xs leading-5 text-[#777777]">{describeNutritionSources(nutrition)}</p>
+    </>
+  );
+}
+
 function WaitingPanel({
   step,
   elapsedSeconds,
@@ -548,24 +1965,9 @@ function Progress({ step }: { step: WorkflowStep }) {
   );
 }
 
-function RecipeSection({ title, children }: { title: string; children: ReactNode }) {
-  return (
-    <section className="border-b border-[#e6e6e6] p-4 last:border-b-0 sm:p-5">
-      <h3 className="mb-4 text-base font-semibold uppercase text-[#777777] sm:text-sm">{title}</h3>
-      {children}
-    </section>
-  );
-}
-
-function Notice({ children }: { children: ReactNode }) {
-  return (
-    <div className="rounded-lg border border-[#d0d0d0] bg-[#f3f3f3] px-4 py-4 text-base leading-7 text-[#333333] sm:py-3 sm:text-sm sm:leading-6">
-      {children}
-    </div>
-  );
-}
+function PrintableRecipe({ recipe }: { recipe: RecipeApiResponse }) {
+  const nutrition = computeNutrition(recipe);
 
-function PrintableRecipe({ recipe }: { recipe: Recipe }) {
   return (
     <section className="print-sheet hidden bg-white p-8 text-[#111111]">
       <p className="text-xs font-semibold uppercase">ChefCam Recipe</p>
@@ -578,18 +1980,41 @@ function PrintableRecipe({ recipe }: { recipe: Recipe }) {
         <p>Servings: {recipe.servings}</p>
         <p>Prep: {recipe.prepTime}</p>
         <p>Cook: {recipe.cookTime}</p>
-        <p>{recipe.caloriesPerServing}</p>
+        <p>Calories: {formatNutritionValue("kcal", nutrition.perServing.kcal)}</p>
       </div>
+      {recipe.fallbackFields && recipe.fallbackFields.length > 0 && (
+        <p className="mt-3 text-xs">
+          Estimated (not read from the photo): {recipe.fallbackFields.map(getRecipeFieldLabel).join(", ")}
+        </p>
+      )}
+
+      {recipe.substitutionNote && <p className="mt-3 text-xs">Adapted: {recipe.substitutionNote}</p>}
 
       <h2 className="mt-7 text-lg font-semibold">Ingredients</h2>
       <ul className="mt-3 space-y-1 text-sm">
         {recipe.ingredients.map((ingredient, index) => (
           <li key={`${ingredient.item}-print-${index}`}>
             {ingredient.amount} {ingredient.item}
+            {ingredient.allergens.length > 0 &&
+              ` (contains ${ingredient.allergens.map(getAllergenLabel).join(", ").toLowerCase()})`}
           </li>
         ))}
       </ul>
 
+      <h2 className="mt-7 text-lg font-semibold">Nutrition per Serving</h2>
+      <div className="mt-3 grid grid-cols-4 gap-2 text-xs">
+        {NUTRIENTS.map((nutrient) => {
+          const value = nutrition.perServing[nutrient.id];
+          return (
+            <p key={`${nutrient.id}-print`}>
+              {nutrient.label}: {formatNutritionValue(nutrient.id, value)}
+              {value && ` (${NUTRITION_SOURCE_LABELS[value.source].toLowerCase()})`}
+            </p>
+          );
+        })}
+      </div>
+      <p className="mt-2 text-xs">{describeNutritionSources(nutrition)}</p>
+
       <h2 className="mt-7 text-lg font-semibold">Method</h2>
       <ol className="mt-3 space-y-2 text-sm">
         {recipe.instructions.map((instruction, index) => (
@@ -613,300 +2038,131 @@ function PrintableRecipe({ recipe }: { recipe: Recipe }) {
   );
 }
 
-function Button({
-  children,
-  onClick,
-  primary = false,
-  disabled = false,
-}: {
-  children: ReactNode;
-  onClick: () => void;
-  primary?: boolean;
-  disabled?: boolean;
-}) {
-  return (
-    <button
-      type="button"
-      onClick={onClick}
-      disabled={disabled}
-      className={
-        primary
-          ? "min-h-14 w-full rounded-lg bg-[#111111] px-5 py-4 text-base font-semibold text-white transition hover:bg-[#303030] disabled:cursor-not-allowed disabled:bg-[#a6a6a6] sm:min-h-11 sm:px-4 sm:py-3 sm:text-sm sm:font-medium"
-          : "min-h-14 w-full rounded-lg border border-[#cfcfcf] bg-white px-5 py-4 text-base font-semibold text-[#111111] transition hover:bg-[#f3f3f3] disabled:cursor-not-allowed disabled:text-[#a6a6a6] sm:min-h-11 sm:px-4 sm:py-3 sm:text-sm sm:font-medium"
-      }
-    >
-      {children}
-    </button>
-  );
+function subscribeToNothing() {
+  return () => undefined;
 }
 
-function Tag({ children }: { children: ReactNode }) {
-  return (
-    <span className="rounded-md border border-[#d6d6d6] bg-[#f5f5f5] px-2.5 py-1.5 text-xs font-medium text-[#333333]">
-      {children}
-    </span>
-  );
+function getCurrentWeek() {
+  return startOfWeek();
 }
 
-function createFlashCardJpg(recipe: Recipe) {
-  const scale = 2;
-  const width = 1080;
-  const height = 1600;
-  const contentX = 72;
-  const contentWidth = 936;
-  const methodReserveY = 1040;
-  const footerY = 1526;
-  const canvas = document.createElement("canvas");
-  canvas.width = width * scale;
-  canvas.height = height * scale;
-  const ctx = canvas.getContext("2d");
-  if (!ctx) return "";
-
-  ctx.scale(scale, scale);
-  ctx.fillStyle = "#ffffff";
-  ctx.fillRect(0, 0, width, height);
-  ctx.strokeStyle = "#111111";
-  ctx.lineWidth = 3;
-  ctx.strokeRect(38, 38, width - 76, height - 76);
-
-  let y = 92;
-  drawText(ctx, "CHEFCAM RECIPE CARD", 72, y, {
-    size: 28,
-    weight: 700,
-    color: "#555555",
-  });
-  y += 68;
-
-  y = drawWrappedText(ctx, recipe.dishName, contentX, y, contentWidth, {
-    size: 56,
-    lineHeight: 64,
-    weight: 700,
-    color: "#111111",
-    maxLines: 2,
-  });
-  y += 18;
-
-  y = drawWrappedText(ctx, recipe.shortDescription, contentX, y, contentWidth, {
-    size: 28,
-    lineHeight: 38,
-    weight: 400,
-    color: "#444444",
-    maxLines: 2,
-  });
-  y += 28;
-
-  const meta = [
-    recipe.cuisine,
-    recipe.difficulty,
-    `Serves ${recipe.servings}`,
-    `Prep ${recipe.prepTime}`,
-    `Cook ${recipe.cookTime}`,
-    recipe.caloriesPerServing,
-  ];
-  y = drawMetaGrid(ctx, meta, contentX, y, contentWidth);
-  y += 34;
+/** Nothing renders the week before the meal plans load, which only happens in the browser. */
+function getServerWeek() {
+  return "";
+}
 
-  drawDivider(ctx, contentX, y, contentWidth);
-  y += 40;
+function parseDietaryConstraints(stored: string): DietaryConstraints {
+  const value = JSON.parse(stored);
+  return value && typeof value === "object"
+    ? normalizeDietaryConstraints(value as { diets?: unknown[]; allergens?: unknown[] })
+    : EMPTY_DIETARY_CONSTRAINTS;
+}
 
-  drawText(ctx, "INGREDIENTS", contentX, y, {
-    size: 30,
-    weight: 700,
-    color: "#111111",
-  });
-  y += 42;
-  let ingredientsShown = 0;
-  for (const ingredient of recipe.ingredients.slice(0, 8)) {
-    if (y > methodReserveY - 96) break;
-    y = drawWrappedText(ctx, `- ${ingredient.amount} ${ingredient.item}`, contentX, y, contentWidth, {
-      size: 28,
-      lineHeight: 38,
-      weight: 400,
-      color: "#222222",
-      maxLines: 2,
-    });
-    y += 10;
-    ingredientsShown += 1;
-  }
-  if (recipe.ingredients.length > ingredientsShown && y < methodReserveY - 42) {
-    y = drawWrappedText(
-      ctx,
-      `+ ${recipe.ingredients.length - ingredientsShown} more ingredient${recipe.ingredients.length - ingredientsShown === 1 ? "" : "s"}`,
-      contentX,
-      y,
-      contentWidth,
-      {
-        size: 26,
-        lineHeight: 34,
-        weight: 600,
-        color: "#555555",
-        maxLines: 1,
-      }
-    );
-  }
+function parseCookSession(stored: string): CookSession | null {
+  const value = JSON.parse(stored);
+  if (!value || typeof value !== "object") return null;
+  const recipe = parseRecipeApiResponse(value.recipe);
+  const step = Number(value.step);
+  return {
+    recipe,
+    step: Number.isInteger(step) ? Math.min(Math.max(step, 0), recipe.instructions.length - 1) : 0,
+  };
+}
 
-  y = Math.max(y + 22, methodReserveY);
-  drawDivider(ctx, contentX, y, contentWidth);
-  y += 46;
+function parseFlashCardSettings(stored: string): FlashCardSettings {
+  return normalizeFlashCardSettings(JSON.parse(stored));
+}
 
-  drawText(ctx, "METHOD", contentX, y, {
-    size: 30,
-    weight: 700,
-    color: "#111111",
-  });
-  y += 42;
-  for (const [index, instruction] of recipe.instructions.slice(0, 5).entries()) {
-    if (y > footerY - 118) break;
-    y = drawWrappedText(ctx, `${index + 1}. ${instruction}`, contentX, y, contentWidth, {
-      size: 27,
-      lineHeight: 38,
-      weight: 400,
-      color: "#222222",
-      maxLines: 3,
-    });
-    y += 12;
-  }
+function parseShoppingList(stored: string): ShoppingListState {
+  const value = JSON.parse(stored);
+  const strings = (list: unknown) =>
+    Array.isArray(list) ? list.filter((entry): entry is string => typeof entry === "string") : [];
+  return { recipeIds: strings(value?.recipeIds), checked: strings(value?.checked) };
+}
 
-  drawText(ctx, "Generated with ChefCam", contentX, footerY, {
-    size: 24,
-    weight: 500,
-    color: "#777777",
-  });
+function parseUnitSystem(stored: string): UnitSystem {
+  return UNIT_SYSTEMS.some((system) => system.id === stored) ? (stored as UnitSystem) : "original";
+}
 
-  return canvas.toDataURL("image/jpeg", 0.92);
-}
-
-function drawText(
-  ctx: CanvasRenderingContext2D,
-  text: string,
-  x: number,
-  y: number,
-  options: { size: number; weight: number; color: string }
-) {
-  ctx.fillStyle = options.color;
-  ctx.font = `${options.weight} ${options.size}px Arial, sans-serif`;
-  ctx.fillText(text, x, y);
-}
-
-function drawWrappedText(
-  ctx: CanvasRenderingContext2D,
-  text: string,
-  x: number,
-  y: number,
-  maxWidth: number,
-  options: {
-    size: number;
-    lineHeight: number;
-    weight: number;
-    color: string;
-    maxLines: number;
-  }
-) {
-  ctx.fillStyle = options.color;
-  ctx.font = `${options.weight} ${options.size}px Arial, sans-serif`;
-  const words = splitLongTokens(ctx, text.split(/\s+/), maxWidth);
-  const lines: string[] = [];
-  let line = "";
-  let truncated = false;
-
-  for (const word of words) {
-    const testLine = line ? `${line} ${word}` : word;
-    if (ctx.measureText(testLine).width > maxWidth && line) {
-      lines.push(line);
-      line = word;
-      if (lines.length === options.maxLines) {
-        truncated = true;
-        break;
-      }
-    } else {
-      line = testLine;
-    }
-  }
-  if (line && lines.length < options.maxLines) {
-    lines.push(line);
-  } else if (line) {
-    truncated = true;
-  }
+function createCapturedPhoto(file: File, quality: PhotoQuality | null): CapturedPhoto {
+  return {
+    id: `${Date.now().toString(36)}-${Math.random().toString(36).slice(2, 8)}`,
+    file,
+    url: URL.createObjectURL(file),
+    quality,
+  };
+}
 
-  for (const [index, currentLine] of lines.entries()) {
-    const isLastAllowedLine = index === lines.length - 1 && truncated;
-    ctx.fillText(isLastAllowedLine ? `${currentLine.replace(/[,.]$/, "")}...` : currentLine, x, y);
-    y += options.lineHeight;
-  }
-  return y;
+/** Runs the shared quality checks on a drawable image; `size` is the original photo's. */
+function measureImageQuality(
+  source: CanvasImageSource,
+  sourceSize: { width: number; height: number },
+  size: { width: number; height: number }
+): PhotoQuality | null {
+  const scale = Math.min(1, QUALITY_SAMPLE_SIZE / Math.max(sourceSize.width, sourceSize.height));
+  const canvas = document.createElement("canvas");
+  canvas.width = Math.max(1, Math.round(sourceSize.width * scale));
+  canvas.height = Math.max(1, Math.round(sourceSize.height * scale));
+  const ctx = canvas.getContext("2d", { willReadFrequently: true });
+  if (!ctx) return null;
+  ctx.drawImage(source, 0, 0, canvas.width, canvas.height);
+  const pixels = ctx.getImageData(0, 0, canvas.width, canvas.height).data;
+  return measurePhotoQuality(rgbaToLuma(pixels), canvas, size);
 }
 
-function splitLongTokens(ctx: CanvasRenderingContext2D, words: string[], maxWidth: number) {
-  const result: string[] = [];
-  for (const word of words) {
-    if (ctx.measureText(word).width <= maxWidth) {
-      result.push(word);
-      continue;
-    }
+/** Null when the browser cannot decode the file. */
+async function checkPhotoQuality(file: Blob): Promise<PhotoQuality | null> {
+  const url = URL.createObjectURL(file);
+  try {
+    const image = await loadImage(url);
+    const size = { width: image.naturalWidth, height: image.naturalHeight };
+    return measureImageQuality(image, size, size);
+  } catch {
+    return null;
+  } finally {
+    URL.revokeObjectURL(url);
+  }
+}
 
-    let chunk = "";
-    for (const char of word) {
-      const testChunk = `${chunk}${char}`;
-      if (ctx.measureText(testChunk).width > maxWidth && chunk) {
-        result.push(chunk);
-        chunk = char;
-      } else {
-        chunk = testChunk;
-      }
-    }
-    if (chunk) result.push(chunk);
-  }
-  return result;
-}
-
-function drawMetaGrid(ctx: CanvasRenderingContext2D, values: string[], x: number, y: number, width: number) {
-  const gap = 14;
-  const columns = 3;
-  const cellWidth = (width - gap * (columns - 1)) / columns;
-  const cellHeight = 54;
-  ctx.font = "600 24px Arial, sans-serif";
-
-  values.forEach((value, index) => {
-    const col = index % columns;
-    const row = Math.floor(index / columns);
-    const cellX = x + col * (cellWidth + gap);
-    const cellY = y + row * (cellHeight + gap);
-    ctx.strokeStyle = "#d6d6d6";
-    ctx.lineWidth = 2;
-    ctx.strokeRect(cellX, cellY, cellWidth, cellHeight);
-    ctx.fillStyle = "#222222";
-    drawSingleLineFit(ctx, value, cellX + 16, cellY + 35, cellWidth - 32);
-  });
+/** Maps the server's per-image validation errors back onto the photos that were sent. */
+function toPhotoErrors(photos: CapturedPhoto[], imageErrors: unknown[]) {
+  const errors: Record<string, string> = {};
+  for (const entry of imageErrors) {
+    const { index, error } = (entry ?? {}) as { index?: unknown; error?: unknown };
+    const photo = typeof index === "number" ? photos[index] : undefined;
+    if (photo && typeof error === "string") errors[photo.id] = error;
+  }
+  return errors;
+}
 
-  return y + Math.ceil(values.length / columns) * (cellHeight + gap) - gap;
+function formatCountdown(totalSeconds: number) {
+  const hours = Math.floor(totalSeconds / 3600);
+  const minutes = Math.floor((totalSeconds % 3600) / 60);
+  const seconds = totalSeconds % 60;
+  if (hours > 0) return `${hours}h ${String(minutes).padStart(2, "0")}m`;
+  return minutes > 0 ? `${minutes}:${String(seconds).padStart(2, "0")}` : `${seconds}s`;
 }
 
-function drawSingleLineFit(
-  ctx: CanvasRenderingContext2D,
-  text: string,
-  x: number,
-  y: number,
-  maxWidth: number
-) {
-  if (ctx.measureText(text).width <= maxWidth) {
-    ctx.fillText(text, x, y);
-    return;
-  }
+function isEventStream(response: Response) {
+  return (response.headers.get("content-type") || "").includes("text/event-stream");
+}
 
-  let clipped = text;
-  while (clipped.length > 1 && ctx.measureText(`${clipped}...`).width > maxWidth) {
-    clipped = clipped.slice(0, -1);
-  }
-  ctx.fillText(`${clipped}...`, x, y);
+function toSavedRecipe(value: unknown): SavedRecipe {
+  const item = (value && typeof value === "object" ? value : {}) as Record<string, unknown>;
+  const recipe = parseRecipeApiResponse(item.recipe);
+  return {
+    id: String(item.id || ""),
+    name: typeof item.name === "string" && item.name.trim() ? item.name : recipe.dishName,
+    recipe,
+    photo: parseRecipePhoto(item.photo),
+    shareSlug: typeof item.shareSlug === "string" && item.shareSlug ? item.shareSlug : null,
+    createdAt: Number(item.createdAt || 0),
+    updatedAt: Number(item.updatedAt || 0),
+  };
 }
 
-function drawDivider(ctx: CanvasRenderingContext2D, x: number, y: number, width: number) {
-  ctx.strokeStyle = "#d6d6d6";
-  ctx.lineWidth = 2;
-  ctx.beginPath();
-  ctx.moveTo(x, y);
-  ctx.lineTo(x + width, y);
-  ctx.stroke();
+function getShareUrl(slug: string) {
+  return `${window.location.origin}/r/${slug}`;
 }
 
 function slugify(value: string) {
@@ -918,8 +2174,9 @@ function slugify(value: string) {
   );
 }
 
-function getFlashCardFileName(recipe: Recipe) {
-  return `${slugify(recipe.dishName)}-chef-card.jpg`;
+function getFlashCardFileName(recipe: RecipeApiResponse, page: number, pageCount: number) {
+  const suffix = pageCount > 1 ? `-${page + 1}` : "";
+  return `${slugify(recipe.dishName)}-chef-card${suffix}.jpg`;
 }
 
 function dataUrlToFile(dataUrl: string, fileName: string) {
@@ -933,9 +2190,56 @@ function dataUrlToFile(dataUrl: string, fileName: string) {
   return new File([bytes], fileName, { type: mimeType });
 }
 
+function loadImage(url: string) {
+  return new Promise<HTMLImageElement>((resolve, reject) => {
+    const image = new Image();
+    image.onload = () => resolve(image);
+    image.onerror = () => reject(new Error("Could not load image."));
+    image.src = url;
+  });
+}
+
+/** Scales an image down so its longest side is at most `maxSide` and re-encodes it as JPEG. */
+async function resizeToJpeg(file: Blob, maxSide: number, quality: number): Promise<Blob> {
+  const sourceUrl = URL.createObjectURL(file);
+  try {
+    const image = await loadImage(sourceUrl).catch(() => {
+      throw new Error("Unsupported image format. Use JPG, PNG, or WebP.");
+    });
+    const canvas = document.createElement("canvas");
+    const ctx = canvas.getContext("2d");
+    if (!ctx) throw new Error("Could not process image.");
+
+    const scale = Math.min(1, maxSide / Math.max(image.width, image.height));
+    canvas.width = Math.round(image.width * scale);
+    canvas.height = Math.round(image.height * scale);
+    ctx.drawImage(image, 0, 0, canvas.width, canvas.height);
+
+    return await new Promise<Blob>((resolve, reject) => {
+      canvas.toBlob(
+        (blob) => (blob ? resolve(blob) : reject(new Error("Could not compress image."))),
+        "image/jpeg",
+        quality
+      );
+    });
+  } finally {
+    URL.revokeObjectURL(sourceUrl);
+  }
+}
+
 function downloadDataUrl(dataUrl: string, fileName: string) {
   const link = document.createElement("a");
   link.href = dataUrl;
   link.download = fileName;
   link.click();
 }
+
+function downloadBlob(blob: Blob, fileName: string) {
+  const url = URL.createObjectURL(blob);
+  downloadDataUrl(url, fileName);
+  window.setTimeout(() => URL.revokeObjectURL(url), 1000);
+}
+
+function downloadTextFile(text: string, fileName: string, mimeType: string) {
+  downloadBlob(new Blob([text], { type: `${mimeType};charset=utf-8` }), fileName);
+}
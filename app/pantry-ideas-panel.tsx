@@ -0,0 +1,114 @@
+"use client";
+
+import { AnalysisMode, ANALYSIS_MODES, LOW_CONFIDENCE, PantryIdeas } from "@/lib/pantry";
+
+export function AnalysisModeToggle({
+  value,
+  onChange,
+  disabled,
+}: {
+  value: AnalysisMode;
+  onChange: (mode: AnalysisMode) => void;
+  disabled: boolean;
+}) {
+  return (
+    <div
+      className="grid grid-cols-2 rounded-lg border border-[#cfcfcf] p-0.5 sm:col-span-3"
+      role="radiogroup"
+      aria-label="Analysis mode"
+    >
+      {ANALYSIS_MODES.map((mode) => (
+        <button
+          key={mode.id}
+          type="button"
+          role="radio"
+          aria-checked={value === mode.id}
+          disabled={disabled}
+          onClick={() => onChange(mode.id)}
+          className={
+            value === mode.id
+              ? "min-h-10 rounded-md bg-[#111111] px-3 text-sm font-medium text-white disabled:opacity-60"
+              : "min-h-10 rounded-md px-3 text-sm font-medium text-[#333333] hover:bg-[#f3f3f3] disabled:opacity-60"
+          }
+        >
+          {mode.label}
+        </button>
+      ))}
+    </div>
+  );
+}
+
+export function PantryIdeasPanel({
+  ideas,
+  activeIndex,
+  onSelect,
+  disabled,
+}: {
+  ideas: PantryIdeas;
+  activeIndex: number;
+  onSelect: (index: number) => void;
+  disabled: boolean;
+}) {
+  return (
+    <section className="rounded-lg border border-[#e6e6e6] bg-white">
+      <div className="border-b border-[#e6e6e6] px-4 py-3">
+        <h2 className="text-base font-semibold uppercase text-[#777777] sm:text-sm">What you can cook</h2>
+      </div>
+      <div className="space-y-4 px-4 py-3">
+        <div>
+          <p className="text-xs font-medium uppercase text-[#777777]">Detected ingredients</p>
+          {ideas.detectedIngredients.length > 0 ? (
+            <div className="mt-2 flex flex-wrap gap-1.5">
+              {ideas.detectedIngredients.map((ingredient) => (
+                <span
+                  key={ingredient.name}
+                  className={
+                    ingredient.confidence < LOW_CONFIDENCE
+                      ? "rounded-md border border-dashed border-[#9a9a9a] bg-white px-2.5 py-1.5 text-xs font-medium text-[#777777]"
+                      : "rounded-md border border-[#d6d6d6] bg-[#f5f5f5] px-2.5 py-1.5 text-xs font-medium text-[#333333]"
+                  }
+                  title={ingredient.confidence < LOW_CONFIDENCE ? "Not sure this is in the photo" : undefined}
+                >
+                  {ingredient.name} · {Math.round(ingredient.confidence * 100)}%
+                </span>
+              ))}
+            </div>
+          ) : (
+            <p className="mt-2 text-sm text-[#777777]">No ingredients could be identified.</p>
+          )}
+        </div>
+        <div>
+          <p className="text-xs font-medium uppercase text-[#777777]">Recipe ideas</p>
+          <ul className="mt-2 divide-y divide-[#eeeeee]">
+            {ideas.candidates.map((candidate, index) => {
+              const missing = candidate.missingIngredients ?? [];
+              return (
+                <li key={`${candidate.dishName}-${index}`}>
+                  <button
+                    type="button"
+                    disabled={disabled}
+                    aria-pressed={index === activeIndex}
+                    onClick={() => onSelect(index)}
+                    className={`w-full py-2.5 text-left disabled:opacity-60 ${
+                      index === activeIndex ? "" : "text-[#555555] hover:text-[#111111]"
+                    }`}
+                  >
+                    <span className="block text-sm font-semibold">
+                      {index === activeIndex ? "● " : ""}
+                      {candidate.dishName}
+                    </span>
+                    <span className="block text-xs text-[#777777]">
+                      {missing.length > 0
+                        ? `Missing ${missing.length}: ${missing.join(", ")}`
+                        : "Uses only what you have"}
+                    </span>
+                  </button>
+                </li>
+              );
+            })}
+          </ul>
+        </div>
+      </div>
+    </section>
+  );
+}
@@ -0,0 +1,145 @@
+import type { Metadata } from "next";
+import { headers } from "next/headers";
+import Link from "next/link";
+import { notFound } from "next/navigation";
+import { computeNutrition, formatNutritionValue } from "@/lib/nutrition";
+import { getSharedImageUrl, getSharedRecipe } from "@/lib/shared-recipes";
+import SaveSharedRecipeButton from "./save-button";
+
+type Props = { params: Promise<{ slug: string }> };
+
+/** Open Graph images must be absolute; the request host works behind proxies and previews alike. */
+async function getOrigin() {
+  const headerList = await headers();
+  const host = headerList.get("x-forwarded-host") ?? headerList.get("host") ?? "localhost:3000";
+  const protocol = headerList.get("x-forwarded-proto") ?? (host.startsWith("localhost") ? "http" : "https");
+  return `${protocol}://${host}`;
+}
+
+export async function generateMetadata({ params }: Props): Promise<Metadata> {
+  const shared = await getSharedRecipe((await params).slug);
+  if (!shared) return { title: "Recipe not found | ChefCam" };
+
+  const origin = await getOrigin();
+  const image = shared.card ? "card" : shared.photo ? "photo" : null;
+  const description = shared.recipe.shortDescription || `A ${shared.recipe.cuisine} recipe shared from ChefCam.`;
+  return {
+    title: `${shared.name} | ChefCam`,
+    description,
+    openGraph: {
+      type: "article",
+      title: shared.name,
+      description,
+      url: `${origin}/r/${shared.slug}`,
+      siteName: "ChefCam",
+      ...(image ? { images: [{ url: `${origin}${getSharedImageUrl(shared.slug, image)}`, alt: shared.name }] } : {}),
+    },
+    twitter: {
+      card: image ? "summary_large_image" : "summary",
+      title: shared.name,
+      description,
+    },
+  };
+}
+
+export default async function SharedRecipePage({ params }: Props) {
+  const shared = await getSharedRecipe((await params).slug);
+  if (!shared) notFound();
+
+  const { recipe } = shared;
+  const meta = [
+    recipe.cuisine,
+    recipe.difficulty,
+    `Serves ${recipe.servings}`,
+    `Prep ${recipe.prepTime}`,
+    `Cook ${recipe.cookTime}`,
+    formatNutritionValue("kcal", computeNutrition(recipe).perServing.kcal),
+  ];
+
+  return (
+    <main className="min-h-dvh bg-white text-[#111111]">
+      <div className="mx-auto grid max-w-5xl gap-6 px-3 py-3 sm:px-5 sm:py-5 lg:grid-cols-[1fr_20rem] lg:px-8">
+        <header className="border-b border-[#e6e6e6] pb-3 lg:col-span-2">
+          <Link href="/" className="flex items-center gap-2 text-xs font-medium uppercase text-[#6b6b6b]">
+            <span className="h-2 w-2 rounded-full bg-[#111111]" />
+            ChefCam
+          </Link>
+        </header>
+
+        <article className="min-w-0">
+          {shared.photo && (
+            // eslint-disable-next-line @next/next/no-img-element
+            <img
+              src={getSharedImageUrl(shared.slug, "photo")}
+              alt={shared.name}
+              className="mb-5 aspect-[4/3] w-full rounded-lg border border-[#e6e6e6] object-cover"
+            />
+          )}
+          <h1 className="text-2xl font-semibold leading-tight sm:text-4xl">{shared.name}</h1>
+          {recipe.shortDescription && <p className="mt-2 text-sm leading-6 text-[#555555]">{recipe.shortDescription}</p>}
+
+          <div className="mt-4 flex flex-wrap gap-2">
+            {meta.map((value, index) => (
+              <span
+                key={`${value}-${index}`}
+                className="rounded-md border border-[#d6d6d6] bg-[#f5f5f5] px-2.5 py-1.5 text-xs font-medium text-[#333333]"
+              >
+                {value}
+              </span>
+            ))}
+          </div>
+
+          <section className="mt-8">
+            <h2 className="text-sm font-semibold uppercase text-[#777777]">Ingredients</h2>
+            <ul className="mt-3 divide-y divide-[#e6e6e6] border-y border-[#e6e6e6] text-sm">
+              {recipe.ingredients.map((ingredient, index) => (
+                <li key={`${ingredient.item}-${index}`} className="grid grid-cols-[7rem_1fr] gap-3 py-2">
+                  <span className="font-semibold">{ingredient.amount}</span>
+                  <span>{ingredient.item}</span>
+                </li>
+              ))}
+            </ul>
+          </section>
+
+          <section className="mt-8">
+            <h2 className="text-sm font-semibold uppercase text-[#777777]">Method</h2>
+            <ol className="mt-3 space-y-3 text-sm leading-6">
+              {recipe.instructions.map((instruction, index) => (
+                <li key={`${instruction}-${index}`} className="grid grid-cols-[2rem_1fr]">
+                  <span className="font-semibold">{index + 1}.</span>
+                  <span>{instruction}</span>
+                </li>
+              ))}
+            </ol>
+          </section>
+
+          {recipe.platingTips.length > 0 && (
+            <section className="mt-8">
+              <h2 className="text-sm font-semibold uppercase text-[#777777]">Plating</h2>
+              <ul className="mt-3 space-y-2 text-sm leading-6 text-[#555555]">
+                {recipe.platingTips.map((tip, index) => (
+                  <li key={`${tip}-${index}`}>- {tip}</li>
+                ))}
+              </ul>
+            </section>
+          )}
+        </article>
+
+        <aside className="space-y-4 lg:sticky lg:top-5 lg:self-start">
+          <SaveSharedRecipeButton slug={shared.slug} />
+          {shared.card && (
+            // eslint-disable-next-line @next/next/no-img-element
+            <img
+              src={getSharedImageUrl(shared.slug, "card")}
+              alt={`${shared.name} recipe card`}
+              className="w-full rounded-lg border border-[#e6e6e6]"
+            />
+          )}
+          <p className="text-xs leading-5 text-[#777777]">
+            Shared from ChefCam. Saving adds a copy to your recipes.
+          </p>
+        </aside>
+      </div>
+    </main>
+  );
+}
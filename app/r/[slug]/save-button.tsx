@@ -0,0 +1,52 @@
+"use client";
+
+import Link from "next/link";
+import { useState } from "react";
+import { authFetch } from "@/lib/auth-client";
+
+/** Copies a shared recipe into the signed-in user's library. */
+export default function SaveSharedRecipeButton({ slug }: { slug: string }) {
+  const [state, setState] = useState<"idle" | "saving" | "saved">("idle");
+  const [error, setError] = useState<string | null>(null);
+
+  async function save() {
+    setState("saving");
+    setError(null);
+    try {
+      const response = await authFetch(`/api/shared/${encodeURIComponent(slug)}`, { method: "POST" });
+      const payload = await response.json().catch(() => null);
+      if (!response.ok || !payload?.id) {
+        throw new Error(payload?.error || "Could not save the recipe.");
+      }
+      setState("saved");
+    } catch (err: unknown) {
+      setState("idle");
+      setError(err instanceof Error ? err.message : "Could not save the recipe.");
+    }
+  }
+
+  if (state === "saved") {
+    return (
+      <Link
+        href="/"
+        className="flex min-h-12 items-center justify-center rounded-lg border border-[#111111] bg-[#111111] px-4 text-sm font-semibold text-white"
+      >
+        Saved. Open My Recipes
+      </Link>
+    );
+  }
+
+  return (
+    <div>
+      <button
+        type="button"
+        onClick={save}
+        disabled={state === "saving"}
+        className="min-h-12 w-full rounded-lg border border-[#111111] bg-[#111111] px-4 text-sm font-semibold text-white disabled:opacity-60"
+      >
+        {state === "saving" ? "Saving..." : "Save to My Recipes"}
+      </button>
+      {error && <p className="mt-2 text-sm text-[#555555]">{error}</p>}
+    </div>
+  );
+}
@@ -0,0 +1,134 @@
+"use client";
+
+import { useState } from "react";
+import { RecipeApiResponse } from "@/lib/recipe";
+import { getPhotoUrl, RecipePhoto } from "@/lib/recipe-photo";
+import { LinkButton } from "./ui";
+
+export type SavedRecipe = {
+  id: string;
+  name: string;
+  recipe: RecipeApiResponse;
+  photo: RecipePhoto | null;
+  /** Slug of the public /r/<slug> link, while one is published. */
+  shareSlug: string | null;
+  createdAt: number;
+  updatedAt: number;
+};
+
+export default function RecipeLibrary({
+  items,
+  loaded,
+  error,
+  activeId,
+  onOpen,
+  onRename,
+  onDelete,
+  importing,
+  onImport,
+  onExportAll,
+}: {
+  items: SavedRecipe[];
+  loaded: boolean;
+  error: string | null;
+  activeId: string | null;
+  onOpen: (item: SavedRecipe) => void;
+  onRename: (id: string, name: string) => void;
+  onDelete: (id: string) => void;
+  importing: boolean;
+  onImport: () => void;
+  onExportAll: () => void;
+}) {
+  const [editingId, setEditingId] = useState<string | null>(null);
+  const [draftName, setDraftName] = useState("");
+
+  function startRename(item: SavedRecipe) {
+    setEditingId(item.id);
+    setDraftName(item.name);
+  }
+
+  function commitRename(id: string) {
+    onRename(id, draftName);
+    setEditingId(null);
+  }
+
+  return (
+    <section className="rounded-lg border border-[#e6e6e6] bg-white">
+      <div className="flex items-center justify-between border-b border-[#e6e6e6] px-4 py-3">
+        <h2 className="text-base font-semibold uppercase text-[#777777] sm:text-sm">My Recipes</h2>
+        <span className="text-xs font-medium text-[#777777]">{items.length} saved</span>
+      </div>
+
+      {error && <p className="border-b border-[#e6e6e6] px-4 py-3 text-sm text-[#555555]">{error}</p>}
+
+      {items.length === 0 ? (
+        <p className="px-4 py-4 text-sm leading-6 text-[#555555]">
+          {loaded ? "Saved recipes will appear here." : "Loading saved recipes..."}
+        </p>
+      ) : (
+        <ul className="divide-y divide-[#e6e6e6]">
+          {items.map((item) => (
+            <li key={item.id} className="grid gap-2 px-4 py-3 sm:grid-cols-[1fr_auto] sm:items-center">
+              {editingId === item.id ? (
+                <input
+                  value={draftName}
+                  autoFocus
+                  onChange={(event) => setDraftName(event.target.value)}
+                  onKeyDown={(event) => {
+                    if (event.key === "Enter") commitRename(item.id);
+                    if (event.key === "Escape") setEditingId(null);
+                  }}
+                  className="min-h-11 w-full rounded-lg border border-[#cfcfcf] px-3 text-sm"
+                  aria-label="Recipe name"
+                />
+              ) : (
+                <button type="button" onClick={() => onOpen(item)} className="flex items-center gap-3 text-left">
+                  <span className="h-14 w-14 shrink-0 overflow-hidden rounded-lg border border-[#e6e6e6] bg-[#f3f3f3]">
+                    {item.photo && (
+                      // eslint-disable-next-line @next/next/no-img-element
+                      <img
+                        src={getPhotoUrl(item.photo.thumbnail)}
+                        alt=""
+                        loading="lazy"
+                        className="h-full w-full object-cover"
+                      />
+                    )}
+                  </span>
+                  <span>
+                    <span className={item.id === activeId ? "block text-sm font-semibold" : "block text-sm font-medium"}>
+                      {item.name}
+                    </span>
+                    <span className="block text-xs text-[#777777]">
+                      {item.recipe.cuisine} · {new Date(item.createdAt).toLocaleDateString()}
+                    </span>
+                  </span>
+                </button>
+              )}
+
+              <div className="flex gap-2 text-xs font-medium">
+                {editingId === item.id ? (
+                  <>
+                    <LinkButton onClick={() => commitRename(item.id)}>Save</LinkButton>
+                    <LinkButton onClick={() => setEditingId(null)}>Cancel</LinkButton>
+                  </>
+                ) : (
+                  <>
+                    <LinkButton onClick={() => onOpen(item)}>Open</LinkButton>
+                    <LinkButton onClick={() => startRename(item)}>Rename</LinkButton>
+                    <LinkButton onClick={() => onDelete(item.id)}>Delete</LinkButton>
+                  </>
+                )}
+              </div>
+            </li>
+          ))}
+        </ul>
+      )}
+
+      <div className="flex flex-wrap items-center gap-2 border-t border-[#e6e6e6] px-4 py-3 text-xs font-medium">
+        <LinkButton onClick={onImport}>{importing ? "Importing..." : "Import Recipes"}</LinkButton>
+        {items.length > 0 && <LinkButton onClick={onExportAll}>Export All (Paprika)</LinkButton>}
+        <span className="text-[#777777]">JSON-LD, Markdown or Paprika files</span>
+      </div>
+    </section>
+  );
+}
@@ -0,0 +1,142 @@
+"use client";
+
+import { describeShoppingItem, ShoppingAisle } from "@/lib/shopping-list";
+import { Button, ToggleChip } from "./ui";
+
+export default function ShoppingListPanel({
+  options,
+  selectedIds,
+  aisles,
+  checked,
+  onToggleRecipe,
+  onToggleItem,
+  onClearChecked,
+  onShare,
+  onDownload,
+  onPrint,
+}: {
+  options: Array<{ id: string; name: string }>;
+  selectedIds: string[];
+  aisles: ShoppingAisle[];
+  checked: string[];
+  onToggleRecipe: (id: string) => void;
+  onToggleItem: (key: string) => void;
+  onClearChecked: () => void;
+  onShare: () => void;
+  onDownload: (format: "text" | "markdown") => void;
+  onPrint: () => void;
+}) {
+  const items = aisles.flatMap((group) => group.items);
+  const remaining = items.filter((item) => !checked.includes(item.key)).length;
+
+  return (
+    <section id="shopping-list" className="scroll-mt-3 rounded-lg border border-[#e6e6e6] bg-white">
+      <div className="flex items-center justify-between border-b border-[#e6e6e6] px-4 py-3">
+        <h2 className="text-base font-semibold uppercase text-[#777777] sm:text-sm">Shopping List</h2>
+        <span className="text-xs font-medium text-[#777777]">
+          {items.length > 0 ? `${remaining} of ${items.length} to buy` : "Empty"}
+        </span>
+      </div>
+
+      <div className="border-b border-[#e6e6e6] px-4 py-3">
+        {options.length === 0 ? (
+          <p className="text-sm leading-6 text-[#555555]">
+            Generate or save a recipe to build a shopping list from it.
+          </p>
+        ) : (
+          <div className="flex flex-wrap gap-2">
+            {options.map((option) => (
+              <ToggleChip
+                key={option.id}
+                active={selectedIds.includes(option.id)}
+                onClick={() => onToggleRecipe(option.id)}
+              >
+                {option.name}
+              </ToggleChip>
+            ))}
+          </div>
+        )}
+      </div>
+
+      {items.length > 0 && (
+        <>
+          <div className="divide-y divide-[#e6e6e6]">
+            {aisles.map((group) => (
+              <div key={group.aisle} className="px-4 py-3">
+                <p className="text-xs font-medium uppercase text-[#777777]">{group.label}</p>
+                <ul className="mt-2 space-y-1.5">
+                  {group.items.map((item) => {
+                    const done = checked.includes(item.key);
+                    return (
+                      <li key={item.key}>
+                        <label className="flex min-h-9 cursor-pointer items-start gap-3 text-sm leading-6">
+                          <input
+                            type="checkbox"
+                            checked={done}
+                            onChange={() => onToggleItem(item.key)}
+                            className="mt-1.5 h-4 w-4 shrink-0 accent-[#111111]"
+                          />
+                          <span
+                            className={done ? "text-[#a6a6a6] line-through" : undefined}
+                            title={`For ${item.sources.join(", ")}`}
+                          >
+                            {describeShoppingItem(item)}
+                          </span>
+                        </label>
+                      </li>
+                    );
+                  })}
+                </ul>
+              </div>
+            ))}
+          </div>
+
+          <div className="grid gap-3 border-t border-[#d8d8d8] p-4 sm:grid-cols-2">
+            <div className="sm:col-span-2">
+              <Button onClick={onShare} primary>
+                Share List
+              </Button>
+            </div>
+            <Button onClick={() => onDownload("text")}>Save Text</Button>
+            <Button onClick={() => onDownload("markdown")}>Save Markdown</Button>
+            <Button onClick={onPrint}>Print List</Button>
+            <Button onClick={onClearChecked} disabled={checked.length === 0}>
+              Uncheck All
+            </Button>
+          </div>
+        </>
+      )}
+    </section>
+  );
+}
+
+export function PrintableShoppingList({
+  aisles,
+  checked,
+  recipeNames,
+}: {
+  aisles: ShoppingAisle[];
+  checked: string[];
+  recipeNames: string[];
+}) {
+  return (
+    <section className="print-sheet hidden bg-white p-8 text-[#111111]">
+      <p className="text-xs font-semibold uppercase">ChefCam Shopping List</p>
+      <h1 className="mt-3 text-3xl font-semibold">Shopping List</h1>
+      <p className="mt-2 text-sm">For: {recipeNames.join(", ")}</p>
+
+      {aisles.map((group) => (
+        <div key={`${group.aisle}-print`}>
+          <h2 className="mt-7 text-lg font-semibold">{group.label}</h2>
+          <ul className="mt-3 space-y-1 text-sm">
+            {group.items.map((item) => (
+              <li key={`${item.key}-print`} className={checked.includes(item.key) ? "line-through" : undefined}>
+                {checked.includes(item.key) ? "[x]" : "[ ]"} {describeShoppingItem(item)}
+              </li>
+            ))}
+          </ul>
+        </div>
+      ))}
+    </section>
+  );
+}
@@ -0,0 +1,77 @@
+"use client";
+
+import { Recipe } from "@/lib/recipe";
+import { RecipeSection, Tag } from "./ui";
+
+export default function StreamingRecipePanel({
+  recipe,
+  elapsedSeconds,
+  statusMessage,
+}: {
+  recipe: Partial<Recipe>;
+  elapsedSeconds: number;
+  statusMessage: string;
+}) {
+  const tags = [recipe.cuisine, recipe.difficulty, recipe.servings && `Serves ${recipe.servings}`].filter(
+    (tag): tag is string => Boolean(tag)
+  );
+
+  return (
+    <article className="flex h-full flex-col" aria-busy="true">
+      <div className="border-b border-[#e6e6e6] p-4 sm:p-5">
+        <p className="text-xs font-medium uppercase text-[#777777]">
+          {statusMessage || "Analyzing"} {elapsedSeconds > 0 ? `(${elapsedSeconds}s)` : ""}
+        </p>
+        <h2 className="mt-2 text-2xl font-semibold leading-tight sm:text-3xl">
+          {recipe.dishName || <span className="text-[#a6a6a6]">Identifying dish...</span>}
+        </h2>
+        {recipe.shortDescription && (
+          <p className="mt-2 text-base leading-7 text-[#555555] sm:text-sm sm:leading-6">
+            {recipe.shortDescription}
+          </p>
+        )}
+        {tags.length > 0 && (
+          <div className="mt-4 flex flex-wrap gap-1.5">
+            {tags.map((tag) => (
+              <Tag key={tag}>{tag}</Tag>
+            ))}
+          </div>
+        )}
+      </div>
+
+      <div className="grid gap-0 md:flex-1">
+        <RecipeSection title="Ingredients">
+          {recipe.ingredients && recipe.ingredients.length > 0 ? (
+            <ul className="grid gap-3 sm:grid-cols-2 md:grid-cols-1">
+              {recipe.ingredients.map((ingredient, index) => (
+                <li key={`${ingredient.item}-${index}`} className="text-sm">
+                  <p className="font-medium">{ingredient.item}</p>
+                  <p className="text-[#666666]">{ingredient.amount}</p>
+                </li>
+              ))}
+            </ul>
+          ) : (
+            <p className="text-sm text-[#a6a6a6]">Waiting for ingredients...</p>
+          )}
+        </RecipeSection>
+
+        <RecipeSection title="Method">
+          {recipe.instructions && recipe.instructions.length > 0 ? (
+            <ol className="space-y-3">
+              {recipe.instructions.map((instruction, index) => (
+                <li key={`${instruction}-${index}`} className="grid grid-cols-[1.75rem_1fr] gap-3 text-sm leading-6">
+                  <span className="flex h-7 w-7 items-center justify-center rounded bg-[#111111] text-xs font-medium text-white">
+                    {index + 1}
+                  </span>
+                  <span>{instruction}</span>
+                </li>
+              ))}
+            </ol>
+          ) : (
+            <p className="text-sm text-[#a6a6a6]">Waiting for steps...</p>
+          )}
+        </RecipeSection>
+      </div>
+    </article>
+  );
+}
@@ -0,0 +1,183 @@
+"use client";
+
+import { useEffect, useState, useSyncExternalStore } from "react";
+import {
+  collectFinishedTimers,
+  extendTimer,
+  getServerTimers,
+  getTimers,
+  removeTimer,
+  startTimer,
+  subscribeTimers,
+} from "@/lib/timer-store";
+import { extractStepTiming, formatCountdown, formatDuration } from "@/lib/timers";
+
+let audioContext: AudioContext | null = null;
+
+/**
+ * Starts a timer from a click handler. Browsers only allow sound and
+ * notification prompts after a user gesture, so both are set up here.
+ */
+export function startKitchenTimer(label: string, seconds: number) {
+  try {
+    audioContext ??= new AudioContext();
+    void audioContext.resume();
+  } catch {
+    audioContext = null;
+  }
+  if ("Notification" in window && Notification.permission === "default") {
+    void Notification.requestPermission();
+  }
+  return startTimer(label, seconds);
+}
+
+function playAlert() {
+  if (!audioContext) return;
+  const start = audioContext.currentTime;
+  for (let beep = 0; beep < 3; beep += 1) {
+    const oscillator = audioContext.createOscillator();
+    const gain = audioContext.createGain();
+    oscillator.frequency.value = 880;
+    gain.gain.setValueAtTime(0.0001, start + beep * 0.45);
+    gain.gain.exponentialRampToValueAtTime(0.3, start + beep * 0.45 + 0.02);
+    gain.gain.exponentialRampToValueAtTime(0.0001, start + beep * 0.45 + 0.3);
+    oscillator.connect(gain).connect(audioContext.destination);
+    oscillator.start(start + beep * 0.45);
+    oscillator.stop(start + beep * 0.45 + 0.32);
+  }
+}
+
+function notify(label: string) {
+  navigator.vibrate?.([300, 150, 300]);
+  if (!("Notification" in window) || Notification.permission !== "granted") return;
+  try {
+    new Notification("Timer done", { body: label, tag: "chef-cam-timer" });
+  } catch {
+    // Some mobile browsers only allow notifications from a service worker.
+  }
+}
+
+/**
+ * Floating list of running kitchen timers. Mounted in the root layout so it
+ * keeps counting (and alerting) while the cook moves around the app.
+ */
+export default function TimerTray() {
+  const timers = useSyncExternalStore(subscribeTimers, getTimers, getServerTimers);
+  const [now, setNow] = useState(() => Date.now());
+  const hasPending = timers.some((timer) => timer.doneAt === null);
+
+  useEffect(() => {
+    if (!hasPending) return;
+    function tick() {
+      setNow(Date.now());
+      for (const timer of collectFinishedTimers()) {
+        playAlert();
+        notify(timer.label);
+      }
+    }
+
+    tick();
+    const interval = window.setInterval(tick, 500);
+    return () => window.clearInterval(interval);
+  }, [hasPending]);
+
+  if (timers.length === 0) return null;
+
+  return (
+    <aside
+      className="no-print fixed bottom-3 right-3 z-[60] w-[min(22rem,calc(100vw-1.5rem))] space-y-2"
+      aria-label="Kitchen timers"
+    >
+      {timers.map((timer) => {
+        const done = timer.doneAt !== null;
+        return (
+          <div
+            key={timer.id}
+            role={done ? "alert" : undefined}
+            className={
+              done
+                ? "rounded-lg border border-[#111111] bg-[#111111] p-3 text-white shadow-lg"
+                : "rounded-lg border border-[#d8d8d8] bg-white p-3 text-[#111111] shadow-lg"
+            }
+          >
+            <div className="flex items-baseline justify-between gap-3">
+              <p className="min-w-0 truncate text-xs font-medium">{timer.label}</p>
+              <p className="shrink-0 font-mono text-xl font-semibold tabular-nums">
+                {done ? "Done" : formatCountdown(timer.endsAt - now)}
+              </p>
+            </div>
+            <div className="mt-2 flex gap-2">
+              <button
+                type="button"
+                onClick={() => extendTimer(timer.id, 60)}
+                className={
+                  done
+                    ? "min-h-9 flex-1 rounded-md border border-white/40 text-xs font-medium"
+                    : "min-h-9 flex-1 rounded-md border border-[#cfcfcf] text-xs font-medium hover:bg-[#f3f3f3]"
+                }
+              >
+                +1 min
+              </button>
+              <button
+                type="button"
+                onClick={() => removeTimer(timer.id)}
+                className={
+                  done
+                    ? "min-h-9 flex-1 rounded-md bg-white text-xs font-semibold text-[#111111]"
+                    : "min-h-9 flex-1 rounded-md border border-[#cfcfcf] text-xs font-medium hover:bg-[#f3f3f3]"
+                }
+              >
+                {done ? "Dismiss" : "Stop"}
+              </button>
+            </div>
+          </div>
+        );
+      })}
+    </aside>
+  );
+}
+
+/** Start buttons for every time span in a step, or the doneness cue when it has none. */
+export function StepTimerButtons({
+  instruction,
+  label,
+  large = false,
+}: {
+  instruction: string;
+  label: string;
+  large?: boolean;
+}) {
+  const { timers, cue } = extractStepTiming(instruction);
+  if (timers.length === 0 && !cue) return null;
+
+  return (
+    <div className={large ? "mt-6 flex flex-wrap gap-3" : "mt-2 flex flex-wrap gap-1.5"}>
+      {timers.map((timer, index) => (
+        <button
+          key={`${timer.text}-${index}`}
+          type="button"
+          onClick={() => startKitchenTimer(`${label} (${timer.text})`, timer.seconds)}
+          title={timer.maxSeconds ? `Goes off at ${formatDuration(timer.seconds)} so you can check early` : undefined}
+          className={
+            large
+              ? "min-h-16 rounded-lg border border-[#111111] px-6 text-xl font-semibold hover:bg-[#f3f3f3]"
+              : "min-h-9 rounded-md border border-[#cfcfcf] px-2.5 text-xs font-medium hover:bg-[#f3f3f3]"
+          }
+        >
+          Start timer: {timer.text}
+        </button>
+      ))}
+      {cue && (
+        <span
+          className={
+            large
+              ? "rounded-lg border border-dashed border-[#9a9a9a] px-4 py-3 text-lg text-[#555555]"
+              : "rounded-md border border-dashed border-[#9a9a9a] px-2.5 py-1.5 text-xs text-[#777777]"
+          }
+        >
+          No time given: cook {cue}
+        </span>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,119 @@
+"use client";
+
+import { ReactNode } from "react";
+
+export function Notice({ children }: { children: ReactNode }) {
+  return (
+    <div className="rounded-lg border border-[#d0d0d0] bg-[#f3f3f3] px-4 py-4 text-base leading-7 text-[#333333] sm:py-3 sm:text-sm sm:leading-6">
+      {children}
+    </div>
+  );
+}
+
+export function Button({
+  children,
+  onClick,
+  primary = false,
+  disabled = false,
+}: {
+  children: ReactNode;
+  onClick: () => void;
+  primary?: boolean;
+  disabled?: boolean;
+}) {
+  return (
+    <button
+      type="button"
+      onClick={onClick}
+      disabled={disabled}
+      className={
+        primary
+          ? "min-h-14 w-full rounded-lg bg-[#111111] px-5 py-4 text-base font-semibold text-white transition hover:bg-[#303030] disabled:cursor-not-allowed disabled:bg-[#a6a6a6] sm:min-h-11 sm:px-4 sm:py-3 sm:text-sm sm:font-medium"
+          : "min-h-14 w-full rounded-lg border border-[#cfcfcf] bg-white px-5 py-4 text-base font-semibold text-[#111111] transition hover:bg-[#f3f3f3] disabled:cursor-not-allowed disabled:text-[#a6a6a6] sm:min-h-11 sm:px-4 sm:py-3 sm:text-sm sm:font-medium"
+      }
+    >
+      {children}
+    </button>
+  );
+}
+
+export function LinkButton({ children, onClick }: { children: ReactNode; onClick: () => void }) {
+  return (
+    <button
+      type="button"
+      onClick={onClick}
+      className="rounded-md border border-[#d6d6d6] px-2.5 py-1.5 text-[#333333] transition hover:bg-[#f3f3f3]"
+    >
+      {children}
+    </button>
+  );
+}
+
+export function ToggleChip({
+  children,
+  active,
+  onClick,
+}: {
+  children: ReactNode;
+  active: boolean;
+  onClick: () => void;
+}) {
+  return (
+    <button
+      type="button"
+      aria-pressed={active}
+      onClick={onClick}
+      className={
+        active
+          ? "min-h-9 rounded-md border border-[#111111] bg-[#111111] px-2.5 text-xs font-medium text-white disabled:opacity-60"
+          : "min-h-9 rounded-md border border-[#d6d6d6] bg-white px-2.5 text-xs font-medium text-[#333333] hover:bg-[#f3f3f3] disabled:opacity-60"
+      }
+    >
+      {children}
+    </button>
+  );
+}
+
+export function Tag({ children, guessed = false }: { children: ReactNode; guessed?: boolean }) {
+  return (
+    <span
+      className={
+        guessed
+          ? "rounded-md border border-dashed border-[#9a9a9a] bg-white px-2.5 py-1.5 text-xs font-medium text-[#777777]"
+          : "rounded-md border border-[#d6d6d6] bg-[#f5f5f5] px-2.5 py-1.5 text-xs font-medium text-[#333333]"
+      }
+      title={guessed ? "Placeholder value" : undefined}
+    >
+      {children}
+      {guessed ? " (guessed)" : ""}
+    </span>
+  );
+}
+
+export function GuessedMark() {
+  return (
+    <span className="ml-2 inline-block rounded border border-dashed border-[#9a9a9a] px-1.5 py-0.5 align-middle text-[10px] font-medium uppercase text-[#777777]">
+      Guessed
+    </span>
+  );
+}
+
+export function RecipeSection({
+  title,
+  guessed = false,
+  children,
+}: {
+  title: string;
+  guessed?: boolean;
+  children: ReactNode;
+}) {
+  return (
+    <section className="border-b border-[#e6e6e6] p-4 last:border-b-0 sm:p-5">
+      <h3 className="mb-4 text-base font-semibold uppercase text-[#777777] sm:text-sm">
+        {title}
+        {guessed && <GuessedMark />}
+      </h3>
+      {children}
+    </section>
+  );
+}
@@ -0,0 +1,29 @@
+import { Timestamp } from "firebase-admin/firestore";
+import { getAdminDb } from "../firebase-admin";
+import { AnalysisCache } from "./types";
+
+/**
+ * Entries are stored as JSON text, which Firestore keeps as-is instead of
+ * rejecting undefined fields. Set a TTL policy on `expiresAt` to have
+ * Firestore delete expired entries; until then they are ignored on read.
+ */
+export function createFirestoreAnalysisCache(options: { collection: string }): AnalysisCache {
+  const doc = (key: string) => getAdminDb().collection(options.collection).doc(key);
+
+  return {
+    id: "firestore",
+    async get(key) {
+      const snap = await doc(key).get();
+      const data = snap.data();
+      if (!data || typeof data.value !== "string") return null;
+      const expiresAt = data.expiresAt instanceof Timestamp ? data.expiresAt.toMillis() : 0;
+      return expiresAt > Date.now() ? JSON.parse(data.value) : null;
+    },
+    async set(key, value, ttlMs) {
+      await doc(key).set({
+        value: JSON.stringify(value),
+        expiresAt: Timestamp.fromMillis(Date.now() + ttlMs),
+      });
+    },
+  };
+}
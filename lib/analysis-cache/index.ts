@@ -0,0 +1,43 @@
+import { createFirestoreAnalysisCache } from "./firestore";
+import { createLocalAnalysisCache } from "./local";
+import { createMemoryAnalysisCache } from "./memory";
+import { AnalysisCache } from "./types";
+
+export type { AnalysisCache } from "./types";
+
+const DEFAULT_TTL_SECONDS = 7 * 24 * 60 * 60;
+
+let memoryCache: AnalysisCache | null = null;
+
+/**
+ * Picks where analysis results are cached from ANALYSIS_CACHE ("memory" by
+ * default, an LRU of ANALYSIS_CACHE_MAX_ENTRIES; "local" for files under
+ * ANALYSIS_CACHE_DIR or `.data/analysis-cache`; "firestore"; "off" for none).
+ */
+export function getAnalysisCache(): AnalysisCache | null {
+  const cacheId = (process.env.ANALYSIS_CACHE?.trim() || "memory").toLowerCase();
+
+  switch (cacheId) {
+    case "memory":
+      memoryCache ??= createMemoryAnalysisCache({
+        maxEntries: Number(process.env.ANALYSIS_CACHE_MAX_ENTRIES) || 200,
+      });
+      return memoryCache;
+    case "local":
+      return createLocalAnalysisCache({
+        directory: process.env.ANALYSIS_CACHE_DIR?.trim() || ".data/analysis-cache",
+      });
+    case "firestore":
+      return createFirestoreAnalysisCache({ collection: "analysis-cache" });
+    case "off":
+      return null;
+    default:
+      throw new Error(`Unknown ANALYSIS_CACHE "${cacheId}". Use memory, local, firestore, or off.`);
+  }
+}
+
+/** How long a cached result is served, from ANALYSIS_CACHE_TTL_SECONDS (seven days by default). */
+export function getAnalysisCacheTtlMs() {
+  const seconds = Number(process.env.ANALYSIS_CACHE_TTL_SECONDS);
+  return (Number.isFinite(seconds) && seconds > 0 ? seconds : DEFAULT_TTL_SECONDS) * 1000;
+}
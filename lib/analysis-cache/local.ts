@@ -0,0 +1,33 @@
+import { mkdir, readFile, rm, writeFile } from "node:fs/promises";
+import path from "node:path";
+import { AnalysisCache } from "./types";
+
+/**
+ * One JSON file per entry under `directory`. Keys are hex digests, so they are
+ * safe file names. Expired files are removed when they are next read.
+ */
+export function createLocalAnalysisCache(options: { directory: string }): AnalysisCache {
+  const directory = path.resolve(options.directory);
+  const file = (key: string) => path.join(directory, `${key}.json`);
+
+  return {
+    id: "local",
+    async get(key) {
+      let text: string;
+      try {
+        text = await readFile(file(key), "utf8");
+      } catch (error) {
+        if ((error as NodeJS.ErrnoException).code === "ENOENT") return null;
+        throw error;
+      }
+      const entry = JSON.parse(text) as { value: unknown; expiresAt: number };
+      if (entry.expiresAt > Date.now()) return entry.value;
+      await rm(file(key), { force: true });
+      return null;
+    },
+    async set(key, value, ttlMs) {
+      await mkdir(directory, { recursive: true });
+      await writeFile(file(key), JSON.stringify({ value, expiresAt: Date.now() + ttlMs }));
+    },
+  };
+}
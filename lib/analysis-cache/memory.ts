@@ -0,0 +1,31 @@
+import { AnalysisCache } from "./types";
+
+/**
+ * Least-recently-used cache in process memory, for development. A Map keeps
+ * insertion order, so reading an entry moves it to the end and eviction takes
+ * from the front.
+ */
+export function createMemoryAnalysisCache(options: { maxEntries: number }): AnalysisCache {
+  const entries = new Map<string, { value: unknown; expiresAt: number }>();
+
+  return {
+    id: "memory",
+    async get(key) {
+      const entry = entries.get(key);
+      if (!entry) return null;
+      entries.delete(key);
+      if (entry.expiresAt <= Date.now()) return null;
+      entries.set(key, entry);
+      return structuredClone(entry.value);
+    },
+    async set(key, value, ttlMs) {
+      entries.delete(key);
+      entries.set(key, { value: structuredClone(value), expiresAt: Date.now() + ttlMs });
+      while (entries.size > options.maxEntries) {
+        const oldest = entries.keys().next().value;
+        if (oldest === undefined) break;
+        entries.delete(oldest);
+      }
+    },
+  };
+}
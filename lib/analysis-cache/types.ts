@@ -0,0 +1,8 @@
+export type AnalysisCache = {
+  /** Stable identifier used in logs and the ANALYSIS_CACHE env var. */
+  id: string;
+  /** Resolves to null on a miss or once the entry has expired. */
+  get(key: string): Promise<unknown | null>;
+  /** `value` must survive a JSON round trip. */
+  set(key: string, value: unknown, ttlMs: number): Promise<void>;
+};
@@ -0,0 +1,36 @@
+import { getPhotoStorage } from "../photo-storage";
+import { createMemoryAnalysisImageStore } from "./memory";
+import { createPhotoStorageAnalysisImageStore } from "./photo-storage";
+import { AnalysisImageStore } from "./types";
+
+export type { AnalysisImage, AnalysisImageStore } from "./types";
+
+/** Larger photos are not kept; picking another dish then uploads them again. */
+export const MAX_ANALYSIS_IMAGE_BYTES = 1_500_000;
+/** How long photos stay available for picking another dish. */
+export const ANALYSIS_IMAGE_TTL_MS = 24 * 60 * 60 * 1000;
+
+let memoryStore: AnalysisImageStore | null = null;
+
+/**
+ * Picks where analyzed photos are kept for reuse from ANALYSIS_IMAGES
+ * ("memory" by default, an LRU of ANALYSIS_IMAGES_MAX_ENTRIES photos;
+ * "photo-storage" for the PHOTO_STORAGE backend; "off" for none).
+ */
+export function getAnalysisImageStore(): AnalysisImageStore | null {
+  const storeId = (process.env.ANALYSIS_IMAGES?.trim() || "memory").toLowerCase();
+
+  switch (storeId) {
+    case "memory":
+      memoryStore ??= createMemoryAnalysisImageStore({
+        maxEntries: Number(process.env.ANALYSIS_IMAGES_MAX_ENTRIES) || 40,
+      });
+      return memoryStore;
+    case "photo-storage":
+      return createPhotoStorageAnalysisImageStore(getPhotoStorage());
+    case "off":
+      return null;
+    default:
+      throw new Error(`Unknown ANALYSIS_IMAGES "${storeId}". Use memory, photo-storage, or off.`);
+  }
+}
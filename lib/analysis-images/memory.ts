@@ -0,0 +1,31 @@
+import { AnalysisImage, AnalysisImageStore } from "./types";
+
+/**
+ * Least-recently-used store in process memory, for development and single
+ * instances. Photos are kept apart from the analysis cache so they never push
+ * results out, and `maxEntries` bounds the memory they take.
+ */
+export function createMemoryAnalysisImageStore(options: { maxEntries: number }): AnalysisImageStore {
+  const entries = new Map<string, { image: AnalysisImage; expiresAt: number }>();
+
+  return {
+    id: "memory",
+    async get(imageId) {
+      const entry = entries.get(imageId);
+      if (!entry) return null;
+      entries.delete(imageId);
+      if (entry.expiresAt <= Date.now()) return null;
+      entries.set(imageId, entry);
+      return structuredClone(entry.image);
+    },
+    async set(imageId, image, ttlMs) {
+      entries.delete(imageId);
+      entries.set(imageId, { image: structuredClone(image), expiresAt: Date.now() + ttlMs });
+      while (entries.size > options.maxEntries) {
+        const oldest = entries.keys().next().value;
+        if (oldest === undefined) break;
+        entries.delete(oldest);
+      }
+    },
+  };
+}
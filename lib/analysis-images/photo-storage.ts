@@ -0,0 +1,40 @@
+import { PhotoStorage } from "../photo-storage";
+import { PhotoQuality } from "../photo-quality";
+import { AnalysisImageStore } from "./types";
+
+/**
+ * Keeps each photo as `analysis-<id>.jpg` in photo storage, next to a small
+ * `analysis-<id>.json` with its quality scores and expiry. These keys never
+ * match the public photo key format, so `/api/photos` does not serve them.
+ * Expired photos are deleted when next read; a lifecycle rule on the
+ * `analysis-` prefix cleans up the ones that are never read again.
+ */
+export function createPhotoStorageAnalysisImageStore(storage: PhotoStorage): AnalysisImageStore {
+  const photoKey = (imageId: string) => `analysis-${imageId}.jpg`;
+  const metaKey = (imageId: string) => `analysis-${imageId}.json`;
+
+  return {
+    id: "photo-storage",
+    async get(imageId) {
+      const meta = await storage.get(metaKey(imageId));
+      if (!meta) return null;
+      const { quality, expiresAt } = JSON.parse(new TextDecoder().decode(meta.data)) as {
+        quality: PhotoQuality;
+        expiresAt: number;
+      };
+      if (!(expiresAt > Date.now())) {
+        await Promise.all([storage.delete(photoKey(imageId)), storage.delete(metaKey(imageId))]);
+        return null;
+      }
+      const photo = await storage.get(photoKey(imageId));
+      return photo ? { data: photo.data, quality } : null;
+    },
+    async set(imageId, image, ttlMs) {
+      await storage.put(photoKey(imageId), { data: image.data, contentType: "image/jpeg" });
+      await storage.put(metaKey(imageId), {
+        data: new TextEncoder().encode(JSON.stringify({ quality: image.quality, expiresAt: Date.now() + ttlMs })),
+        contentType: "application/json",
+      });
+    },
+  };
+}
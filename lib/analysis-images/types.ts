@@ -0,0 +1,15 @@
+import { PhotoQuality } from "../photo-quality";
+
+export type AnalysisImage = {
+  /** The normalized JPEG that was sent to the model. */
+  data: Uint8Array;
+  quality: PhotoQuality;
+};
+
+export type AnalysisImageStore = {
+  /** Stable identifier used in logs and the ANALYSIS_IMAGES env var. */
+  id: string;
+  /** Resolves to null when nothing is stored under `imageId` or it has expired. */
+  get(imageId: string): Promise<AnalysisImage | null>;
+  set(imageId: string, image: AnalysisImage, ttlMs: number): Promise<void>;
+};
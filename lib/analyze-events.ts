@@ -0,0 +1,17 @@
+import type { PantryIdeas } from "./pantry";
+import type { PhotoQuality } from "./photo-quality";
+import type { Recipe, RecipeApiResponse } from "./recipe";
+
+/**
+ * Progress events sent by `/api/analyze` when the client asks for
+ * `text/event-stream`. The event name on the wire is the `type` field.
+ */
+export type AnalyzeEvent =
+  | { type: "received"; images: Array<{ bytes: number; mimeType: string; quality: PhotoQuality }> }
+  | { type: "model"; attempt: number; pass: "initial" | "repair"; provider: string }
+  | { type: "retry"; attempt: number; maxRetries: number; delayMs: number; status: number | null }
+  | { type: "partial"; recipe: Partial<Recipe> }
+  | { type: "repair"; issues: string[] }
+  | { type: "done"; recipe: RecipeApiResponse }
+  | { type: "ideas"; ideas: PantryIdeas }
+  | { type: "error"; error: string; status: number };
@@ -0,0 +1,41 @@
+import { getAuthUser } from "./auth";
+import { checkRateLimit, getClientIp, getRateLimitStore, RateLimit, RateLimitResult } from "./rate-limit";
+
+/**
+ * The per-client limits shared by the routes that run photos through the
+ * server: `/api/analyze`, which spends model quota, and `/api/images/normalize`,
+ * which spends CPU on decoding. Each route counts in its own buckets.
+ */
+
+const MINUTE_MS = 60_000;
+const DAY_MS = 24 * 60 * MINUTE_MS;
+
+export type AnalyzeRateLimitScope = "analyze" | "normalize";
+
+function readLimit(name: string, fallback: number) {
+  const value = process.env[name]?.trim();
+  if (!value) return fallback;
+  const parsed = Number(value);
+  return Number.isInteger(parsed) && parsed >= 0 ? parsed : fallback;
+}
+
+/**
+ * Requests allowed per client, from ANALYZE_RATE_LIMIT_PER_MINUTE (default 6)
+ * and ANALYZE_RATE_LIMIT_PER_DAY (default 100). Zero turns a limit off.
+ */
+export function getAnalyzeRateLimits(): RateLimit[] {
+  return [
+    { max: readLimit("ANALYZE_RATE_LIMIT_PER_MINUTE", 6), windowMs: MINUTE_MS },
+    { max: readLimit("ANALYZE_RATE_LIMIT_PER_DAY", 100), windowMs: DAY_MS },
+  ].filter((limit) => limit.max > 0);
+}
+
+/** One bucket for the IP address and, when the request is signed in, one for the account. */
+async function getRateLimitKeys(req: Request, scope: AnalyzeRateLimitScope) {
+  const user = req.headers.has("authorization") ? await getAuthUser(req) : null;
+  return [`${scope}:ip:${getClientIp(req)}`, ...(user ? [`${scope}:user:${user.uid}`] : [])];
+}
+
+export async function checkAnalyzeRateLimit(req: Request, scope: AnalyzeRateLimitScope): Promise<RateLimitResult> {
+  return checkRateLimit(getRateLimitStore(), await getRateLimitKeys(req, scope), getAnalyzeRateLimits());
+}
@@ -0,0 +1,122 @@
+/**
+ * Browser side of sign-in, using the Firebase Auth REST API directly: every
+ * visitor gets an anonymous account on first use, and the session (ID token
+ * plus refresh token) is kept in localStorage. `authFetch` attaches a fresh ID
+ * token to API calls.
+ */
+
+const AUTH_STORAGE_KEY = "chef-cam-auth";
+/** Before accounts, data was owned by this random id; see `claimLegacyDeviceData`. */
+const LEGACY_DEVICE_ID_STORAGE_KEY = "chef-cam-device-id";
+/** Refresh a little early so a token never expires in flight. */
+const EXPIRY_MARGIN_MS = 60_000;
+
+type AuthSession = {
+  uid: string;
+  idToken: string;
+  refreshToken: string;
+  expiresAt: number;
+};
+
+let pendingSession: Promise<AuthSession> | null = null;
+
+function getApiKey() {
+  const apiKey = process.env.NEXT_PUBLIC_FIREBASE_API_KEY?.trim();
+  if (!apiKey) throw new Error("Sign-in is not configured (missing NEXT_PUBLIC_FIREBASE_API_KEY).");
+  return apiKey;
+}
+
+function readSession(): AuthSession | null {
+  try {
+    const stored = JSON.parse(window.localStorage.getItem(AUTH_STORAGE_KEY) || "null");
+    if (!stored || typeof stored.idToken !== "string" || typeof stored.refreshToken !== "string") return null;
+    return stored as AuthSession;
+  } catch {
+    return null;
+  }
+}
+
+function storeSession(session: AuthSession) {
+  window.localStorage.setItem(AUTH_STORAGE_KEY, JSON.stringify(session));
+  return session;
+}
+
+async function signInAnonymously(): Promise<AuthSession> {
+  const response = await fetch(`https://identitytoolkit.googleapis.com/v1/accounts:signUp?key=${getApiKey()}`, {
+    method: "POST",
+    headers: { "Content-Type": "application/json" },
+    body: JSON.stringify({ returnSecureToken: true }),
+  });
+  const payload = await response.json().catch(() => null);
+  if (!response.ok || !payload?.idToken) {
+    throw new Error(payload?.error?.message ? `Sign-in failed: ${payload.error.message}` : "Sign-in failed.");
+  }
+  return storeSession({
+    uid: payload.localId,
+    idToken: payload.idToken,
+    refreshToken: payload.refreshToken,
+    expiresAt: Date.now() + Number(payload.expiresIn) * 1000,
+  });
+}
+
+async function refreshSession(session: AuthSession): Promise<AuthSession> {
+  const response = await fetch(`https://securetoken.googleapis.com/v1/token?key=${getApiKey()}`, {
+    method: "POST",
+    headers: { "Content-Type": "application/x-www-form-urlencoded" },
+    body: new URLSearchParams({ grant_type: "refresh_token", refresh_token: session.refreshToken }),
+  });
+  const payload = await response.json().catch(() => null);
+  if (!response.ok || !payload?.id_token) {
+    // A rejected refresh token means the account is gone; the next call starts a new one.
+    if (response.status === 400) window.localStorage.removeItem(AUTH_STORAGE_KEY);
+    throw new Error("Your session expired. Try again to sign in.");
+  }
+  return storeSession({
+    uid: payload.user_id,
+    idToken: payload.id_token,
+    refreshToken: payload.refresh_token,
+    expiresAt: Date.now() + Number(payload.expires_in) * 1000,
+  });
+}
+
+/** A valid ID token, signing in or refreshing first when needed. Concurrent callers share one request. */
+export async function getIdToken() {
+  const session = readSession();
+  if (session && session.expiresAt - EXPIRY_MARGIN_MS > Date.now()) return session.idToken;
+
+  pendingSession ??= (session ? refreshSession(session) : signInAnonymously()).finally(() => {
+    pendingSession = null;
+  });
+  return (await pendingSession).idToken;
+}
+
+export async function authFetch(input: string, init: RequestInit = {}) {
+  const headers = new Headers(init.headers);
+  headers.set("Authorization", `Bearer ${await getIdToken()}`);
+  return fetch(input, { ...init, headers });
+}
+
+/**
+ * One-time migration: hands recipes, meal plans and share links saved under
+ * this browser's old device id to the signed-in account, then forgets the id.
+ * The id is also forgotten when the server refuses the claim for good (409
+ * when it was claimed already or the account has data, 410 after the deadline).
+ */
+export async function claimLegacyDeviceData() {
+  const deviceId = window.localStorage.getItem(LEGACY_DEVICE_ID_STORAGE_KEY);
+  if (!deviceId) return;
+
+  const response = await authFetch("/api/account/claim", {
+    method: "POST",
+    headers: { "Content-Type": "application/json" },
+    body: JSON.stringify({ deviceId }),
+  });
+  if (response.status === 409 || response.status === 410) {
+    const payload = await response.json().catch(() => null);
+    console.warn("Saved data was not moved to this account:", payload?.error);
+  } else if (!response.ok) {
+    const payload = await response.json().catch(() => null);
+    throw new Error(payload?.error || "Could not move your saved recipes to your account.");
+  }
+  window.localStorage.removeItem(LEGACY_DEVICE_ID_STORAGE_KEY);
+}
@@ -0,0 +1,29 @@
+import { getAdminAuth } from "./firebase-admin";
+
+/**
+ * Server side of sign-in: API routes read the Firebase ID token from the
+ * `Authorization: Bearer` header and use the verified uid as the owner of
+ * everything they read or write. Clients never choose the owner themselves.
+ */
+
+export type AuthUser = {
+  uid: string;
+  /** Anonymous accounts are the default; they can be linked to a provider later. */
+  anonymous: boolean;
+};
+
+/** Null when the token is missing, malformed, expired or revoked. */
+export async function getAuthUser(req: Request): Promise<AuthUser | null> {
+  const token = /^Bearer\s+(\S+)$/i.exec(req.headers.get("authorization") ?? "")?.[1];
+  if (!token) return null;
+
+  const auth = getAdminAuth();
+  try {
+    const decoded = await auth.verifyIdToken(token);
+    return { uid: decoded.uid, anonymous: decoded.firebase?.sign_in_provider === "anonymous" };
+  } catch (error) {
+    const code = (error as { code?: unknown }).code;
+    if (typeof code === "string" && code.startsWith("auth/")) return null;
+    throw error;
+  }
+}
@@ -0,0 +1,61 @@
+import type { Ingredient } from "./recipe";
+
+/**
+ * Helpers for the full-screen cook mode: working out which ingredients each
+ * instruction uses, so the cook sees amounts without scrolling back up.
+ */
+
+/** Preparation and size words that say nothing about which ingredient is meant. */
+const DESCRIPTOR_WORDS = new Set([
+  "fresh",
+  "large",
+  "small",
+  "medium",
+  "whole",
+  "ground",
+  "crushed",
+  "chopped",
+  "diced",
+  "sliced",
+  "minced",
+  "grated",
+  "beaten",
+  "cooked",
+  "dried",
+  "canned",
+  "frozen",
+  "extra",
+  "virgin",
+  "plain",
+  "thinly",
+  "finely",
+  "roughly",
+  "halved",
+  "quartered",
+  "crumbled",
+  "softened",
+  "melted",
+  "optional",
+  "and",
+  "for",
+  "the",
+  "with",
+]);
+
+/** Stems of the words that name an ingredient: "eggs, beaten" → ["egg"]. */
+export function ingredientStems(item: string) {
+  return item
+    .toLowerCase()
+    .split(/[,(]/)[0]
+    .split(/[^a-z]+/)
+    .filter((word) => word.length > 2 && !DESCRIPTOR_WORDS.has(word))
+    .map((word) => word.replace(/(?:es|s)$/, ""));
+}
+
+/** Ingredients mentioned in one instruction, in recipe order. */
+export function findStepIngredients(instruction: string, ingredients: Ingredient[]): Ingredient[] {
+  const text = instruction.toLowerCase();
+  return ingredients.filter((ingredient) =>
+    ingredientStems(ingredient.item).some((stem) => new RegExp(`\\b${stem}`).test(text))
+  );
+}
@@ -0,0 +1,200 @@
+/**
+ * Dietary preferences and allergens the cook can ask `/api/analyze` to respect,
+ * plus keyword-based detection used to double-check the model's allergen flags.
+ */
+
+export type DietaryPreference =
+  | "vegetarian"
+  | "vegan"
+  | "pescatarian"
+  | "gluten-free"
+  | "dairy-free"
+  | "nut-free"
+  | "halal"
+  | "kosher"
+  | "low-carb";
+
+export type Allergen =
+  | "gluten"
+  | "dairy"
+  | "egg"
+  | "peanut"
+  | "tree-nut"
+  | "soy"
+  | "fish"
+  | "shellfish"
+  | "sesame"
+  | "mustard";
+
+export type DietaryConstraints = {
+  diets: DietaryPreference[];
+  allergens: Allergen[];
+};
+
+export const DIETARY_PREFERENCES: Array<{ id: DietaryPreference; label: string }> = [
+  { id: "vegetarian", label: "Vegetarian" },
+  { id: "vegan", label: "Vegan" },
+  { id: "pescatarian", label: "Pescatarian" },
+  { id: "gluten-free", label: "Gluten-free" },
+  { id: "dairy-free", label: "Dairy-free" },
+  { id: "nut-free", label: "Nut-free" },
+  { id: "halal", label: "Halal" },
+  { id: "kosher", label: "Kosher" },
+  { id: "low-carb", label: "Low-carb" },
+];
+
+export const ALLERGENS: Array<{ id: Allergen; label: string }> = [
+  { id: "gluten", label: "Gluten" },
+  { id: "dairy", label: "Dairy" },
+  { id: "egg", label: "Egg" },
+  { id: "peanut", label: "Peanut" },
+  { id: "tree-nut", label: "Tree nuts" },
+  { id: "soy", label: "Soy" },
+  { id: "fish", label: "Fish" },
+  { id: "shellfish", label: "Shellfish" },
+  { id: "sesame", label: "Sesame" },
+  { id: "mustard", label: "Mustard" },
+];
+
+export const EMPTY_DIETARY_CONSTRAINTS: DietaryConstraints = { diets: [], allergens: [] };
+
+/** Words before a dairy keyword that make it a plant-based stand-in ("oat milk", "cashew cream"). */
+const PLANT_BASED = "(?<!(?:coconut|cashew|oat|rice|almond|soy|soya) )";
+
+const ALLERGEN_KEYWORDS: Record<Allergen, string[]> = {
+  gluten: ["(?<!(?:rice|almond|coconut|chickpea|corn|buckwheat|tapioca|potato) )flour", "bread", "panko", "breadcrumb", "pasta", "(?<!rice |glass |soba )noodle", "wheat", "barley", "rye", "couscous", "dough", "soy sauce", "curry roux", "tortilla", "pita", "cracker"],
+  dairy: [`${PLANT_BASED}milk`, "buttermilk", "(?<!nut |peanut |almond |cocoa |shea )butter", `${PLANT_BASED}cheese`, `${PLANT_BASED}cream(?! of tartar)`, `${PLANT_BASED}yogh?urt`, "ghee", "feta", "mozzarella", "parmesan", "ricotta"],
+  egg: ["egg(?!plant)", "mayonnaise", "mayo", "aioli"],
+  peanut: ["peanut"],
+  "tree-nut": ["almond", "walnut", "cashew", "pecan", "pistachio", "hazelnut", "macadamia", "pine nut"],
+  soy: ["soya?", "tofu", "edamame", "miso", "tempeh"],
+  fish: ["fish", "salmon", "tuna", "cod", "anchov(?:y|ies)", "sardine", "mackerel", "trout", "bonito", "dashi"],
+  shellfish: ["shrimp", "prawn", "crab", "lobster", "mussel", "clam", "oyster", "scallop", "squid"],
+  sesame: ["sesame", "tahini"],
+  mustard: ["mustard"],
+};
+
+/**
+ * Qualifiers that mark an ingredient as a substitute for the allergen, on top
+ * of "<allergen>-free". They cancel any keyword match for that allergen.
+ */
+const FREE_FROM_QUALIFIERS: Partial<Record<Allergen, string[]>> = {
+  gluten: ["wheat-free"],
+  dairy: ["non-dairy", "lactose-free", "milk-free", "vegan", "plant-based"],
+  egg: ["eggless", "vegan", "plant-based"],
+  peanut: ["nut-free"],
+  "tree-nut": ["nut-free"],
+  fish: ["vegan", "plant-based"],
+  shellfish: ["vegan", "plant-based"],
+};
+
+const MEAT_KEYWORDS = ["chicken", "beef", "pork", "lamb", "bacon", "ham", "sausage", "turkey", "duck", "veal", "chorizo", "prosciutto", "pancetta", "mince", "steak", "gelatin"];
+const PORK_KEYWORDS = ["pork", "bacon", "ham", "chorizo", "prosciutto", "pancetta", "lard"];
+const ALCOHOL_KEYWORDS = ["wine", "beer", "rum", "vodka", "brandy", "sake", "mirin", "whisky", "bourbon"];
+const ANIMAL_PRODUCT_KEYWORDS = ["honey", "gelatin"];
+
+const DIET_ALLERGENS: Partial<Record<DietaryPreference, Allergen[]>> = {
+  "gluten-free": ["gluten"],
+  "dairy-free": ["dairy"],
+  "nut-free": ["peanut", "tree-nut"],
+  vegan: ["dairy", "egg", "fish", "shellfish"],
+  vegetarian: ["fish", "shellfish"],
+  kosher: ["shellfish"],
+};
+
+const DIET_KEYWORDS: Partial<Record<DietaryPreference, string[]>> = {
+  vegetarian: MEAT_KEYWORDS,
+  vegan: [...MEAT_KEYWORDS, ...ANIMAL_PRODUCT_KEYWORDS],
+  pescatarian: MEAT_KEYWORDS,
+  halal: [...PORK_KEYWORDS, ...ALCOHOL_KEYWORDS],
+  kosher: PORK_KEYWORDS,
+};
+
+/** Keywords are regex fragments matched as whole words, plurals included ("butter" is not "butternut"). */
+function matchesKeyword(item: string, keywords: string[]) {
+  const name = item.toLowerCase();
+  return keywords.some((keyword) => new RegExp(`\\b${keyword}(?:e?s)?\\b`).test(name));
+}
+
+function isFreeFrom(item: string, allergen: Allergen) {
+  const name = item.toLowerCase();
+  return [`${allergen}-free`, ...(FREE_FROM_QUALIFIERS[allergen] ?? [])].some((qualifier) => name.includes(qualifier));
+}
+
+export function isAllergen(value: unknown): value is Allergen {
+  return ALLERGENS.some((allergen) => allergen.id === value);
+}
+
+export function isDietaryPreference(value: unknown): value is DietaryPreference {
+  return DIETARY_PREFERENCES.some((diet) => diet.id === value);
+}
+
+export function getAllergenLabel(allergen: Allergen) {
+  return ALLERGENS.find((entry) => entry.id === allergen)?.label ?? allergen;
+}
+
+export function getDietaryLabel(diet: DietaryPreference) {
+  return DIETARY_PREFERENCES.find((entry) => entry.id === diet)?.label ?? diet;
+}
+
+/** Keyword guess at the allergens in an ingredient name ("unsalted butter" → dairy). */
+export function detectAllergens(item: string): Allergen[] {
+  return ALLERGENS.map((allergen) => allergen.id).filter(
+    (allergen) => !isFreeFrom(item, allergen) && matchesKeyword(item, ALLERGEN_KEYWORDS[allergen])
+  );
+}
+
+/** Drops unknown values and duplicates from user-supplied lists. */
+export function normalizeDietaryConstraints(input: {
+  diets?: unknown[];
+  allergens?: unknown[];
+}): DietaryConstraints {
+  return {
+    diets: [...new Set((input.diets ?? []).filter(isDietaryPreference))],
+    allergens: [...new Set((input.allergens ?? []).filter(isAllergen))],
+  };
+}
+
+export function hasDietaryConstraints(constraints: DietaryConstraints | null | undefined) {
+  return Boolean(constraints && (constraints.diets.length > 0 || constraints.allergens.length > 0));
+}
+
+/** Every allergen the cook must avoid, including those implied by their diets. */
+export function getAvoidedAllergens(constraints: DietaryConstraints): Allergen[] {
+  return [
+    ...new Set([
+      ...constraints.allergens,
+      ...constraints.diets.flatMap((diet) => DIET_ALLERGENS[diet] ?? []),
+    ]),
+  ];
+}
+
+/**
+ * Lists ingredients that still break the constraints after generation, as
+ * human-readable warnings. The model is asked to adapt the recipe; this is the
+ * safety net for when it does not.
+ */
+export function findDietaryConflicts(
+  ingredients: Array<{ item: string; allergens: Allergen[] }>,
+  constraints: DietaryConstraints
+): string[] {
+  const avoided = new Set(getAvoidedAllergens(constraints));
+  const conflicts: string[] = [];
+
+  for (const ingredient of ingredients) {
+    const allergens = ingredient.allergens.filter((allergen) => avoided.has(allergen));
+    if (allergens.length > 0) {
+      conflicts.push(
+        `${ingredient.item} contains ${allergens.map(getAllergenLabel).join(", ").toLowerCase()}.`
+      );
+      continue;
+    }
+    const diet = constraints.diets.find((candidate) =>
+      matchesKeyword(ingredient.item, DIET_KEYWORDS[candidate] ?? [])
+    );
+    if (diet) {
+      conflicts.push(`${ingredient.item} is not ${getDietaryLabel(diet).toLowerCase()}.`);
+    }
+  }
+  return conflicts;
+}
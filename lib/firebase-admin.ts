@@ -1,5 +1,7 @@
 import { cert, getApps, initializeApp } from "firebase-admin/app";
+import { getAuth } from "firebase-admin/auth";
 import { getFirestore } from "firebase-admin/firestore";
+import { getStorage } from "firebase-admin/storage";
 
 function getFirebaseAdminApp() {
   if (getApps().length > 0) {
@@ -28,3 +30,15 @@ function getFirebaseAdminApp() {
 export function getAdminDb() {
   return getFirestore(getFirebaseAdminApp());
 }
+
+export function getAdminAuth() {
+  return getAuth(getFirebaseAdminApp());
+}
+
+export function getAdminBucket() {
+  const bucket = process.env.FIREBASE_STORAGE_BUCKET?.trim();
+  if (!bucket) {
+    throw new Error("Missing Firebase Storage env var: FIREBASE_STORAGE_BUCKET");
+  }
+  return getStorage(getFirebaseAdminApp()).bucket(bucket);
+}
@@ -0,0 +1,542 @@
+import { computeNutrition, formatNutritionValue } from "./nutrition";
+import { RecipeApiResponse } from "./recipe";
+
+/**
+ * Flash card templates are declarative: a page size plus, in order of
+ * preference, the layouts it may use. A layout lists the blocks on each page.
+ * `renderFlashCard` tries the layouts at decreasing text sizes and uses the
+ * first one where everything fits, so cards shrink text instead of cutting
+ * ingredients or steps.
+ */
+
+export type CardBlock =
+  | { type: "hero"; ratio: number }
+  | { type: "kicker" }
+  | { type: "title" }
+  | { type: "subtitle" }
+  | { type: "description" }
+  | { type: "meta"; columns: number }
+  | { type: "ingredients" }
+  | { type: "method" }
+  | { type: "plating" }
+  | { type: "columns"; left: CardBlock[]; right: CardBlock[] };
+
+export type CardTemplateId = "story" | "square" | "index" | "two-page";
+export type CardThemeId = "classic" | "bistro" | "midnight";
+
+export type CardTemplate = {
+  id: CardTemplateId;
+  label: string;
+  description: string;
+  width: number;
+  height: number;
+  padding: number;
+  /** Body text size at full scale, in pixels. */
+  baseSize: number;
+  /** Below this scale the text gets hard to read and the UI suggests another template. */
+  minScale: number;
+  /** Each layout is a list of pages, each page a list of blocks. */
+  layouts: CardBlock[][][];
+};
+
+export type CardTheme = {
+  id: CardThemeId;
+  label: string;
+  background: string;
+  ink: string;
+  muted: string;
+  rule: string;
+  chip: string;
+  headingFont: string;
+  bodyFont: string;
+};
+
+export type FlashCardSettings = { template: CardTemplateId; theme: CardThemeId };
+
+export const DEFAULT_FLASH_CARD_SETTINGS: FlashCardSettings = { template: "story", theme: "classic" };
+
+const title: CardBlock = { type: "title" };
+const kicker: CardBlock = { type: "kicker" };
+const description: CardBlock = { type: "description" };
+const ingredients: CardBlock = { type: "ingredients" };
+const method: CardBlock = { type: "method" };
+const hero = (ratio: number): CardBlock => ({ type: "hero", ratio });
+const meta = (columns: number): CardBlock => ({ type: "meta", columns });
+const columns = (left: CardBlock[], right: CardBlock[]): CardBlock => ({ type: "columns", left, right });
+
+export const CARD_TEMPLATES: CardTemplate[] = [
+  {
+    id: "story",
+    label: "Story 9:16",
+    description: "1080 × 1920 for stories and status updates",
+    width: 1080,
+    height: 1920,
+    padding: 84,
+    baseSize: 30,
+    minScale: 0.62,
+    layouts: [
+      [[hero(0.3), title, description, meta(3), ingredients, method]],
+      [[hero(0.2), title, description, meta(3), columns([ingredients], [method])]],
+      [[kicker, title, description, meta(3), columns([ingredients], [method])]],
+    ],
+  },
+  {
+    id: "square",
+    label: "Square 1:1",
+    description: "1080 × 1080 for Instagram posts",
+    width: 1080,
+    height: 1080,
+    padding: 64,
+    baseSize: 26,
+    minScale: 0.62,
+    layouts: [
+      [[hero(0.3), title, meta(3), columns([ingredients], [method])]],
+      [[kicker, title, meta(3), columns([ingredients], [method])]],
+    ],
+  },
+  {
+    id: "index",
+    label: "4 × 6 Index Card",
+    description: "Prints at 6 × 4 in (300 dpi)",
+    width: 1800,
+    height: 1200,
+    padding: 90,
+    baseSize: 32,
+    minScale: 0.6,
+    layouts: [
+      [[columns([hero(0.36), title, meta(2), ingredients], [method])]],
+      [[columns([kicker, title, description, meta(2), ingredients], [method])]],
+      [[kicker, title, meta(3), columns([ingredients], [method])]],
+    ],
+  },
+  {
+    id: "two-page",
+    label: "Two-Page Card",
+    description: "Front and back, 4 × 6 in, for long recipes",
+    width: 1200,
+    height: 1800,
+    padding: 90,
+    baseSize: 32,
+    minScale: 0.55,
+    layouts: [
+      [
+        [hero(0.32), title, description, meta(3), ingredients],
+        [{ type: "subtitle" }, method, { type: "plating" }],
+      ],
+      [
+        [kicker, title, description, meta(3), ingredients],
+        [{ type: "subtitle" }, method, { type: "plating" }],
+      ],
+    ],
+  },
+];
+
+export const CARD_THEMES: CardTheme[] = [
+  {
+    id: "classic",
+    label: "Classic",
+    background: "#ffffff",
+    ink: "#111111",
+    muted: "#555555",
+    rule: "#d6d6d6",
+    chip: "#f3f3f3",
+    headingFont: "Arial, sans-serif",
+    bodyFont: "Arial, sans-serif",
+  },
+  {
+    id: "bistro",
+    label: "Bistro",
+    background: "#f7f1e6",
+    ink: "#2b2118",
+    muted: "#6f5f4e",
+    rule: "#d9ccb8",
+    chip: "#efe5d3",
+    headingFont: "Georgia, 'Times New Roman', serif",
+    bodyFont: "Georgia, 'Times New Roman', serif",
+  },
+  {
+    id: "midnight",
+    label: "Midnight",
+    background: "#141414",
+    ink: "#f5f5f5",
+    muted: "#a8a8a8",
+    rule: "#3a3a3a",
+    chip: "#222222",
+    headingFont: "'Helvetica Neue', Arial, sans-serif",
+    bodyFont: "'Helvetica Neue', Arial, sans-serif",
+  },
+];
+
+export function getCardTemplate(id: CardTemplateId) {
+  return CARD_TEMPLATES.find((template) => template.id === id) ?? CARD_TEMPLATES[0];
+}
+
+export function getCardTheme(id: CardThemeId) {
+  return CARD_THEMES.find((theme) => theme.id === id) ?? CARD_THEMES[0];
+}
+
+export function normalizeFlashCardSettings(value: unknown): FlashCardSettings {
+  const settings = (value ?? {}) as Record<string, unknown>;
+  return {
+    template: CARD_TEMPLATES.some((template) => template.id === settings.template)
+      ? (settings.template as CardTemplateId)
+      : DEFAULT_FLASH_CARD_SETTINGS.template,
+    theme: CARD_THEMES.some((theme) => theme.id === settings.theme)
+      ? (settings.theme as CardThemeId)
+      : DEFAULT_FLASH_CARD_SETTINGS.theme,
+  };
+}
+
+type RenderContext = {
+  ctx: CanvasRenderingContext2D;
+  recipe: RecipeApiResponse;
+  theme: CardTheme;
+  photo: HTMLImageElement | null;
+  pageHeight: number;
+  /** Body text size for this attempt. */
+  size: number;
+  /** False while measuring: blocks report their height without painting. */
+  draw: boolean;
+};
+
+type TextStyle = { font: "heading" | "body"; weight: number; size: number; color: string; lineHeight: number };
+
+function setFont(context: RenderContext, style: TextStyle) {
+  const family = style.font === "heading" ? context.theme.headingFont : context.theme.bodyFont;
+  context.ctx.font = `${style.weight} ${Math.round(style.size)}px ${family}`;
+}
+
+/** Word wrap with no line limit; words wider than a line are broken. */
+function wrapLines(ctx: CanvasRenderingContext2D, text: string, maxWidth: number) {
+  const lines: string[] = [];
+  let line = "";
+  for (const word of text.split(/\s+/).filter(Boolean)) {
+    const candidate = line ? `${line} ${word}` : word;
+    if (ctx.measureText(candidate).width <= maxWidth) {
+      line = candidate;
+      continue;
+    }
+    if (line) lines.push(line);
+    line = "";
+    for (const char of word) {
+      if (line && ctx.measureText(`${line}${char}`).width > maxWidth) {
+        lines.push(line);
+        line = char;
+      } else {
+        line = `${line}${char}`;
+      }
+    }
+  }
+  if (line) lines.push(line);
+  return lines;
+}
+
+/** Paints (or measures) wrapped text and returns the y below it. */
+function textBlock(context: RenderContext, text: string, x: number, y: number, width: number, style: TextStyle) {
+  setFont(context, style);
+  const lines = wrapLines(context.ctx, text, width);
+  if (context.draw) {
+    context.ctx.fillStyle = style.color;
+    lines.forEach((line, index) => context.ctx.fillText(line, x, y + index * style.lineHeight));
+  }
+  return y + lines.length * style.lineHeight;
+}
+
+/** A list whose markers sit in their own column so wrapped lines stay indented. */
+function listBlock(
+  context: RenderContext,
+  heading: string,
+  items: Array<{ marker: string; text: string }>,
+  x: number,
+  y: number,
+  width: number
+) {
+  const { size, theme } = context;
+  y = textBlock(context, heading, x, y, width, {
+    font: "heading",
+    weight: 700,
+    size: size * 1.05,
+    color: theme.ink,
+    lineHeight: size * 1.4,
+  });
+  if (context.draw) {
+    context.ctx.fillStyle = theme.rule;
+    context.ctx.fillRect(x, y, width, Math.max(1, size * 0.07));
+  }
+  y += size * 0.6;
+
+  const body: TextStyle = { font: "body", weight: 400, size, color: theme.ink, lineHeight: size * 1.35 };
+  setFont(context, { ...body, weight: 700 });
+  const markerWidth = Math.max(...items.map((item) => context.ctx.measureText(item.marker).width), 0) + size * 0.6;
+  for (const item of items) {
+    if (context.draw) {
+      setFont(context, { ...body, weight: 700 });
+      context.ctx.fillStyle = theme.muted;
+      context.ctx.fillText(item.marker, x, y);
+    }
+    y = textBlock(context, item.text, x + markerWidth, y, width - markerWidth, body) + size * 0.3;
+  }
+  return y;
+}
+
+function metaValues(recipe: RecipeApiResponse) {
+  return [
+    recipe.cuisine,
+    recipe.difficulty,
+    `Serves ${recipe.servings}`,
+    `Prep ${recipe.prepTime}`,
+    `Cook ${recipe.cookTime}`,
+    formatNutritionValue("kcal", computeNutrition(recipe).perServing.kcal),
+  ];
+}
+
+function metaBlock(context: RenderContext, count: number, x: number, y: number, width: number) {
+  const { size, theme } = context;
+  const gap = size * 0.4;
+  const padding = size * 0.5;
+  const cellWidth = (width - gap * (count - 1)) / count;
+  const style: TextStyle = { font: "body", weight: 600, size: size * 0.85, color: theme.ink, lineHeight: size * 1.1 };
+  setFont(context, style);
+  const values = metaValues(context.recipe);
+
+  for (let start = 0; start < values.length; start += count) {
+    const row = values.slice(start, start + count);
+    const rowLines = row.map((value) => wrapLines(context.ctx, value, cellWidth - padding * 2));
+    const rowHeight = Math.max(...rowLines.map((lines) => lines.length)) * style.lineHeight + padding * 2;
+    if (context.draw) {
+      row.forEach((_, index) => {
+        const cellX = x + index * (cellWidth + gap);
+        context.ctx.fillStyle = theme.chip;
+        context.ctx.fillRect(cellX, y, cellWidth, rowHeight);
+        context.ctx.fillStyle = theme.ink;
+        rowLines[index].forEach((line, lineIndex) =>
+          context.ctx.fillText(line, cellX + padding, y + padding + lineIndex * style.lineHeight)
+        );
+      });
+    }
+    y += rowHeight + gap;
+  }
+  return y - gap;
+}
+
+function heroBlock(context: RenderContext, ratio: number, x: number, y: number, width: number) {
+  const { photo } = context;
+  if (!photo) return y;
+  const height = context.pageHeight * ratio;
+  if (context.draw) {
+    const scale = Math.max(width / photo.naturalWidth, height / photo.naturalHeight);
+    const sourceWidth = width / scale;
+    const sourceHeight = height / scale;
+    context.ctx.drawImage(
+      photo,
+      (photo.naturalWidth - sourceWidth) / 2,
+      (photo.naturalHeight - sourceHeight) / 2,
+      sourceWidth,
+      sourceHeight,
+      x,
+      y,
+      width,
+      height
+    );
+  }
+  return y + height;
+}
+
+function renderBlock(context: RenderContext, block: CardBlock, x: number, y: number, width: number): number {
+  const { recipe, size, theme } = context;
+  switch (block.type) {
+    case "hero":
+      return heroBlock(context, block.ratio, x, y, width);
+    case "kicker":
+      return textBlock(context, "CHEFCAM RECIPE CARD", x, y, width, {
+        font: "body",
+        weight: 700,
+        size: size * 0.85,
+        color: theme.muted,
+        lineHeight: size * 1.1,
+      });
+    case "title":
+      return textBlock(context, recipe.dishName, x, y, width, {
+        font: "heading",
+        weight: 700,
+        size: size * 1.9,
+        color: theme.ink,
+        lineHeight: size * 2.2,
+      });
+    case "subtitle":
+      return textBlock(context, recipe.dishName, x, y, width, {
+        font: "heading",
+        weight: 700,
+        size: size * 1.3,
+        color: theme.muted,
+        lineHeight: size * 1.55,
+      });
+    case "description":
+      if (!recipe.shortDescription) return y;
+      return textBlock(context, recipe.shortDescription, x, y, width, {
+        font: "body",
+        weight: 400,
+        size,
+        color: theme.muted,
+        lineHeight: size * 1.35,
+      });
+    case "meta":
+      return metaBlock(context, block.columns, x, y, width);
+    case "ingredients":
+      return listBlock(
+        context,
+        "INGREDIENTS",
+        recipe.ingredients.map((ingredient) => ({ marker: "•", text: `${ingredient.amount} ${ingredient.item}`.trim() })),
+        x,
+        y,
+        width
+      );
+    case "method":
+      return listBlock(
+        context,
+        "METHOD",
+        recipe.instructions.map((instruction, index) => ({ marker: `${index + 1}.`, text: instruction })),
+        x,
+        y,
+        width
+      );
+    case "plating":
+      if (recipe.platingTips.length === 0) return y;
+      return listBlock(
+        context,
+        "PLATING TIPS",
+        recipe.platingTips.map((tip) => ({ marker: "•", text: tip })),
+        x,
+        y,
+        width
+      );
+    case "columns": {
+      const gap = size * 1.4;
+      const columnWidth = (width - gap) / 2;
+      const left = renderBlocks(context, block.left, x, y, columnWidth);
+      const right = renderBlocks(context, block.right, x + columnWidth + gap, y, columnWidth);
+      return Math.max(left, right);
+    }
+  }
+}
+
+function renderBlocks(context: RenderContext, blocks: CardBlock[], x: number, y: number, width: number) {
+  let bottom = y;
+  for (const block of blocks) {
+    const next = renderBlock(context, block, x, bottom === y ? y : bottom + context.size * 0.9, width);
+    if (next > bottom) bottom = next;
+  }
+  return bottom;
+}
+
+function usesHero(blocks: CardBlock[]): boolean {
+  return blocks.some((block) =>
+    block.type === "hero" ? true : block.type === "columns" ? usesHero(block.left) || usesHero(block.right) : false
+  );
+}
+
+function scaleSteps(from: number, to: number) {
+  const steps: number[] = [];
+  for (let scale = from; scale >= to - 0.001; scale -= 0.05) steps.push(Number(scale.toFixed(2)));
+  return steps;
+}
+
+export type FlashCard = {
+  pages: HTMLCanvasElement[];
+  /** False when the text had to shrink below the template's readable minimum. */
+  readable: boolean;
+};
+
+/**
+ * Fits the recipe to the template: first each layout (photo layouts first)
+ * at comfortable sizes, then all layouts at smaller sizes, and finally the
+ * last layout at whatever size makes everything fit.
+ */
+export function renderFlashCard(
+  recipe: RecipeApiResponse,
+  settings: FlashCardSettings,
+  photo: HTMLImageElement | null
+): FlashCard {
+  const template = getCardTemplate(settings.template);
+  const theme = getCardTheme(settings.theme);
+  const layouts = template.layouts.filter((pages) => photo || !pages.some(usesHero));
+  const measure = document.createElement("canvas").getContext("2d");
+  if (!measure) return { pages: [], readable: false };
+  measure.textBaseline = "top";
+
+  const footerSpace = template.baseSize * 2.4;
+  const contentWidth = template.width - template.padding * 2;
+  const available = template.height - template.padding * 2 - footerSpace;
+
+  function fits(pages: CardBlock[][], scale: number) {
+    const context: RenderContext = {
+      ctx: measure!,
+      recipe,
+      theme,
+      photo,
+      pageHeight: template.height,
+      size: template.baseSize * scale,
+      draw: false,
+    };
+    return pages.every((blocks) => renderBlocks(context, blocks, 0, 0, contentWidth) <= available);
+  }
+
+  let chosen: { pages: CardBlock[][]; scale: number; readable: boolean } | null = null;
+  for (const pages of layouts) {
+    const scale = scaleSteps(1, 0.8).find((step) => fits(pages, step));
+    if (scale) {
+      chosen = { pages, scale, readable: true };
+      break;
+    }
+  }
+  if (!chosen) {
+    for (const scale of scaleSteps(0.75, template.minScale)) {
+      const pages = layouts.find((candidate) => fits(candidate, scale));
+      if (pages) {
+        chosen = { pages, scale, readable: true };
+        break;
+      }
+    }
+  }
+  if (!chosen) {
+    const pages = layouts[layouts.length - 1];
+    let scale = template.minScale;
+    while (scale > 0.1 && !fits(pages, scale)) scale *= 0.92;
+    chosen = { pages, scale, readable: false };
+  }
+
+  const canvases = chosen.pages.map((blocks, index) => {
+    const canvas = document.createElement("canvas");
+    canvas.width = template.width;
+    canvas.height = template.height;
+    const ctx = canvas.getContext("2d");
+    if (!ctx) return canvas;
+    ctx.textBaseline = "top";
+    ctx.fillStyle = theme.background;
+    ctx.fillRect(0, 0, template.width, template.height);
+
+    const context: RenderContext = {
+      ctx,
+      recipe,
+      theme,
+      photo,
+      pageHeight: template.height,
+      size: template.baseSize * chosen.scale,
+      draw: true,
+    };
+    renderBlocks(context, blocks, template.padding, template.padding, contentWidth);
+
+    const footerSize = template.baseSize * 0.75;
+    const footerY = template.height - template.padding - footerSize;
+    ctx.font = `500 ${Math.round(footerSize)}px ${theme.bodyFont}`;
+    ctx.fillStyle = theme.muted;
+    ctx.fillText("Generated with ChefCam", template.padding, footerY);
+    if (chosen.pages.length > 1) {
+      const label = `${index + 1} / ${chosen.pages.length}`;
+      ctx.fillText(label, template.width - template.padding - ctx.measureText(label).width, footerY);
+    }
+    return canvas;
+  });
+
+  return { pages: canvases, readable: chosen.readable };
+}
@@ -0,0 +1,99 @@
+import sharp from "sharp";
+import { measurePhotoQuality, PhotoQuality, QUALITY_SAMPLE_SIZE } from "./photo-quality";
+
+/**
+ * Server-side image intake: decodes whatever the phone or API client sent,
+ * turns it upright from its EXIF orientation and re-encodes it as a plain
+ * JPEG at the size vision models work best with. The output carries no
+ * metadata at all, so GPS coordinates never reach the model or storage.
+ * The photo's quality scores are measured along the way.
+ */
+
+/** Raw uploads above this are refused before decoding. */
+export const MAX_INPUT_IMAGE_BYTES = 25_000_000;
+/** Longest side sent to the model: large enough for detail, small enough to keep token counts down. */
+export const NORMALIZED_MAX_SIDE = 1536;
+/** Decoding stops above this many pixels, which bounds memory use per image. */
+const MAX_INPUT_PIXELS = 100_000_000;
+const JPEG_QUALITY = 82;
+
+/** `sharp` reports AVIF and HEIC alike as "heif". */
+const SUPPORTED_FORMATS = new Set(["jpeg", "png", "webp", "heif"]);
+
+export type NormalizedImage = {
+  data: Buffer;
+  mimeType: "image/jpeg";
+  width: number;
+  height: number;
+  quality: PhotoQuality;
+};
+
+export class ImageNormalizationError extends Error {
+  /** 413 when the input is too large, 415 when it is not a usable image. */
+  readonly status: 413 | 415;
+
+  constructor(message: string, options: { status: 413 | 415; cause?: unknown }) {
+    super(message, { cause: options.cause });
+    this.name = "ImageNormalizationError";
+    this.status = options.status;
+  }
+}
+
+export async function normalizeImage(input: Uint8Array): Promise<NormalizedImage> {
+  if (input.byteLength > MAX_INPUT_IMAGE_BYTES) {
+    throw new ImageNormalizationError(
+      `Image is too large. Upload a photo under ${Math.floor(MAX_INPUT_IMAGE_BYTES / 1_000_000)} MB.`,
+      { status: 413 }
+    );
+  }
+
+  let metadata: sharp.Metadata;
+  try {
+    metadata = await sharp(input).metadata();
+  } catch (error) {
+    throw new ImageNormalizationError("Unsupported image type. Use JPG, PNG, WebP, HEIC or AVIF.", {
+      status: 415,
+      cause: error,
+    });
+  }
+  const { format } = metadata;
+  if (!format || !SUPPORTED_FORMATS.has(format)) {
+    throw new ImageNormalizationError("Unsupported image type. Use JPG, PNG, WebP, HEIC or AVIF.", { status: 415 });
+  }
+
+  try {
+    const { data, info } = await sharp(input, { failOn: "error", limitInputPixels: MAX_INPUT_PIXELS })
+      .rotate()
+      .resize({ width: NORMALIZED_MAX_SIDE, height: NORMALIZED_MAX_SIDE, fit: "inside", withoutEnlargement: true })
+      .flatten({ background: "#ffffff" })
+      .jpeg({ quality: JPEG_QUALITY, mozjpeg: true })
+      .toBuffer({ resolveWithObject: true });
+    const sample = await sharp(data)
+      .resize({ width: QUALITY_SAMPLE_SIZE, height: QUALITY_SAMPLE_SIZE, fit: "inside", withoutEnlargement: true })
+      .greyscale()
+      .raw()
+      .toBuffer({ resolveWithObject: true });
+    return {
+      data,
+      mimeType: "image/jpeg",
+      width: info.width,
+      height: info.height,
+      quality: measurePhotoQuality(sample.data, sample.info, metadata.autoOrient),
+    };
+  } catch (error) {
+    const message = error instanceof Error ? error.message : "";
+    if (message.includes("pixel limit")) {
+      throw new ImageNormalizationError("Image resolution is too high. Try a smaller photo.", {
+        status: 413,
+        cause: error,
+      });
+    }
+    // Prebuilt sharp binaries decode AVIF but not HEVC-coded HEIC; see the README.
+    throw new ImageNormalizationError(
+      format === "heif"
+        ? "This HEIC photo could not be decoded on the server. Convert it to JPG and try again."
+        : "The image could not be decoded. Try another photo.",
+      { status: 415, cause: error }
+    );
+  }
+}
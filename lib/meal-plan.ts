@@ -0,0 +1,137 @@
+/**
+ * Weekly meal plans: saved recipes assigned to day/meal slots, each with an
+ * optional servings override. Days are ISO dates ("2026-10-19") and weeks start
+ * on Monday, so a plan is identified by its owner and Monday.
+ */
+
+export type MealSlot = "breakfast" | "lunch" | "dinner";
+
+export const MEAL_SLOTS: Array<{ id: MealSlot; label: string }> = [
+  { id: "breakfast", label: "Breakfast" },
+  { id: "lunch", label: "Lunch" },
+  { id: "dinner", label: "Dinner" },
+];
+
+export type PlannedMeal = {
+  day: string;
+  meal: MealSlot;
+  recipeId: string;
+  /** Null cooks the recipe at its saved servings. */
+  servings: number | null;
+};
+
+export type MealPlan = {
+  id: string;
+  weekStart: string;
+  entries: PlannedMeal[];
+  updatedAt: number;
+};
+
+export const MAX_PLANNED_SERVINGS = 12;
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+/** Saved recipes get Firestore auto-ids: 20 letters and digits. */
+const SAVED_RECIPE_ID_PATTERN = /^[A-Za-z0-9]{20}$/;
+
+/**
+ * One document per owner and week, so repeated saves of the same week update
+ * it instead of racing to create duplicates.
+ */
+export function getMealPlanDocumentId(ownerId: string, weekStart: string) {
+  return `${ownerId}_${weekStart}`;
+}
+
+/** Checked before an id from a request is used as a Firestore document path. */
+export function isSavedRecipeId(value: unknown): value is string {
+  return typeof value === "string" && SAVED_RECIPE_ID_PATTERN.test(value);
+}
+
+export function isMealSlot(value: unknown): value is MealSlot {
+  return MEAL_SLOTS.some((slot) => slot.id === value);
+}
+
+export function isIsoDate(value: unknown): value is string {
+  return (
+    typeof value === "string" &&
+    /^\d{4}-\d{2}-\d{2}$/.test(value) &&
+    new Date(`${value}T00:00:00Z`).toISOString().startsWith(value)
+  );
+}
+
+/** The local calendar date, not the UTC one. */
+export function toIsoDate(date: Date) {
+  const month = String(date.getMonth() + 1).padStart(2, "0");
+  const day = String(date.getDate()).padStart(2, "0");
+  return `${date.getFullYear()}-${month}-${day}`;
+}
+
+export function addDays(isoDate: string, days: number) {
+  return new Date(Date.parse(`${isoDate}T00:00:00Z`) + days * DAY_MS).toISOString().slice(0, 10);
+}
+
+/** Monday of the week containing `date`. */
+export function startOfWeek(date = new Date()) {
+  const today = toIsoDate(date);
+  const weekday = (new Date(`${today}T00:00:00Z`).getUTCDay() + 6) % 7;
+  return addDays(today, -weekday);
+}
+
+export function getWeekDays(weekStart: string) {
+  return Array.from({ length: 7 }, (_, index) => addDays(weekStart, index));
+}
+
+/** "Mon 19 Oct". */
+export function formatDayLabel(isoDate: string) {
+  return new Date(`${isoDate}T00:00:00Z`).toLocaleDateString("en-GB", {
+    weekday: "short",
+    day: "numeric",
+    month: "short",
+    timeZone: "UTC",
+  });
+}
+
+/**
+ * Keeps well-formed entries that fall inside the week, one per slot (the last
+ * one wins), in day and meal order.
+ */
+export function normalizeMealPlanEntries(value: unknown, weekStart: string): PlannedMeal[] {
+  if (!Array.isArray(value)) return [];
+  const days = getWeekDays(weekStart);
+  const slots = new Map<string, PlannedMeal>();
+
+  for (const raw of value) {
+    const entry = (raw ?? {}) as Record<string, unknown>;
+    const recipeId = typeof entry.recipeId === "string" ? entry.recipeId.trim() : "";
+    if (!days.includes(entry.day as string) || !isMealSlot(entry.meal) || !recipeId) continue;
+    const servings = Number(entry.servings);
+    slots.set(`${entry.day}:${entry.meal}`, {
+      day: entry.day as string,
+      meal: entry.meal,
+      recipeId,
+      servings:
+        entry.servings !== null && Number.isInteger(servings) && servings > 0
+          ? Math.min(servings, MAX_PLANNED_SERVINGS)
+          : null,
+    });
+  }
+
+  const slotOrder = MEAL_SLOTS.map((slot) => slot.id);
+  return [...slots.values()].sort(
+    (a, b) => days.indexOf(a.day) - days.indexOf(b.day) || slotOrder.indexOf(a.meal) - slotOrder.indexOf(b.meal)
+  );
+}
+
+export function findPlannedMeal(entries: PlannedMeal[], day: string, meal: MealSlot) {
+  return entries.find((entry) => entry.day === day && entry.meal === meal) ?? null;
+}
+
+/** Replaces (or with a null recipe, clears) one slot. */
+export function setPlannedMeal(
+  entries: PlannedMeal[],
+  day: string,
+  meal: MealSlot,
+  next: { recipeId: string; servings: number | null } | null
+): PlannedMeal[] {
+  const others = entries.filter((entry) => entry.day !== day || entry.meal !== meal);
+  return next ? [...others, { day, meal, ...next }] : others;
+}
@@ -0,0 +1,358 @@
+/**
+ * Per-serving nutrition worked out from the ingredient list with a bundled
+ * nutrient table (values per 100 g, rounded from USDA FoodData Central). When
+ * the table cannot account for every ingredient, the model's own per-serving
+ * estimate is used instead, and each value records where it came from.
+ */
+
+import { normalizeUnit } from "./quantity";
+import type { Ingredient } from "./recipe";
+import { toGrams } from "./units";
+
+export type Nutrient = "kcal" | "protein" | "carbs" | "fat" | "fiber" | "sugar" | "sodium";
+
+export const NUTRIENTS: Array<{ id: Nutrient; label: string; unit: "kcal" | "g" | "mg" }> = [
+  { id: "kcal", label: "Calories", unit: "kcal" },
+  { id: "protein", label: "Protein", unit: "g" },
+  { id: "carbs", label: "Carbs", unit: "g" },
+  { id: "fat", label: "Fat", unit: "g" },
+  { id: "fiber", label: "Fiber", unit: "g" },
+  { id: "sugar", label: "Sugar", unit: "g" },
+  { id: "sodium", label: "Sodium", unit: "mg" },
+];
+
+/** Per-serving values as estimated by the model; any nutrient may be missing. */
+export type NutritionFacts = Partial<Record<Nutrient, number>>;
+
+/**
+ * - `table`: calculated from the nutrient table for every measured ingredient.
+ * - `model`: the model's estimate, because some ingredients are not in the table.
+ * - `partial`: table values for the ingredients it knows, with no model estimate to fall back on.
+ */
+export type NutritionSource = "table" | "model" | "partial";
+
+export const NUTRITION_SOURCE_LABELS: Record<NutritionSource, string> = {
+  table: "Calculated",
+  model: "Model estimate",
+  partial: "Partial",
+};
+
+export type NutritionValue = { amount: number; source: NutritionSource };
+
+export type NutritionBreakdown = {
+  perServing: Record<Nutrient, NutritionValue | null>;
+  /** Measured ingredients the table could account for, out of `measuredIngredients`. */
+  matchedIngredients: number;
+  measuredIngredients: number;
+};
+
+/** kcal, protein, carbs, fat, fiber, sugar (g) and sodium (mg) per 100 g. */
+type NutrientRow = [number, number, number, number, number, number, number];
+
+type FoodEntry = {
+  per100g: NutrientRow;
+  /** Weight of one piece, for countable items such as "2 eggs". */
+  gramsPerPiece?: number;
+  /** For light or dense foods that the volume density table does not cover. */
+  gramsPerCup?: number;
+};
+
+/** Keys are matched as whole words of the ingredient name; see `findFood`. */
+const FOODS: Record<string, FoodEntry> = {
+  "olive oil": { per100g: [884, 0, 0, 100, 0, 0, 2] },
+  "sesame oil": { per100g: [884, 0, 0, 100, 0, 0, 0] },
+  oil: { per100g: [884, 0, 0, 100, 0, 0, 0] },
+  "unsalted butter": { per100g: [717, 0.9, 0.1, 81, 0, 0.1, 11] },
+  "peanut butter": { per100g: [588, 25, 20, 50, 6, 9, 459], gramsPerCup: 258 },
+  butter: { per100g: [717, 0.9, 0.1, 81, 0, 0.1, 643] },
+  egg: { per100g: [143, 12.6, 0.7, 9.5, 0, 0.4, 142], gramsPerPiece: 50 },
+  "coconut milk": { per100g: [230, 2.3, 6, 24, 2.2, 3.3, 15], gramsPerCup: 240 },
+  "almond milk": { per100g: [15, 0.6, 0.6, 1.1, 0.2, 0, 72] },
+  "oat milk": { per100g: [46, 1, 6.7, 1.5, 0.8, 4, 42] },
+  "soy milk": { per100g: [43, 3.3, 2.9, 1.8, 0.5, 1.8, 47] },
+  buttermilk: { per100g: [40, 3.3, 4.8, 0.9, 0, 4.8, 105] },
+  milk: { per100g: [61, 3.2, 4.8, 3.3, 0, 5.1, 43] },
+  "sour cream": { per100g: [198, 2.4, 4.6, 19, 0, 3.5, 31] },
+  "coconut cream": { per100g: [330, 3.6, 6.7, 35, 2.2, 3.3, 4] },
+  "cream cheese": { per100g: [342, 6, 4, 34, 0, 3.2, 321], gramsPerCup: 232 },
+  cream: { per100g: [340, 2.8, 2.7, 36, 0, 2.9, 27] },
+  "greek yogurt": { per100g: [97, 9, 3.9, 5, 0, 3.6, 35] },
+  yogurt: { per100g: [61, 3.5, 4.7, 3.3, 0, 4.7, 46] },
+  parmesan: { per100g: [431, 38, 4.1, 29, 0, 0.9, 1529] },
+  "fresh mozzarella": { per100g: [254, 18, 2.5, 19.5, 0, 1, 84] },
+  mozzarella: { per100g: [300, 22, 2.2, 22, 0, 1, 627] },
+  feta: { per100g: [264, 14, 4.1, 21, 0, 4.1, 917], gramsPerCup: 150 },
+  ricotta: { per100g: [174, 11, 3, 13, 0, 0.3, 84] },
+  cheese: { per100g: [403, 25, 1.3, 33, 0, 0.5, 621] },
+  mayonnaise: { per100g: [680, 1, 0.6, 75, 0, 0.6, 635] },
+  cornstarch: { per100g: [381, 0.3, 91, 0.1, 0.9, 0, 9] },
+  cornflour: { per100g: [381, 0.3, 91, 0.1, 0.9, 0, 9] },
+  flour: { per100g: [364, 10, 76, 1, 2.7, 0.3, 2] },
+  "pizza dough": { per100g: [250, 7.5, 47, 3.5, 2, 1.5, 480] },
+  panko: { per100g: [395, 13, 72, 5.3, 4.5, 6.2, 732] },
+  breadcrumb: { per100g: [395, 13, 72, 5.3, 4.5, 6.2, 732], gramsPerCup: 108 },
+  tortilla: { per100g: [304, 8, 50, 8, 3, 3, 580], gramsPerPiece: 45 },
+  bread: { per100g: [265, 9, 49, 3.2, 2.7, 5, 491], gramsPerPiece: 30 },
+  "cooked pasta": { per100g: [158, 5.8, 31, 0.9, 1.8, 0.6, 1] },
+  pasta: { per100g: [371, 13, 75, 1.5, 3.2, 2.7, 6], gramsPerCup: 100 },
+  spaghetti: { per100g: [371, 13, 75, 1.5, 3.2, 2.7, 6] },
+  noodle: { per100g: [384, 14, 71, 4.4, 3.3, 1.4, 21] },
+  "cooked rice": { per100g: [130, 2.7, 28, 0.3, 0.4, 0, 1], gramsPerCup: 160 },
+  "cooked short-grain rice": { per100g: [130, 2.7, 28, 0.3, 0.4, 0, 1], gramsPerCup: 160 },
+  rice: { per100g: [365, 7.1, 80, 0.7, 1.3, 0.1, 5] },
+  oats: { per100g: [389, 17, 66, 7, 10.6, 1, 2] },
+  "brown sugar": { per100g: [380, 0.1, 98, 0, 0, 97, 28] },
+  sugar: { per100g: [387, 0, 100, 0, 0, 100, 1] },
+  honey: { per100g: [304, 0.3, 82, 0, 0.2, 82, 4] },
+  "maple syrup": { per100g: [260, 0, 67, 0.1, 0, 60, 12] },
+  "cocoa powder": { per100g: [228, 20, 58, 14, 37, 1.8, 21] },
+  chocolate: { per100g: [546, 4.9, 61, 31, 7, 48, 24] },
+  "chicken breast": { per100g: [120, 22.5, 0, 2.6, 0, 0, 45], gramsPerPiece: 200 },
+  "chicken thigh": { per100g: [177, 19.7, 0, 10.9, 0, 0, 84], gramsPerPiece: 110 },
+  chicken: { per100g: [143, 19, 0, 7, 0, 0, 77] },
+  "ground beef": { per100g: [254, 17, 0, 20, 0, 0, 66] },
+  beef: { per100g: [217, 26, 0, 12, 0, 0, 60] },
+  pork: { per100g: [242, 27, 0, 14, 0, 0, 62] },
+  bacon: { per100g: [417, 13, 1.4, 40, 0, 0, 833], gramsPerPiece: 25 },
+  ham: { per100g: [145, 21, 1.5, 5.5, 0, 0, 1203], gramsPerPiece: 25 },
+  sausage: { per100g: [301, 12, 2, 27, 0, 1, 800], gramsPerPiece: 75 },
+  lamb: { per100g: [282, 17, 0, 23, 0, 0, 59] },
+  turkey: { per100g: [148, 17, 0, 8, 0, 0, 69] },
+  salmon: { per100g: [208, 20, 0, 13, 0, 0, 59], gramsPerPiece: 150 },
+  tuna: { per100g: [116, 26, 0, 0.8, 0, 0, 247] },
+  cod: { per100g: [82, 18, 0, 0.7, 0, 0, 54], gramsPerPiece: 150 },
+  "fish sauce": { per100g: [35, 5, 3.6, 0, 0, 3.6, 7720] },
+  fish: { per100g: [100, 20, 0, 2, 0, 0, 70], gramsPerPiece: 150 },
+  shrimp: { per100g: [85, 20, 0, 0.5, 0, 0, 119], gramsPerPiece: 12 },
+  prawn: { per100g: [85, 20, 0, 0.5, 0, 0, 119], gramsPerPiece: 12 },
+  tofu: { per100g: [76, 8, 1.9, 4.8, 0.3, 0.6, 7] },
+  chickpea: { per100g: [139, 7, 22.5, 2.6, 6.4, 0.2, 246], gramsPerCup: 164 },
+  lentil: { per100g: [352, 25, 63, 1.1, 11, 2, 6], gramsPerCup: 192 },
+  beans: { per100g: [120, 7.5, 21, 0.5, 6, 0.3, 260], gramsPerCup: 170 },
+  "spring onion": { per100g: [32, 1.8, 7.3, 0.2, 2.6, 2.3, 16], gramsPerPiece: 15 },
+  "green onion": { per100g: [32, 1.8, 7.3, 0.2, 2.6, 2.3, 16], gramsPerPiece: 15 },
+  onion: { per100g: [40, 1.1, 9.3, 0.1, 1.7, 4.2, 4], gramsPerPiece: 150, gramsPerCup: 160 },
+  shallot: { per100g: [72, 2.5, 17, 0.1, 3.2, 7.9, 12], gramsPerPiece: 40 },
+  garlic: { per100g: [149, 6.4, 33, 0.5, 2.1, 1, 17], gramsPerPiece: 5 },
+  ginger: { per100g: [80, 1.8, 18, 0.8, 2, 1.7, 13] },
+  "tomato paste": { per100g: [82, 4.3, 19, 0.5, 4.1, 12, 59] },
+  "crushed tomatoes": { per100g: [32, 1.6, 7.3, 0.3, 1.9, 4.4, 186] },
+  tomato: { per100g: [18, 0.9, 3.9, 0.2, 1.2, 2.6, 5], gramsPerPiece: 120, gramsPerCup: 180 },
+  "bell pepper": { per100g: [31, 1, 6, 0.3, 2.1, 4.2, 4], gramsPerPiece: 150, gramsPerCup: 150 },
+  "black pepper": { per100g: [251, 10, 64, 3.3, 25, 0.6, 20], gramsPerCup: 110 },
+  carrot: { per100g: [41, 0.9, 9.6, 0.2, 2.8, 4.7, 69], gramsPerPiece: 60, gramsPerCup: 128 },
+  potato: { per100g: [77, 2, 17, 0.1, 2.2, 0.8, 6], gramsPerPiece: 200, gramsPerCup: 150 },
+  spinach: { per100g: [23, 2.9, 3.6, 0.4, 2.2, 0.4, 79], gramsPerCup: 30 },
+  mushroom: { per100g: [22, 3.1, 3.3, 0.3, 1, 2, 5], gramsPerPiece: 18, gramsPerCup: 70 },
+  zucchini: { per100g: [17, 1.2, 3.1, 0.3, 1, 2.5, 8], gramsPerPiece: 200 },
+  courgette: { per100g: [17, 1.2, 3.1, 0.3, 1, 2.5, 8], gramsPerPiece: 200 },
+  eggplant: { per100g: [25, 1, 5.9, 0.2, 3, 3.5, 2], gramsPerPiece: 450 },
+  broccoli: { per100g: [34, 2.8, 7, 0.4, 2.6, 1.7, 33], gramsPerCup: 90 },
+  cauliflower: { per100g: [25, 1.9, 5, 0.3, 2, 1.9, 30], gramsPerCup: 100 },
+  cabbage: { per100g: [25, 1.3, 5.8, 0.1, 2.5, 3.2, 18], gramsPerCup: 90 },
+  celery: { per100g: [14, 0.7, 3, 0.2, 1.6, 1.3, 80], gramsPerPiece: 40 },
+  cucumber: { per100g: [15, 0.7, 3.6, 0.1, 0.5, 1.7, 2], gramsPerPiece: 300 },
+  lettuce: { per100g: [15, 1.4, 2.9, 0.2, 1.3, 0.8, 28], gramsPerCup: 47 },
+  peas: { per100g: [81, 5.4, 14, 0.4, 5.7, 5.7, 5], gramsPerCup: 145 },
+  corn: { per100g: [86, 3.3, 19, 1.4, 2, 6.3, 15], gramsPerCup: 145 },
+  avocado: { per100g: [160, 2, 8.5, 14.7, 6.7, 0.7, 7], gramsPerPiece: 150 },
+  "lemon juice": { per100g: [22, 0.4, 6.9, 0.2, 0.3, 2.5, 1] },
+  "lime juice": { per100g: [25, 0.4, 8.4, 0.1, 0.4, 1.7, 2] },
+  lemon: { per100g: [29, 1.1, 9.3, 0.3, 2.8, 2.5, 2], gramsPerPiece: 60 },
+  lime: { per100g: [30, 0.7, 10.5, 0.2, 2.8, 1.7, 2], gramsPerPiece: 45 },
+  apple: { per100g: [52, 0.3, 14, 0.2, 2.4, 10, 1], gramsPerPiece: 180 },
+  banana: { per100g: [89, 1.1, 23, 0.3, 2.6, 12, 1], gramsPerPiece: 120 },
+  basil: { per100g: [23, 3.2, 2.7, 0.6, 1.6, 0.3, 4], gramsPerPiece: 0.5, gramsPerCup: 24 },
+  parsley: { per100g: [36, 3, 6.3, 0.8, 3.3, 0.9, 56], gramsPerCup: 60 },
+  cilantro: { per100g: [23, 2.1, 3.7, 0.5, 2.8, 0.9, 46], gramsPerCup: 16 },
+  "ground cumin": { per100g: [375, 18, 44, 22, 11, 2.3, 168], gramsPerCup: 96 },
+  cumin: { per100g: [375, 18, 44, 22, 11, 2.3, 168], gramsPerCup: 96 },
+  paprika: { per100g: [282, 14, 54, 13, 35, 10, 68], gramsPerCup: 110 },
+  cinnamon: { per100g: [247, 4, 81, 1.2, 53, 2.2, 10], gramsPerCup: 125 },
+  almond: { per100g: [579, 21, 22, 50, 12.5, 4.4, 1] },
+  walnut: { per100g: [654, 15, 14, 65, 6.7, 2.6, 2] },
+  cashew: { per100g: [553, 18, 30, 44, 3.3, 5.9, 12], gramsPerCup: 137 },
+  peanut: { per100g: [567, 26, 16, 49, 8.5, 4, 18], gramsPerCup: 146 },
+  "sesame seed": { per100g: [573, 18, 23, 50, 12, 0.3, 11], gramsPerCup: 144 },
+  "soy sauce": { per100g: [53, 8.1, 4.9, 0.6, 0.8, 0.4, 5493], gramsPerCup: 255 },
+  "curry roux": { per100g: [512, 6.2, 46, 34, 3, 7, 4200], gramsPerPiece: 20 },
+  mustard: { per100g: [60, 3.7, 5.8, 3.3, 4, 0.9, 1104], gramsPerCup: 250 },
+  vinegar: { per100g: [19, 0, 0.6, 0, 0, 0.4, 2] },
+  stock: { per100g: [7, 1, 0.3, 0.2, 0, 0.3, 343] },
+  broth: { per100g: [7, 1, 0.3, 0.2, 0, 0.3, 343] },
+  wine: { per100g: [83, 0.1, 2.6, 0, 0, 0.6, 5] },
+  water: { per100g: [0, 0, 0, 0, 0, 0, 0] },
+  salt: { per100g: [0, 0, 0, 0, 0, 0, 38758] },
+};
+
+const FOOD_PATTERNS = Object.keys(FOODS)
+  .sort((a, b) => b.length - a.length)
+  .map((key) => ({ key, pattern: new RegExp(`\\b${key}(?:e?s)?\\b`, "g") }));
+
+/** Approximate weights for units that are not a measure of mass or volume. */
+const UNIT_WEIGHTS: Record<string, number> = {
+  pinch: 0.4,
+  handful: 30,
+  bunch: 100,
+  sprig: 1,
+  stalk: 40,
+  can: 400,
+};
+
+const SIZE_FACTORS: Record<string, number> = { small: 0.75, medium: 1, large: 1.25 };
+
+/**
+ * The food is usually the last noun of the name, so the match that ends last
+ * wins ("chicken stock" is stock, not chicken), then the longest key.
+ */
+function findFood(item: string) {
+  const name = item.toLowerCase();
+  let best: { key: string; end: number } | null = null;
+  for (const { key, pattern } of FOOD_PATTERNS) {
+    for (const match of name.matchAll(pattern)) {
+      const end = match.index + match[0].length;
+      if (!best || end > best.end) best = { key, end };
+    }
+  }
+  return best ? FOODS[best.key] : null;
+}
+
+/** Best guess at the weight of an ingredient in grams, or null if it cannot be weighed. */
+function ingredientGrams(ingredient: Ingredient, food: FoodEntry): number | null {
+  if (ingredient.quantity === null) return null;
+  const quantity =
+    ingredient.quantityMax === null ? ingredient.quantity : (ingredient.quantity + ingredient.quantityMax) / 2;
+  const unitWord = ingredient.unit?.toLowerCase().split(/[\s,]/)[0] ?? null;
+  const unit = normalizeUnit(ingredient.unit) ?? null;
+
+  const measured =
+    toGrams(quantity, unit, ingredient.item, food.gramsPerCup) ??
+    toGrams(quantity, unitWord, ingredient.item, food.gramsPerCup);
+  if (measured !== null) return measured;
+
+  const countUnit = normalizeUnit(unitWord);
+  if (countUnit && UNIT_WEIGHTS[countUnit] !== undefined) {
+    return quantity * UNIT_WEIGHTS[countUnit];
+  }
+  if (!food.gramsPerPiece) return null;
+  if (!unitWord || countUnit === "piece" || countUnit === "clove" || countUnit === "slice") {
+    return quantity * food.gramsPerPiece;
+  }
+  const size = SIZE_FACTORS[unitWord];
+  return size === undefined ? null : quantity * food.gramsPerPiece * size;
+}
+
+function roundNutrient(nutrient: Nutrient, value: number) {
+  if (nutrient === "kcal" || nutrient === "sodium" || value >= 10) return Math.round(value);
+  return Math.round(value * 10) / 10;
+}
+
+/**
+ * Per-serving breakdown for a recipe. Amounts such as "to taste" are not
+ * counted; every other ingredient must be in the table for a value to count as
+ * calculated.
+ */
+export function computeNutrition(recipe: {
+  ingredients: Ingredient[];
+  servings: number;
+  nutrition: NutritionFacts;
+}): NutritionBreakdown {
+  const totals: NutrientRow = [0, 0, 0, 0, 0, 0, 0];
+  let measuredIngredients = 0;
+  let matchedIngredients = 0;
+
+  for (const ingredient of recipe.ingredients) {
+    if (ingredient.quantity === null) continue;
+    measuredIngredients += 1;
+    const food = findFood(ingredient.item);
+    const grams = food ? ingredientGrams(ingredient, food) : null;
+    if (!food || grams === null) continue;
+    matchedIngredients += 1;
+    food.per100g.forEach((value, index) => {
+      totals[index] += (value * grams) / 100;
+    });
+  }
+
+  const complete = measuredIngredients > 0 && matchedIngredients === measuredIngredients;
+  const servings = recipe.servings > 0 ? recipe.servings : 1;
+  const perServing = {} as NutritionBreakdown["perServing"];
+  NUTRIENTS.forEach(({ id }, index) => {
+    const estimate = recipe.nutrition[id];
+    if (complete) {
+      perServing[id] = { amount: roundNutrient(id, totals[index] / servings), source: "table" };
+    } else if (estimate !== undefined) {
+      perServing[id] = { amount: roundNutrient(id, estimate), source: "model" };
+    } else if (matchedIngredients > 0) {
+      perServing[id] = { amount: roundNutrient(id, totals[index] / servings), source: "partial" };
+    } else {
+      perServing[id] = null;
+    }
+  });
+  return { perServing, matchedIngredients, measuredIngredients };
+}
+
+export function formatNutritionValue(nutrient: Nutrient, value: NutritionValue | null) {
+  if (!value) return "—";
+  const unit = NUTRIENTS.find((entry) => entry.id === nutrient)?.unit ?? "";
+  return unit === "kcal" ? `${value.amount} kcal` : `${value.amount} ${unit}`;
+}
+
+/**
+ * Reads the model's estimate. Accepts an object of numbers (or numeric strings
+ * such as "12 g") and, for older recipes, a calorie string like "Approx. 450 kcal".
+ */
+export function parseNutritionFacts(value: unknown): NutritionFacts | null {
+  if (typeof value === "string") {
+    const kcal = value.match(/(\d+(?:\.\d+)?)\s*k?cal/i) ?? value.match(/\d+(?:\.\d+)?/);
+    return kcal ? { kcal: Number(kcal[1] ?? kcal[0]) } : null;
+  }
+  if (!value || typeof value !== "object" || Array.isArray(value)) return null;
+
+  const record = value as Record<string, unknown>;
+  const facts: NutritionFacts = {};
+  for (const { id } of NUTRIENTS) {
+    const raw = record[id];
+    const number = typeof raw === "string" ? Number.parseFloat(raw) : raw;
+    if (typeof number === "number" && Number.isFinite(number) && number >= 0) facts[id] = number;
+  }
+  return facts;
+}
+
+/** One sentence explaining where the numbers in a breakdown came from. */
+export function describeNutritionSources(breakdown: NutritionBreakdown) {
+  const { matchedIngredients, measuredIngredients, perServing } = breakdown;
+  const sources = new Set(Object.values(perServing).flatMap((value) => (value ? [value.source] : [])));
+  if (sources.size === 0) return "No nutrition data is available for this recipe.";
+  if (sources.has("table") && sources.size === 1) {
+    return `Calculated from the nutrient table for all ${measuredIngredients} measured ingredients.`;
+  }
+  const coverage = `The nutrient table covers ${matchedIngredients} of ${measuredIngredients} measured ingredients`;
+  return sources.has("partial")
+    ? `${coverage}; values marked partial leave out the rest.`
+    : `${coverage}, so the model's estimate is shown.`;
+}
+
+/**
+ * Adds up per-serving values, e.g. one serving of every meal planned for a day.
+ * A total is "table" only when every part was; a part without a value makes it
+ * partial.
+ */
+export function sumNutrition(breakdowns: NutritionBreakdown[]): NutritionBreakdown["perServing"] {
+  const totals = {} as NutritionBreakdown["perServing"];
+  for (const { id } of NUTRIENTS) {
+    const values = breakdowns.map((breakdown) => breakdown.perServing[id]);
+    const known = values.filter((value): value is NutritionValue => value !== null);
+    if (known.length === 0) {
+      totals[id] = null;
+      continue;
+    }
+    const source: NutritionSource =
+      known.length < values.length || known.some((value) => value.source === "partial")
+        ? "partial"
+        : known.every((value) => value.source === "table")
+          ? "table"
+          : "model";
+    totals[id] = { amount: roundNutrient(id, known.reduce((sum, value) => sum + value.amount, 0)), source };
+  }
+  return totals;
+}
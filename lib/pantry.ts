@@ -0,0 +1,186 @@
+import { PhotoQuality } from "./photo-quality";
+import {
+  extractJsonObject,
+  parseConfidence,
+  parseRecipeApiResponse,
+  RecipeApiResponse,
+  RecipeIssue,
+  RecipeValidation,
+  validateRecipe,
+  withRecipeFallbacks,
+} from "./recipe";
+
+/**
+ * "What can I cook" mode: the photo shows raw ingredients (a fridge, pantry or
+ * counter) and the model suggests several recipes built from them. Candidates
+ * use the regular recipe shape so they render and export like any other recipe.
+ */
+
+export type AnalysisMode = "dish" | "pantry";
+
+export const ANALYSIS_MODES: Array<{ id: AnalysisMode; label: string }> = [
+  { id: "dish", label: "Recreate a dish" },
+  { id: "pantry", label: "What can I cook?" },
+];
+
+export type DetectedIngredient = {
+  name: string;
+  /** 0-1, how sure the model is that the ingredient is in the photo. */
+  confidence: number;
+};
+
+export type PantryIdeas = {
+  detectedIngredients: DetectedIngredient[];
+  candidates: RecipeApiResponse[];
+  /** Server-measured quality of each analyzed photo, in upload order. */
+  photoQuality?: PhotoQuality[];
+};
+
+export type PantryValidation = {
+  detectedIngredients: DetectedIngredient[];
+  candidates: Array<{ validation: RecipeValidation; missingIngredients: string[] | null }>;
+  issues: RecipeIssue[];
+};
+
+export const MAX_PANTRY_CANDIDATES = 3;
+export const LOW_CONFIDENCE = 0.5;
+
+/** Assumed to be in every kitchen, so never reported as missing. */
+const PANTRY_STAPLES = ["salt", "pepper", "black pepper", "water", "oil", "olive oil", "vegetable oil"];
+
+export function isAnalysisMode(value: unknown): value is AnalysisMode {
+  return ANALYSIS_MODES.some((mode) => mode.id === value);
+}
+
+function nameTokens(name: string) {
+  return name
+    .toLowerCase()
+    .split(",")[0]
+    .split(/[^a-z]+/)
+    .filter((word) => word.length > 2)
+    .map((word) => word.replace(/(?:es|s)$/, ""));
+}
+
+/** True when every word of one name appears in the other ("eggs" ~ "large eggs, beaten"). */
+function sameIngredient(a: string, b: string) {
+  const left = nameTokens(a);
+  const right = nameTokens(b);
+  if (left.length === 0 || right.length === 0) return false;
+  return left.every((word) => right.includes(word)) || right.every((word) => left.includes(word));
+}
+
+export function isStaple(item: string) {
+  return PANTRY_STAPLES.some((staple) => sameIngredient(item, staple) && nameTokens(item).length <= 2);
+}
+
+export function isMissingIngredient(item: string, missingIngredients: string[]) {
+  return missingIngredients.some((missing) => sameIngredient(item, missing));
+}
+
+/** Recipe ingredients that were not detected in the photo, staples excluded. */
+export function findMissingIngredients(
+  ingredients: Array<{ item: string }>,
+  detected: DetectedIngredient[]
+): string[] {
+  return ingredients
+    .map((ingredient) => ingredient.item)
+    .filter(
+      (item) => !isStaple(item) && !detected.some((entry) => sameIngredient(item, entry.name))
+    );
+}
+
+function detectedIngredientList(value: unknown, issues: RecipeIssue[]): DetectedIngredient[] {
+  if (!Array.isArray(value)) {
+    issues.push({
+      field: null,
+      path: "detectedIngredients",
+      message: "expected an array of { name, confidence } objects",
+    });
+    return [];
+  }
+  const items: DetectedIngredient[] = [];
+  value.forEach((entry, index) => {
+    const record = (entry && typeof entry === "object" ? entry : {}) as Record<string, unknown>;
+    const name = typeof entry === "string" ? entry : record.name;
+    if (typeof name !== "string" || !name.trim()) {
+      issues.push({ field: null, path: `detectedIngredients[${index}].name`, message: "expected a non-empty string" });
+      return;
+    }
+    items.push({ name: name.trim(), confidence: parseConfidence(record.confidence) ?? LOW_CONFIDENCE });
+  });
+  return items.sort((a, b) => b.confidence - a.confidence);
+}
+
+function stringList(value: unknown) {
+  return Array.isArray(value)
+    ? value.filter((entry): entry is string => typeof entry === "string" && entry.trim() !== "").map((entry) => entry.trim())
+    : null;
+}
+
+export function validatePantryIdeas(input: unknown): PantryValidation {
+  if (!input || typeof input !== "object" || Array.isArray(input)) {
+    return {
+      detectedIngredients: [],
+      candidates: [],
+      issues: [{ field: null, path: "$", message: "expected a JSON object" }],
+    };
+  }
+
+  const record = input as Record<string, unknown>;
+  const issues: RecipeIssue[] = [];
+  const detectedIngredients = detectedIngredientList(record.detectedIngredients, issues);
+  if (!Array.isArray(record.candidates) || record.candidates.length === 0) {
+    issues.push({ field: null, path: "candidates", message: "expected at least 1 candidate recipe" });
+  }
+
+  const candidates = (Array.isArray(record.candidates) ? record.candidates : [])
+    .slice(0, MAX_PANTRY_CANDIDATES)
+    .map((candidate, index) => {
+      const validation = validateRecipe(candidate);
+      issues.push(
+        ...validation.issues.map((issue) => ({ ...issue, path: `candidates[${index}].${issue.path}` }))
+      );
+      const missing = (candidate as Record<string, unknown> | null)?.missingIngredients;
+      return { validation, missingIngredients: stringList(missing) };
+    });
+  return { detectedIngredients, candidates, issues };
+}
+
+/** Model reply text → validation result, mirroring `parseRecipeText`. */
+export function parsePantryText(raw: string): PantryValidation {
+  const extracted = extractJsonObject(raw);
+  if ("error" in extracted) {
+    return {
+      detectedIngredients: [],
+      candidates: [],
+      issues: [{ field: null, path: "$", message: `response is not valid JSON (${extracted.error})` }],
+    };
+  }
+  return validatePantryIdeas(extracted.value);
+}
+
+/**
+ * Completes every candidate with placeholders where needed. When the model did
+ * not list missing ingredients they are worked out from the detected ones.
+ */
+export function withPantryFallbacks(validation: PantryValidation): PantryIdeas {
+  return {
+    detectedIngredients: validation.detectedIngredients,
+    candidates: validation.candidates.map(({ validation: candidate, missingIngredients }) => {
+      const recipe = withRecipeFallbacks(candidate);
+      return {
+        ...recipe,
+        missingIngredients:
+          missingIngredients ?? findMissingIngredients(recipe.ingredients, validation.detectedIngredients),
+      };
+    }),
+  };
+}
+
+/** Client-side counterpart of `withPantryFallbacks` for API payloads. */
+export function parsePantryIdeas(payload: unknown): PantryIdeas {
+  const record = (payload && typeof payload === "object" ? payload : {}) as Record<string, unknown>;
+  const detectedIngredients = detectedIngredientList(record.detectedIngredients, []);
+  const candidates = Array.isArray(record.candidates) ? record.candidates.map(parseRecipeApiResponse) : [];
+  return { detectedIngredients, candidates };
+}
@@ -0,0 +1,78 @@
+type OpenContainer = {
+  closer: "}" | "]";
+  expectKey: boolean;
+};
+
+/**
+ * Turns a truncated JSON document (as produced by a streaming model) into the
+ * largest parseable prefix: everything up to the last complete value, with the
+ * still-open objects and arrays closed. Nested objects are only kept once they
+ * are complete, so an array item never shows up with half of its keys. Returns
+ * null when no value is complete.
+ */
+export function closePartialJson(raw: string): string | null {
+  const start = raw.indexOf("{");
+  if (start === -1) return null;
+
+  const stack: OpenContainer[] = [];
+  let inString = false;
+  let stringIsKey = false;
+  let escaped = false;
+  let safeEnd = -1;
+  let safeClosers = "";
+
+  const markSafe = (end: number) => {
+    const innermost = stack[stack.length - 1];
+    if (stack.length > 1 && innermost.closer === "}") return;
+    safeEnd = end;
+    safeClosers = stack
+      .map((container) => container.closer)
+      .reverse()
+      .join("");
+  };
+
+  for (let index = start; index < raw.length; index += 1) {
+    const char = raw[index];
+    const top = stack[stack.length - 1];
+
+    if (inString) {
+      if (escaped) {
+        escaped = false;
+      } else if (char === "\\") {
+        escaped = true;
+      } else if (char === '"') {
+        inString = false;
+        if (!stringIsKey) markSafe(index + 1);
+      }
+      continue;
+    }
+
+    switch (char) {
+      case '"':
+        inString = true;
+        stringIsKey = top?.closer === "}" && top.expectKey;
+        break;
+      case ":":
+        if (top) top.expectKey = false;
+        break;
+      case ",":
+        markSafe(index);
+        if (top?.closer === "}") top.expectKey = true;
+        break;
+      case "{":
+        stack.push({ closer: "}", expectKey: true });
+        break;
+      case "[":
+        stack.push({ closer: "]", expectKey: false });
+        break;
+      case "}":
+      case "]":
+        stack.pop();
+        markSafe(index + 1);
+        if (stack.length === 0) return raw.slice(start, index + 1);
+        break;
+    }
+  }
+
+  return safeEnd === -1 ? null : `${raw.slice(start, safeEnd)}${safeClosers}`;
+}
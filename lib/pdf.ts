@@ -0,0 +1,269 @@
+/**
+ * A small PDF writer: text in the built-in Helvetica faces (no font files to
+ * embed, and identical in every viewer), lines, rectangles and JPEG images
+ * passed through untouched. Text is encoded as WinAnsi, which covers Western
+ * European recipes; other characters are simplified or replaced.
+ */
+
+export type PdfFont = "regular" | "bold";
+export type PdfColor = [number, number, number];
+
+export type PdfImage = {
+  data: Uint8Array;
+  width: number;
+  height: number;
+  components: 1 | 3;
+};
+
+export type PdfPage = {
+  width: number;
+  height: number;
+  /** Content stream operators, one drawing command per entry. */
+  content: string[];
+};
+
+// Advance widths (1/1000 em) for ASCII 32-126, from the Adobe font metrics.
+const HELVETICA_WIDTHS = [
+  278, 278, 355, 556, 556, 889, 667, 191, 333, 333, 389, 584, 278, 333, 278, 278, 556, 556, 556, 556, 556, 556, 556,
+  556, 556, 556, 278, 278, 584, 584, 584, 556, 1015, 667, 667, 722, 722, 667, 611, 778, 722, 278, 500, 667, 556, 833,
+  722, 778, 667, 778, 722, 667, 611, 722, 667, 944, 667, 667, 611, 278, 278, 278, 469, 556, 333, 556, 556, 500, 556,
+  556, 278, 556, 556, 222, 222, 500, 222, 833, 556, 556, 556, 556, 333, 500, 278, 556, 500, 722, 500, 500, 500, 334,
+  260, 334, 584,
+];
+const HELVETICA_BOLD_WIDTHS = [
+  278, 333, 474, 556, 556, 889, 722, 238, 333, 333, 389, 584, 278, 333, 278, 278, 556, 556, 556, 556, 556, 556, 556,
+  556, 556, 556, 333, 333, 584, 584, 584, 611, 975, 722, 722, 722, 722, 667, 611, 778, 722, 278, 556, 722, 611, 833,
+  722, 778, 667, 778, 722, 667, 611, 722, 667, 944, 667, 667, 611, 333, 278, 333, 584, 556, 333, 556, 611, 556, 611,
+  556, 333, 611, 611, 278, 278, 556, 278, 889, 611, 611, 611, 611, 389, 556, 333, 611, 556, 778, 556, 556, 500, 389,
+  280, 389, 584,
+];
+
+/** Windows-1252 code points outside Latin-1, with their widths (regular, bold). */
+const WIN_ANSI_EXTRAS: Record<string, [number, number, number]> = {
+  "€": [0x80, 556, 556],
+  "…": [0x85, 1000, 1000],
+  "‘": [0x91, 222, 278],
+  "’": [0x92, 222, 278],
+  "“": [0x93, 333, 500],
+  "”": [0x94, 333, 500],
+  "•": [0x95, 350, 350],
+  "–": [0x96, 556, 556],
+  "—": [0x97, 1000, 1000],
+  "™": [0x99, 1000, 1000],
+};
+
+/** Latin-1 symbols whose width is not that of a plain letter. */
+const LATIN1_WIDTHS: Record<number, number> = {
+  0xa0: 278,
+  0xb0: 400,
+  0xb7: 278,
+  0xbc: 834,
+  0xbd: 834,
+  0xbe: 834,
+  0xd7: 584,
+  0xf7: 584,
+};
+
+const REPLACEMENTS: Record<string, string> = {
+  "⅓": "1/3",
+  "⅔": "2/3",
+  "⅛": "1/8",
+  "⅜": "3/8",
+  "⅝": "5/8",
+  "⅞": "7/8",
+  "−": "-",
+  " ": " ",
+  " ": " ",
+};
+
+type Glyph = { code: number; widths: [number, number] };
+
+function asciiWidths(code: number): [number, number] {
+  return [HELVETICA_WIDTHS[code - 32] ?? 556, HELVETICA_BOLD_WIDTHS[code - 32] ?? 556];
+}
+
+function toGlyphs(text: string): Glyph[] {
+  const glyphs: Glyph[] = [];
+  for (const char of text.replace(/[\t\r\n]+/g, " ")) {
+    const replacement = REPLACEMENTS[char];
+    if (replacement) {
+      glyphs.push(...toGlyphs(replacement));
+      continue;
+    }
+    const code = char.codePointAt(0) ?? 63;
+    if (code >= 32 && code <= 126) {
+      glyphs.push({ code, widths: asciiWidths(code) });
+    } else if (WIN_ANSI_EXTRAS[char]) {
+      const [winCode, regular, bold] = WIN_ANSI_EXTRAS[char];
+      glyphs.push({ code: winCode, widths: [regular, bold] });
+    } else if (code >= 0xa0 && code <= 0xff) {
+      const width = LATIN1_WIDTHS[code];
+      const base = char.normalize("NFD")[0].codePointAt(0) ?? 111;
+      glyphs.push({ code, widths: width ? [width, width] : asciiWidths(base >= 32 && base <= 126 ? base : 111) });
+    } else {
+      const base = char.normalize("NFD")[0];
+      const baseCode = base.codePointAt(0) ?? 63;
+      const fallback = baseCode >= 32 && baseCode <= 126 ? baseCode : 63;
+      glyphs.push({ code: fallback, widths: asciiWidths(fallback) });
+    }
+  }
+  return glyphs;
+}
+
+export function measureText(text: string, font: PdfFont, size: number) {
+  const index = font === "bold" ? 1 : 0;
+  return (toGlyphs(text).reduce((sum, glyph) => sum + glyph.widths[index], 0) * size) / 1000;
+}
+
+/** Greedy word wrap; words longer than a line are split. */
+export function wrapText(text: string, font: PdfFont, size: number, maxWidth: number): string[] {
+  const lines: string[] = [];
+  let line = "";
+  for (const word of text.split(/\s+/).filter(Boolean)) {
+    const candidate = line ? `${line} ${word}` : word;
+    if (measureText(candidate, font, size) <= maxWidth) {
+      line = candidate;
+      continue;
+    }
+    if (line) lines.push(line);
+    line = word;
+    while (measureText(line, font, size) > maxWidth && line.length > 1) {
+      let cut = line.length - 1;
+      while (cut > 1 && measureText(line.slice(0, cut), font, size) > maxWidth) cut -= 1;
+      lines.push(line.slice(0, cut));
+      line = line.slice(cut);
+    }
+  }
+  if (line) lines.push(line);
+  return lines;
+}
+
+function pdfString(text: string) {
+  return toGlyphs(text)
+    .map(({ code }) => {
+      if (code === 40 || code === 41 || code === 92) return `\\${String.fromCharCode(code)}`;
+      return code < 128 ? String.fromCharCode(code) : `\\${code.toString(8).padStart(3, "0")}`;
+    })
+    .join("");
+}
+
+function color([red, green, blue]: PdfColor) {
+  return [red, green, blue].map((value) => (value / 255).toFixed(3)).join(" ");
+}
+
+function num(value: number) {
+  return Number(value.toFixed(2)).toString();
+}
+
+/** Draws one line of text with its baseline at `y` (PDF coordinates: origin bottom-left). */
+export function textOp(text: string, x: number, y: number, font: PdfFont, size: number, fill: PdfColor) {
+  const fontName = font === "bold" ? "F2" : "F1";
+  return `BT ${color(fill)} rg /${fontName} ${num(size)} Tf ${num(x)} ${num(y)} Td (${pdfString(text)}) Tj ET`;
+}
+
+export function lineOp(x1: number, y1: number, x2: number, y2: number, stroke: PdfColor, width = 0.75) {
+  return `${color(stroke)} RG ${num(width)} w ${num(x1)} ${num(y1)} m ${num(x2)} ${num(y2)} l S`;
+}
+
+export function rectOp(x: number, y: number, width: number, height: number, style: { fill?: PdfColor; stroke?: PdfColor }) {
+  const paint = style.fill && style.stroke ? "B" : style.fill ? "f" : "S";
+  return [
+    style.fill ? `${color(style.fill)} rg` : "",
+    style.stroke ? `${color(style.stroke)} RG 0.75 w` : "",
+    `${num(x)} ${num(y)} ${num(width)} ${num(height)} re ${paint}`,
+  ]
+    .filter(Boolean)
+    .join(" ");
+}
+
+/** Places image number `index` (from the list given to `buildPdf`) in a box. */
+export function imageOp(index: number, x: number, y: number, width: number, height: number) {
+  return `q ${num(width)} 0 0 ${num(height)} ${num(x)} ${num(y)} cm /Im${index} Do Q`;
+}
+
+/** Reads the pixel size of a baseline or progressive JPEG; null for other data. */
+export function readJpeg(data: Uint8Array): PdfImage | null {
+  if (data[0] !== 0xff || data[1] !== 0xd8) return null;
+  let offset = 2;
+  while (offset + 9 < data.length) {
+    if (data[offset] !== 0xff) return null;
+    const marker = data[offset + 1];
+    const length = (data[offset + 2] << 8) | data[offset + 3];
+    const isFrame = marker >= 0xc0 && marker <= 0xcf && marker !== 0xc4 && marker !== 0xc8 && marker !== 0xcc;
+    if (isFrame) {
+      const height = (data[offset + 5] << 8) | data[offset + 6];
+      const width = (data[offset + 7] << 8) | data[offset + 8];
+      const components = data[offset + 9];
+      return components === 1 || components === 3 ? { data, width, height, components } : null;
+    }
+    offset += 2 + length;
+  }
+  return null;
+}
+
+/** Serializes pages into a complete PDF file. */
+export function buildPdf(pages: PdfPage[], images: PdfImage[], title: string): Uint8Array {
+  const encoder = new TextEncoder();
+  const chunks: Uint8Array[] = [];
+  const offsets: number[] = [];
+  let length = 0;
+
+  function write(part: string | Uint8Array) {
+    const bytes = typeof part === "string" ? encoder.encode(part) : part;
+    chunks.push(bytes);
+    length += bytes.length;
+  }
+  function object(id: number, body: string, stream?: Uint8Array) {
+    offsets[id] = length;
+    write(`${id} 0 obj\n${body}\n`);
+    if (stream) {
+      write("stream\n");
+      write(stream);
+      write("\nendstream\n");
+    }
+    write("endobj\n");
+  }
+
+  // Object numbers: 1 catalog, 2 page tree, 3-4 fonts, 5 info, then images, then page/content pairs.
+  const firstImage = 6;
+  const firstPage = firstImage + images.length;
+  const pageIds = pages.map((_, index) => firstPage + index * 2);
+  const xObjects = images.map((_, index) => `/Im${index} ${firstImage + index} 0 R`).join(" ");
+
+  write("%PDF-1.4\n%\xe2\xe3\xcf\xd3\n");
+  object(1, "<< /Type /Catalog /Pages 2 0 R >>");
+  object(2, `<< /Type /Pages /Kids [${pageIds.map((id) => `${id} 0 R`).join(" ")}] /Count ${pages.length} >>`);
+  object(3, "<< /Type /Font /Subtype /Type1 /BaseFont /Helvetica /Encoding /WinAnsiEncoding >>");
+  object(4, "<< /Type /Font /Subtype /Type1 /BaseFont /Helvetica-Bold /Encoding /WinAnsiEncoding >>");
+  object(5, `<< /Title (${pdfString(title)}) /Producer (ChefCam) >>`);
+  images.forEach((image, index) => {
+    const colorSpace = image.components === 1 ? "/DeviceGray" : "/DeviceRGB";
+    object(
+      firstImage + index,
+      `<< /Type /XObject /Subtype /Image /Width ${image.width} /Height ${image.height} /ColorSpace ${colorSpace} /BitsPerComponent 8 /Filter /DCTDecode /Length ${image.data.length} >>`,
+      image.data
+    );
+  });
+  pages.forEach((page, index) => {
+    const content = encoder.encode(page.content.join("\n"));
+    object(
+      pageIds[index],
+      `<< /Type /Page /Parent 2 0 R /MediaBox [0 0 ${num(page.width)} ${num(page.height)}] /Resources << /Font << /F1 3 0 R /F2 4 0 R >> /XObject << ${xObjects} >> >> /Contents ${pageIds[index] + 1} 0 R >>`
+    );
+    object(pageIds[index] + 1, `<< /Length ${content.length} >>`, content);
+  });
+
+  const xref = length;
+  const count = firstPage + pages.length * 2;
+  write(`xref\n0 ${count}\n0000000000 65535 f \n`);
+  for (let id = 1; id < count; id += 1) write(`${String(offsets[id]).padStart(10, "0")} 00000 n \n`);
+  write(`trailer\n<< /Size ${count} /Root 1 0 R /Info 5 0 R >>\nstartxref\n${xref}\n%%EOF\n`);
+
+  const pdf = new Uint8Array(length);
+  let position = 0;
+  for (const chunk of chunks) {
+    pdf.set(chunk, position);
+    position += chunk.length;
+  }
+  return pdf;
+}
@@ -0,0 +1,128 @@
+/**
+ * Cheap checks that catch photos the model would only guess at: blur
+ * (variance of the Laplacian), exposure (mean brightness and clipped pixels)
+ * and resolution. Runs on a grayscale copy scaled to QUALITY_SAMPLE_SIZE, in
+ * the browser before upload and again on the server, with the same thresholds.
+ */
+
+export type PhotoQualityIssue = "blurry" | "dark" | "bright" | "small";
+
+export type PhotoQuality = {
+  /** Size of the original photo, after orientation. */
+  width: number;
+  height: number;
+  /** Variance of the Laplacian on the sample; low values mean blur. */
+  sharpness: number;
+  /** Mean luminance, 0-255. */
+  brightness: number;
+  /** Share of pixels crushed to black. */
+  shadowClipping: number;
+  /** Share of pixels blown out to white. */
+  highlightClipping: number;
+  issues: PhotoQualityIssue[];
+};
+
+/** Longest side of the grayscale sample the scores are measured on. */
+export const QUALITY_SAMPLE_SIZE = 512;
+
+const MIN_SHARPNESS = 35;
+const MIN_BRIGHTNESS = 55;
+const MAX_BRIGHTNESS = 210;
+const MAX_SHADOW_CLIPPING = 0.6;
+const MAX_HIGHLIGHT_CLIPPING = 0.35;
+const MIN_SHORT_SIDE = 360;
+
+const ADVICE: Record<PhotoQualityIssue, string> = {
+  blurry: "Blurry — hold the phone steady and tap the dish to focus.",
+  dark: "Too dark — add light or move closer to a window.",
+  bright: "Overexposed — move out of direct light or turn off the flash.",
+  small: "Low resolution — move closer or use a larger photo.",
+};
+
+const LABELS: Record<PhotoQualityIssue, string> = {
+  blurry: "blurry",
+  dark: "too dark",
+  bright: "overexposed",
+  small: "low resolution",
+};
+
+export function getPhotoQualityAdvice(issue: PhotoQualityIssue) {
+  return ADVICE[issue];
+}
+
+/** A recipe warning naming the weak photos, or null when every photo passed. */
+export function describePhotoQualityIssues(photos: PhotoQuality[]): string | null {
+  const weak = photos.flatMap((photo, index) =>
+    photo.issues.length > 0
+      ? [`${photos.length > 1 ? `Photo ${index + 1}` : "The photo"} is ${photo.issues.map((issue) => LABELS[issue]).join(" and ")}`]
+      : []
+  );
+  return weak.length > 0 ? `${weak.join("; ")}, so the dish may have been guessed.` : null;
+}
+
+/** Rec. 601 luma of RGBA pixel data, as returned by a canvas. */
+export function rgbaToLuma(rgba: ArrayLike<number>): Uint8Array {
+  const luma = new Uint8Array(Math.floor(rgba.length / 4));
+  for (let pixel = 0; pixel < luma.length; pixel += 1) {
+    const offset = pixel * 4;
+    luma[pixel] = Math.round(0.299 * rgba[offset] + 0.587 * rgba[offset + 1] + 0.114 * rgba[offset + 2]);
+  }
+  return luma;
+}
+
+/** Scores a grayscale sample (one byte per pixel, row by row) of a photo of `size`. */
+export function measurePhotoQuality(
+  luma: ArrayLike<number>,
+  sample: { width: number; height: number },
+  size: { width: number; height: number }
+): PhotoQuality {
+  const { width, height } = sample;
+  let total = 0;
+  let shadows = 0;
+  let highlights = 0;
+  for (let index = 0; index < width * height; index += 1) {
+    const value = luma[index];
+    total += value;
+    if (value <= 16) shadows += 1;
+    if (value >= 250) highlights += 1;
+  }
+  const pixels = Math.max(1, width * height);
+
+  // 4-neighbour Laplacian over the interior pixels.
+  let sum = 0;
+  let sumOfSquares = 0;
+  let count = 0;
+  for (let y = 1; y < height - 1; y += 1) {
+    for (let x = 1; x < width - 1; x += 1) {
+      const index = y * width + x;
+      const laplacian =
+        4 * luma[index] - luma[index - 1] - luma[index + 1] - luma[index - width] - luma[index + width];
+      sum += laplacian;
+      sumOfSquares += laplacian * laplacian;
+      count += 1;
+    }
+  }
+  const mean = count > 0 ? sum / count : 0;
+  const sharpness = count > 0 ? sumOfSquares / count - mean * mean : 0;
+
+  const brightness = total / pixels;
+  const shadowClipping = shadows / pixels;
+  const highlightClipping = highlights / pixels;
+  const dark = brightness < MIN_BRIGHTNESS || shadowClipping > MAX_SHADOW_CLIPPING;
+  const issues: PhotoQualityIssue[] = [];
+  // Dim photos have little contrast for the Laplacian to find, so light is the advice that helps.
+  if (dark) issues.push("dark");
+  else if (sharpness < MIN_SHARPNESS) issues.push("blurry");
+  if (brightness > MAX_BRIGHTNESS || highlightClipping > MAX_HIGHLIGHT_CLIPPING) issues.push("bright");
+  if (Math.min(size.width, size.height) < MIN_SHORT_SIDE) issues.push("small");
+
+  return {
+    width: size.width,
+    height: size.height,
+    sharpness: Math.round(sharpness * 10) / 10,
+    brightness: Math.round(brightness * 10) / 10,
+    shadowClipping: Math.round(shadowClipping * 1000) / 1000,
+    highlightClipping: Math.round(highlightClipping * 1000) / 1000,
+    issues,
+  };
+}
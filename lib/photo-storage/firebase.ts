@@ -0,0 +1,27 @@
+import { getAdminBucket } from "../firebase-admin";
+import { PhotoStorage } from "./types";
+
+/** Cloud Storage for Firebase, in the bucket named by FIREBASE_STORAGE_BUCKET. */
+export function createFirebasePhotoStorage(options: { prefix: string }): PhotoStorage {
+  const file = (key: string) => getAdminBucket().file(`${options.prefix}${key}`);
+
+  return {
+    id: "firebase",
+    async put(key, photo) {
+      await file(key).save(Buffer.from(photo.data), {
+        contentType: photo.contentType,
+        resumable: false,
+      });
+    },
+    async get(key) {
+      const target = file(key);
+      const [exists] = await target.exists();
+      if (!exists) return null;
+      const [[data], [metadata]] = await Promise.all([target.download(), target.getMetadata()]);
+      return { data: new Uint8Array(data), contentType: metadata.contentType || "image/jpeg" };
+    },
+    async delete(key) {
+      await file(key).delete({ ignoreNotFound: true });
+    },
+  };
+}
@@ -0,0 +1,22 @@
+import { createFirebasePhotoStorage } from "./firebase";
+import { createLocalPhotoStorage } from "./local";
+import { PhotoStorage } from "./types";
+
+export type { PhotoStorage, StoredPhoto } from "./types";
+
+/**
+ * Picks where dish photos live from PHOTO_STORAGE ("local" by default, which
+ * writes to PHOTO_STORAGE_DIR or `.data/photos`; "firebase" for Cloud Storage).
+ */
+export function getPhotoStorage(): PhotoStorage {
+  const storageId = (process.env.PHOTO_STORAGE?.trim() || "local").toLowerCase();
+
+  switch (storageId) {
+    case "local":
+      return createLocalPhotoStorage({ directory: process.env.PHOTO_STORAGE_DIR?.trim() || ".data/photos" });
+    case "firebase":
+      return createFirebasePhotoStorage({ prefix: "dish-photos/" });
+    default:
+      throw new Error(`Unknown PHOTO_STORAGE "${storageId}". Use local or firebase.`);
+  }
+}
@@ -0,0 +1,31 @@
+import { mkdir, readFile, rm, writeFile } from "node:fs/promises";
+import path from "node:path";
+import { PhotoStorage } from "./types";
+
+/**
+ * Keeps photos as files under `directory`, for development. Keys are checked
+ * by the caller, so they never contain path separators.
+ */
+export function createLocalPhotoStorage(options: { directory: string }): PhotoStorage {
+  const directory = path.resolve(options.directory);
+
+  return {
+    id: "local",
+    async put(key, photo) {
+      await mkdir(directory, { recursive: true });
+      await writeFile(path.join(directory, key), photo.data);
+    },
+    async get(key) {
+      try {
+        const data = await readFile(path.join(directory, key));
+        return { data: new Uint8Array(data), contentType: "image/jpeg" };
+      } catch (error) {
+        if ((error as NodeJS.ErrnoException).code === "ENOENT") return null;
+        throw error;
+      }
+    },
+    async delete(key) {
+      await rm(path.join(directory, key), { force: true });
+    },
+  };
+}
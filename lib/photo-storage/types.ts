@@ -0,0 +1,14 @@
+export type StoredPhoto = {
+  data: Uint8Array;
+  contentType: string;
+};
+
+export type PhotoStorage = {
+  /** Stable identifier used in logs and the PHOTO_STORAGE env var. */
+  id: string;
+  put(key: string, photo: StoredPhoto): Promise<void>;
+  /** Resolves to null when nothing is stored under `key`. */
+  get(key: string): Promise<StoredPhoto | null>;
+  /** Removing a missing key is not an error. */
+  delete(key: string): Promise<void>;
+};
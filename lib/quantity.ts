@@ -0,0 +1,329 @@
+/**
+ * Parsing, formatting and scaling of ingredient quantities. Works on the
+ * structured `quantity`/`quantityMax`/`unit` fields and can upgrade legacy
+ * free-text amounts such as "1 1/2 cups", "2-3 cloves" or "to taste".
+ */
+
+export type ParsedAmount = {
+  quantity: number | null;
+  quantityMax: number | null;
+  unit: string | null;
+};
+
+type Scalable = ParsedAmount & { amount: string };
+
+const UNICODE_FRACTIONS: Record<string, number> = {
+  "¼": 0.25,
+  "½": 0.5,
+  "¾": 0.75,
+  "⅓": 1 / 3,
+  "⅔": 2 / 3,
+  "⅛": 0.125,
+  "⅜": 0.375,
+  "⅝": 0.625,
+  "⅞": 0.875,
+};
+
+const WORD_NUMBERS: Record<string, number> = {
+  a: 1,
+  an: 1,
+  one: 1,
+  two: 2,
+  three: 3,
+  four: 4,
+  five: 5,
+  six: 6,
+  half: 0.5,
+};
+
+/** Denominators for word fractions such as "one-third" or "a quarter". */
+const FRACTION_WORDS: Record<string, number> = {
+  half: 2,
+  third: 3,
+  thirds: 3,
+  quarter: 4,
+  quarters: 4,
+};
+
+/** Canonical unit spellings. Keys are lower-case aliases. */
+const UNIT_ALIASES: Record<string, string> = {
+  g: "g",
+  gram: "g",
+  grams: "g",
+  gr: "g",
+  kg: "kg",
+  kilogram: "kg",
+  kilograms: "kg",
+  mg: "mg",
+  ml: "ml",
+  milliliter: "ml",
+  milliliters: "ml",
+  millilitre: "ml",
+  millilitres: "ml",
+  l: "l",
+  liter: "l",
+  liters: "l",
+  litre: "l",
+  litres: "l",
+  tsp: "tsp",
+  teaspoon: "tsp",
+  teaspoons: "tsp",
+  tbsp: "tbsp",
+  tablespoon: "tbsp",
+  tablespoons: "tbsp",
+  tbs: "tbsp",
+  cup: "cup",
+  cups: "cup",
+  oz: "oz",
+  ounce: "oz",
+  ounces: "oz",
+  "fl oz": "fl oz",
+  lb: "lb",
+  lbs: "lb",
+  pound: "lb",
+  pounds: "lb",
+  pinch: "pinch",
+  pinches: "pinch",
+  clove: "clove",
+  cloves: "clove",
+  slice: "slice",
+  slices: "slice",
+  can: "can",
+  cans: "can",
+  sprig: "sprig",
+  sprigs: "sprig",
+  stalk: "stalk",
+  stalks: "stalk",
+  bunch: "bunch",
+  bunches: "bunch",
+  piece: "piece",
+  pieces: "piece",
+  handful: "handful",
+  handfuls: "handful",
+};
+
+const UNIT_PLURALS: Record<string, string> = {
+  cup: "cups",
+  pinch: "pinches",
+  clove: "cloves",
+  slice: "slices",
+  can: "cans",
+  sprig: "sprigs",
+  stalk: "stalks",
+  bunch: "bunches",
+  piece: "pieces",
+  handful: "handfuls",
+};
+
+const NUMBER_PATTERN = String.raw`(\d+\s+\d+\/\d+|\d+\/\d+|\d+(?:[.,]\d+)?\s*[¼½¾⅓⅔⅛⅜⅝⅞]?|[¼½¾⅓⅔⅛⅜⅝⅞])`;
+const WORD_FRACTION_PATTERN = String.raw`(?:a|an|one|two|three)[\s-](?:half|thirds?|quarters?)\b`;
+const AMOUNT_PATTERN = new RegExp(
+  String.raw`^(?:about|approx\.?|approximately|~)?\s*${NUMBER_PATTERN}(?:\s*(?:-|–|to)\s*${NUMBER_PATTERN})?\s*(.*)$`,
+  "i"
+);
+
+/** Reads "1 1/2", "3/4", "1½", "2.5" or "2,5"; returns null for anything else. */
+export function parseNumber(token: string): number | null {
+  const value = token.trim().replace(",", ".");
+  const mixed = value.match(/^(\d+)\s+(\d+)\/(\d+)$/);
+  if (mixed) return Number(mixed[1]) + Number(mixed[2]) / Number(mixed[3]);
+  const fraction = value.match(/^(\d+)\/(\d+)$/);
+  if (fraction) return Number(fraction[2]) === 0 ? null : Number(fraction[1]) / Number(fraction[2]);
+  const withGlyph = value.match(/^(\d+(?:\.\d+)?)?\s*([¼½¾⅓⅔⅛⅜⅝⅞])$/);
+  if (withGlyph) return Number(withGlyph[1] || 0) + UNICODE_FRACTIONS[withGlyph[2]];
+  const number = Number(value);
+  return Number.isFinite(number) ? number : null;
+}
+
+function lookupUnit(unit: string) {
+  return UNIT_ALIASES[unit.trim().toLowerCase().replace(/\./g, "")] as string | undefined;
+}
+
+/** Maps a unit word to its canonical spelling, or returns it trimmed if unknown. */
+export function normalizeUnit(unit: string | null | undefined): string | null {
+  const trimmed = unit?.trim();
+  if (!trimmed) return null;
+  return lookupUnit(trimmed) ?? trimmed;
+}
+
+export function isKnownUnit(unit: string | null | undefined) {
+  return Boolean(unit && lookupUnit(unit));
+}
+
+/** "a little salt" or "a splash of milk" is not one of anything. */
+const VAGUE_AFTER_ARTICLE = /^(little|few|bit|couple|dash|splash|drizzle|glug|knob|squeeze|sprinkle|touch|good|generous)\b/i;
+
+/**
+ * A size or pack size in front of the unit ("2 large eggs", "3 x 400g cans").
+ * It describes each item rather than being a unit of its own.
+ */
+const DESCRIPTOR_PATTERN = /^(?:small|medium|large|big|\d+(?:[.,]\d+)?[\s-]?(?:g|kg|ml|l|oz|lb))\s+/i;
+
+/**
+ * Parses free text such as "1 1/2 cups", "2-3 cloves", "400g", "a pinch",
+ * "one-third cup", "a 400g can" or "to taste". Text without a leading number
+ * keeps a null quantity.
+ */
+export function parseAmount(text: string): ParsedAmount {
+  const cleaned = text.trim().replace(/\s+/g, " ");
+  const wordFraction = cleaned.match(/^(a|an|one|two|three)[\s-](half|thirds?|quarters?)\b\s*(.*)$/i);
+  if (wordFraction) {
+    return {
+      quantity: WORD_NUMBERS[wordFraction[1].toLowerCase()] / FRACTION_WORDS[wordFraction[2].toLowerCase()],
+      quantityMax: null,
+      unit: parseUnit(wordFraction[3].replace(/^of\s+(?:an?\s+)?/i, "")),
+    };
+  }
+
+  const wordNumber = cleaned.match(/^(a|an|one|two|three|four|five|six|half)\b\s*(.*)$/i);
+  // An article reads as one ("an onion", "a 400g can") unless the amount is vague.
+  if (wordNumber && wordNumber[2] && !(/^an?$/i.test(wordNumber[1]) && VAGUE_AFTER_ARTICLE.test(wordNumber[2]))) {
+    return {
+      quantity: WORD_NUMBERS[wordNumber[1].toLowerCase()],
+      quantityMax: null,
+      unit: parseUnit(wordNumber[2].replace(/^an?\s+/i, "")),
+    };
+  }
+
+  const match = cleaned.match(AMOUNT_PATTERN);
+  if (!match) return { quantity: null, quantityMax: null, unit: null };
+
+  const quantity = parseNumber(match[1]);
+  const quantityMax = match[2] ? parseNumber(match[2]) : null;
+  return {
+    quantity,
+    quantityMax: quantityMax !== null && quantity !== null && quantityMax > quantity ? quantityMax : null,
+    unit: parseUnit(match[3]),
+  };
+}
+
+const LINE_AMOUNT_PATTERN = new RegExp(
+  String.raw`^((?:about|approx\.?|approximately|~)?\s*${NUMBER_PATTERN}(?:\s*(?:-|–|to)\s*${NUMBER_PATTERN})?|${WORD_FRACTION_PATTERN}|(?:one|two|three|four|five|six|half)\b|an?(?=\s))\s*(.*)$`,
+  "i"
+);
+const NO_AMOUNT_SUFFIX = /^(.*?),?\s+(to taste|as needed|for garnish|for serving|optional)$/i;
+
+/**
+ * Splits a one-line ingredient from another app ("2 cups plain flour", "a pinch
+ * of salt", "Salt, to taste") into the amount and the ingredient name. The
+ * amount is empty when the line has none.
+ */
+export function splitIngredientLine(line: string): { amount: string; item: string } {
+  const cleaned = line.trim().replace(/^[-*•]\s*/, "").replace(/\s+/g, " ");
+  const match = cleaned.match(LINE_AMOUNT_PATTERN);
+  if (match && match[4]) {
+    let amount = match[1].trim();
+    let item = match[4];
+    // A pack size belongs to the amount when a unit follows it ("3 x 400g cans tomatoes").
+    const pack = item.match(/^(?:[x×]\s*)?\d+(?:[.,]\d+)?[\s-]?(?:g|kg|ml|l|oz|lb)\s+/i)?.[0] ?? "";
+    const unitText = item.slice(pack.length);
+    const unitWord = unitText.match(/^fl\.?\s?oz\b\.?/i)?.[0] ?? unitText.split(/[\s,]/)[0];
+    if (isKnownUnit(unitWord)) {
+      amount = `${amount} ${pack}${unitWord}`;
+      item = unitText.slice(unitWord.length).trim().replace(/^of\s+/i, "");
+    } else if (/^an?$/i.test(amount)) {
+      item = cleaned;
+      amount = "";
+    }
+    if (item) return { amount, item };
+  }
+
+  const suffix = cleaned.match(NO_AMOUNT_SUFFIX);
+  return suffix ? { amount: suffix[2].toLowerCase(), item: suffix[1] } : { amount: "", item: cleaned };
+}
+
+/**
+ * "cups, packed" → "cup, packed" and "x 400g cans" → "400g can". A size before
+ * the ingredient's own name ("large egg") keeps just the size, since the name
+ * is already the item. Other unknown words are kept verbatim.
+ */
+function parseUnit(rest: string) {
+  const trimmed = rest.trim().replace(/^[x×](?=\s|\d)\s*/i, "");
+  if (!trimmed) return null;
+  const descriptor = trimmed.match(DESCRIPTOR_PATTERN)?.[0] ?? "";
+  const unitText = trimmed.slice(descriptor.length);
+  const unitWord = unitText.match(/^fl\.?\s?oz\b\.?/i)?.[0] ?? unitText.split(/[\s,]/)[0];
+  const canonical = lookupUnit(unitWord);
+  if (canonical) return `${descriptor}${canonical}${unitText.slice(unitWord.length)}`;
+  return descriptor ? descriptor.trim() : trimmed;
+}
+
+const FRACTIONS: Array<[number, string]> = [
+  [1 / 8, "1/8"],
+  [1 / 4, "1/4"],
+  [1 / 3, "1/3"],
+  [3 / 8, "3/8"],
+  [1 / 2, "1/2"],
+  [5 / 8, "5/8"],
+  [2 / 3, "2/3"],
+  [3 / 4, "3/4"],
+  [7 / 8, "7/8"],
+];
+
+/** Formats a quantity for cooks: common fractions for small values, rounded numbers otherwise. */
+export function formatQuantity(value: number, unit?: string | null): string {
+  const canonical = normalizeUnit(unit);
+  if (canonical === "g" || canonical === "ml" || canonical === "mg") {
+    return String(value >= 100 ? Math.round(value / 5) * 5 : Math.round(value));
+  }
+  if (value >= 10) return String(Math.round(value));
+
+  const whole = Math.floor(value);
+  const remainder = value - whole;
+  if (remainder < 0.06) return String(whole || (value > 0 ? roundTo(value, 2) : 0));
+  if (remainder > 0.94) return String(whole + 1);
+
+  const [closest, label] = FRACTIONS.reduce((best, candidate) =>
+    Math.abs(candidate[0] - remainder) < Math.abs(best[0] - remainder) ? candidate : best
+  );
+  if (Math.abs(closest - remainder) <= 0.04) {
+    return whole > 0 ? `${whole} ${label}` : label;
+  }
+  return String(roundTo(value, 1));
+}
+
+function roundTo(value: number, digits: number) {
+  const factor = 10 ** digits;
+  return Math.round(value * factor) / factor;
+}
+
+function formatUnit(unit: string | null, quantity: number) {
+  if (!unit) return "";
+  const descriptor = unit.match(DESCRIPTOR_PATTERN)?.[0] ?? "";
+  const plural = quantity > 1 ? UNIT_PLURALS[unit.slice(descriptor.length)] : undefined;
+  return plural ? `${descriptor}${plural}` : unit;
+}
+
+/** Renders structured quantity fields back to display text. */
+export function formatAmount({ quantity, quantityMax, unit }: ParsedAmount, fallback = "to taste") {
+  if (quantity === null) return fallback;
+  const range =
+    quantityMax !== null
+      ? `${formatQuantity(quantity, unit)}-${formatQuantity(quantityMax, unit)}`
+      : formatQuantity(quantity, unit);
+  const unitText = formatUnit(unit, quantityMax ?? quantity);
+  if (!unitText) return range;
+  // "2 × 400g cans" rather than "2 400g cans".
+  return /^\d/.test(unitText) ? `${range} × ${unitText}` : `${range} ${unitText}`;
+}
+
+/** Multiplies an ingredient's quantity; amounts without a number ("to taste") are left alone. */
+export function scaleAmount<T extends Scalable>(ingredient: T, factor: number): T {
+  if (ingredient.quantity === null || factor === 1) return ingredient;
+  const scaled = {
+    quantity: ingredient.quantity * factor,
+    quantityMax: ingredient.quantityMax === null ? null : ingredient.quantityMax * factor,
+    unit: ingredient.unit,
+  };
+  return { ...ingredient, ...scaled, amount: formatAmount(scaled, ingredient.amount) };
+}
+
+/** Reads a servings count from text like "4", "2-3" or "Serves 6"; ranges use the lower bound. */
+export function parseServings(value: unknown): number | null {
+  if (typeof value === "number") return Number.isFinite(value) && value > 0 ? Math.round(value) : null;
+  if (typeof value !== "string") return null;
+  const match = value.match(/\d+(?:\.\d+)?/);
+  if (!match) return null;
+  const servings = Math.round(Number(match[0]));
+  return servings > 0 ? servings : null;
+}
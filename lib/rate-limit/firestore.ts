@@ -0,0 +1,30 @@
+import { createHash } from "node:crypto";
+import { Timestamp } from "firebase-admin/firestore";
+import { getAdminDb } from "../firebase-admin";
+import { getWindowStart, RateLimitStore } from "./types";
+
+/**
+ * One Firestore document per key and window, shared by every server instance.
+ * Keys contain IP addresses, so document ids are hashes of them. Set a TTL
+ * policy on `expiresAt` to have Firestore delete finished windows.
+ */
+export function createFirestoreRateLimitStore(options: { collection: string }): RateLimitStore {
+  return {
+    id: "firestore",
+    async hit(key, windowMs) {
+      const windowStart = getWindowStart(Date.now(), windowMs);
+      const resetAt = windowStart + windowMs;
+      const id = createHash("sha256").update(`${windowMs}:${windowStart}:${key}`).digest("hex");
+      const db = getAdminDb();
+      const ref = db.collection(options.collection).doc(id);
+
+      const count = await db.runTransaction(async (transaction) => {
+        const snap = await transaction.get(ref);
+        const next = ((snap.data()?.count as number | undefined) ?? 0) + 1;
+        transaction.set(ref, { count: next, expiresAt: Timestamp.fromMillis(resetAt) });
+        return next;
+      });
+      return { count, resetAt };
+    },
+  };
+}
@@ -0,0 +1,109 @@
+import { createFirestoreRateLimitStore } from "./firestore";
+import { createMemoryRateLimitStore } from "./memory";
+import { RateLimitStore } from "./types";
+
+export type { RateLimitStore, RateLimitWindow } from "./types";
+
+export type RateLimit = {
+  /** Hits allowed per window. */
+  max: number;
+  windowMs: number;
+};
+
+export type RateLimitResult = {
+  allowed: boolean;
+  /** Every limit that was checked, for the `RateLimit-Policy` header. */
+  policy: RateLimit[];
+  /** The limit closest to running out, or the one that was exceeded. */
+  limit: number;
+  remaining: number;
+  resetAt: number;
+};
+
+let memoryStore: RateLimitStore | null = null;
+
+/**
+ * Picks where request counts live from RATE_LIMIT_STORE ("memory" by default,
+ * which only limits within one server process; "firestore" for production).
+ */
+export function getRateLimitStore(): RateLimitStore {
+  const storeId = (process.env.RATE_LIMIT_STORE?.trim() || "memory").toLowerCase();
+
+  switch (storeId) {
+    case "memory":
+      memoryStore ??= createMemoryRateLimitStore();
+      return memoryStore;
+    case "firestore":
+      return createFirestoreRateLimitStore({ collection: "rate-limits" });
+    default:
+      throw new Error(`Unknown RATE_LIMIT_STORE "${storeId}". Use memory or firestore.`);
+  }
+}
+
+/**
+ * The caller's address as seen by the proxy in front of the app. Entries at
+ * the left of `X-Forwarded-For` are whatever the client sent, so only the
+ * ones appended by RATE_LIMIT_TRUSTED_PROXIES proxies (1 by default) count,
+ * and the rightmost of those is the client. RATE_LIMIT_IP_HEADER names a
+ * header the proxy overwrites instead, such as `cf-connecting-ip`.
+ */
+export function getClientIp(req: Request) {
+  const header = process.env.RATE_LIMIT_IP_HEADER?.trim();
+  if (header) return req.headers.get(header)?.trim() || "unknown";
+
+  const proxies = Number(process.env.RATE_LIMIT_TRUSTED_PROXIES);
+  const trusted = Number.isInteger(proxies) && proxies > 0 ? proxies : 1;
+  const forwarded = (req.headers.get("x-forwarded-for") ?? "")
+    .split(",")
+    .map((entry) => entry.trim())
+    .filter(Boolean);
+  return forwarded.at(-trusted) ?? "unknown";
+}
+
+/**
+ * Records a hit against each limit for every key, shortest window first, and
+ * stops at the first one that is exceeded so a burst does not also use up the
+ * daily count. Each key is its own bucket and all of them must pass, so a
+ * caller cannot get a fresh count by switching accounts or addresses alone.
+ */
+export async function checkRateLimit(
+  store: RateLimitStore,
+  keys: string[],
+  limits: RateLimit[]
+): Promise<RateLimitResult> {
+  const policy = [...limits].sort((a, b) => a.windowMs - b.windowMs);
+  let closest: RateLimitResult | null = null;
+
+  for (const key of keys) {
+    for (const limit of policy) {
+      const window = await store.hit(key, limit.windowMs);
+      const result = {
+        allowed: window.count <= limit.max,
+        policy,
+        limit: limit.max,
+        remaining: Math.max(0, limit.max - window.count),
+        resetAt: window.resetAt,
+      };
+      if (!result.allowed) return result;
+      if (!closest || result.remaining < closest.remaining) closest = result;
+    }
+  }
+
+  return closest ?? { allowed: true, policy, limit: 0, remaining: 0, resetAt: Date.now() };
+}
+
+/**
+ * The IETF `RateLimit-*` header fields, plus `Retry-After` once the caller is
+ * limited. Times are in whole seconds from now.
+ */
+export function getRateLimitHeaders(result: RateLimitResult): Record<string, string> {
+  if (result.policy.length === 0) return {};
+  const resetSeconds = String(Math.max(1, Math.ceil((result.resetAt - Date.now()) / 1000)));
+  return {
+    "RateLimit-Policy": result.policy.map((limit) => `${limit.max};w=${limit.windowMs / 1000}`).join(", "),
+    "RateLimit-Limit": String(result.limit),
+    "RateLimit-Remaining": String(result.remaining),
+    "RateLimit-Reset": resetSeconds,
+    ...(result.allowed ? {} : { "Retry-After": resetSeconds }),
+  };
+}
@@ -0,0 +1,32 @@
+import { getWindowStart, RateLimitStore } from "./types";
+
+/** Windows are swept once the map grows past this many keys. */
+const SWEEP_THRESHOLD = 5000;
+
+/**
+ * Counts hits in process memory, for development. Every server instance keeps
+ * its own counts and they reset on restart, so production uses Firestore.
+ */
+export function createMemoryRateLimitStore(): RateLimitStore {
+  const windows = new Map<string, { count: number; resetAt: number }>();
+
+  return {
+    id: "memory",
+    async hit(key, windowMs) {
+      const now = Date.now();
+      if (windows.size > SWEEP_THRESHOLD) {
+        for (const [id, window] of windows) {
+          if (window.resetAt <= now) windows.delete(id);
+        }
+      }
+
+      const resetAt = getWindowStart(now, windowMs) + windowMs;
+      const id = `${windowMs}:${key}`;
+      const current = windows.get(id);
+      const window = current && current.resetAt === resetAt ? current : { count: 0, resetAt };
+      window.count += 1;
+      windows.set(id, window);
+      return { count: window.count, resetAt };
+    },
+  };
+}
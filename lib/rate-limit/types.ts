@@ -0,0 +1,18 @@
+export type RateLimitWindow = {
+  /** Hits in the current window, including the one just recorded. */
+  count: number;
+  /** Epoch milliseconds when the window ends and the count starts over. */
+  resetAt: number;
+};
+
+export type RateLimitStore = {
+  /** Stable identifier used in logs and the RATE_LIMIT_STORE env var. */
+  id: string;
+  /** Records one hit for `key` in its current fixed window of `windowMs`. */
+  hit(key: string, windowMs: number): Promise<RateLimitWindow>;
+};
+
+/** Fixed windows aligned to the epoch, so every server instance agrees on them. */
+export function getWindowStart(now: number, windowMs: number) {
+  return Math.floor(now / windowMs) * windowMs;
+}
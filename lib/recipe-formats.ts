@@ -0,0 +1,500 @@
+import type { DietaryPreference } from "./dietary";
+import { computeNutrition, Nutrient, NUTRIENTS, NutritionFacts } from "./nutrition";
+import { splitIngredientLine } from "./quantity";
+import { Ingredient, parseRecipeApiResponse, RecipeApiResponse } from "./recipe";
+import { extractStepTiming, formatDuration } from "./timers";
+import { createZip, gunzip, gzip, isGzip, isZip, readZip } from "./zip";
+
+/**
+ * Moves recipes in and out of other tools: schema.org `Recipe` JSON-LD (what
+ * recipe sites embed and most managers read), Markdown, and Paprika archives,
+ * which Mealie can also import. Imports go through `parseRecipeApiResponse`, so
+ * anything a format cannot carry (difficulty in JSON-LD, say) is flagged as a
+ * placeholder like any other missing field.
+ */
+
+export type RecipeFormat = "json-ld" | "markdown" | "paprika";
+
+export const RECIPE_FORMATS: Array<{ id: RecipeFormat; label: string; extension: string }> = [
+  { id: "json-ld", label: "JSON-LD", extension: "json" },
+  { id: "markdown", label: "Markdown", extension: "md" },
+  { id: "paprika", label: "Paprika", extension: "paprikarecipes" },
+];
+
+/** File types the import picker accepts. */
+export const RECIPE_IMPORT_ACCEPT = ".json,.jsonld,.md,.markdown,.txt,.html,.htm,.paprikarecipe,.paprikarecipes";
+
+const SCHEMA_NUTRIENTS: Record<Nutrient, string> = {
+  kcal: "calories",
+  protein: "proteinContent",
+  carbs: "carbohydrateContent",
+  fat: "fatContent",
+  fiber: "fiberContent",
+  sugar: "sugarContent",
+  sodium: "sodiumContent",
+};
+
+/** Diets with a schema.org `RestrictedDiet` counterpart. */
+const SCHEMA_DIETS: Partial<Record<DietaryPreference, string>> = {
+  vegetarian: "https://schema.org/VegetarianDiet",
+  vegan: "https://schema.org/VeganDiet",
+  "gluten-free": "https://schema.org/GlutenFreeDiet",
+  halal: "https://schema.org/HalalDiet",
+  kosher: "https://schema.org/KosherDiet",
+};
+
+const PLATING_HEADING = /plat|serv|present/i;
+
+type RawRecipe = Record<string, unknown>;
+
+/** "2 cups flour", or "Salt, to taste" when there is no quantity. */
+export function formatIngredientLine(ingredient: Ingredient) {
+  return ingredient.quantity === null
+    ? `${ingredient.item}, ${ingredient.amount.toLowerCase()}`
+    : `${ingredient.amount} ${ingredient.item}`;
+}
+
+function toIngredient(line: string) {
+  const { amount, item } = splitIngredientLine(line);
+  return { item, amount: amount || "as needed" };
+}
+
+function durationSeconds(text: string) {
+  return extractStepTiming(text).timers[0]?.seconds ?? 0;
+}
+
+/** 5400 → "PT1H30M"; undefined for zero. */
+function toIsoDuration(seconds: number) {
+  if (!seconds) return undefined;
+  const hours = Math.floor(seconds / 3600);
+  const minutes = Math.round((seconds % 3600) / 60);
+  return `PT${hours > 0 ? `${hours}H` : ""}${minutes > 0 || hours === 0 ? `${minutes}M` : ""}`;
+}
+
+/** "PT1H30M" → "1 h 30 min"; other text is passed through. */
+function fromIsoDuration(value: unknown) {
+  if (typeof value !== "string") return undefined;
+  const match = value.trim().match(/^P(?:(\d+)D)?(?:T(?:(\d+)H)?(?:(\d+)M)?(?:(\d+)S)?)?$/i);
+  if (!match) return value.trim() || undefined;
+  const [, days, hours, minutes, seconds] = match.map((part) => Number(part || 0));
+  const total = days * 86400 + hours * 3600 + minutes * 60 + seconds;
+  return total > 0 ? formatDuration(total) : undefined;
+}
+
+function nutritionLines(recipe: RecipeApiResponse) {
+  const { perServing } = computeNutrition(recipe);
+  return NUTRIENTS.flatMap(({ id, label, unit }) => {
+    const value = perServing[id];
+    return value ? [`${label}: ${value.amount} ${unit}`] : [];
+  });
+}
+
+/** Reads "Calories: 450 kcal" style lines back into nutrient estimates. */
+function parseNutritionLines(lines: string[]): NutritionFacts {
+  const facts: NutritionFacts = {};
+  for (const line of lines) {
+    const [label, value] = line.split(/:\s*/, 2);
+    const nutrient = NUTRIENTS.find((entry) => entry.label.toLowerCase() === label?.trim().toLowerCase());
+    const amount = Number.parseFloat(value ?? "");
+    if (nutrient && Number.isFinite(amount)) facts[nutrient.id] = amount;
+  }
+  return facts;
+}
+
+function normalizeDifficulty(value: unknown) {
+  if (typeof value !== "string") return undefined;
+  const word = value.trim().toLowerCase();
+  return word ? word[0].toUpperCase() + word.slice(1) : undefined;
+}
+
+/** Strips markup and the common entities that recipe sites leave in JSON-LD text. */
+function cleanText(value: unknown) {
+  if (typeof value !== "string") return undefined;
+  return value
+    .replace(/<[^>]*>/g, " ")
+    .replace(/&nbsp;/g, " ")
+    .replace(/&amp;/g, "&")
+    .replace(/&quot;/g, '"')
+    .replace(/&#0?39;|&apos;/g, "'")
+    .replace(/&lt;/g, "<")
+    .replace(/&gt;/g, ">")
+    .replace(/\s+/g, " ")
+    .trim();
+}
+
+function textLines(value: string) {
+  return value
+    .split(/\r?\n/)
+    .map((line) => line.trim())
+    .filter(Boolean);
+}
+
+export function toSchemaOrgRecipe(recipe: RecipeApiResponse) {
+  const { perServing } = computeNutrition(recipe);
+  const prepSeconds = durationSeconds(recipe.prepTime);
+  const cookSeconds = durationSeconds(recipe.cookTime);
+  const diets = (recipe.dietary?.diets ?? []).flatMap((diet) => SCHEMA_DIETS[diet] ?? []);
+
+  return {
+    "@context": "https://schema.org",
+    "@type": "Recipe",
+    name: recipe.dishName,
+    description: recipe.shortDescription,
+    recipeCuisine: recipe.cuisine,
+    recipeYield: `${recipe.servings} servings`,
+    prepTime: toIsoDuration(prepSeconds),
+    cookTime: toIsoDuration(cookSeconds),
+    totalTime: prepSeconds && cookSeconds ? toIsoDuration(prepSeconds + cookSeconds) : undefined,
+    recipeIngredient: recipe.ingredients.map(formatIngredientLine),
+    recipeInstructions: [
+      ...recipe.instructions.map((text) => ({ "@type": "HowToStep", text })),
+      ...(recipe.platingTips.length > 0
+        ? [
+            {
+              "@type": "HowToSection",
+              name: "Plating",
+              itemListElement: recipe.platingTips.map((text) => ({ "@type": "HowToStep", text })),
+            },
+          ]
+        : []),
+    ],
+    nutrition: {
+      "@type": "NutritionInformation",
+      servingSize: "1 serving",
+      ...Object.fromEntries(
+        NUTRIENTS.flatMap(({ id, unit }) => {
+          const value = perServing[id];
+          if (!value) return [];
+          return [[SCHEMA_NUTRIENTS[id], unit === "kcal" ? `${value.amount} calories` : `${value.amount} ${unit}`]];
+        })
+      ),
+    },
+    suitableForDiet: diets.length > 0 ? diets : undefined,
+  };
+}
+
+function isSchemaRecipe(node: RawRecipe) {
+  const type = node["@type"];
+  return type === "Recipe" || (Array.isArray(type) && type.includes("Recipe"));
+}
+
+/** Every `Recipe` node in a JSON-LD document, including ones inside `@graph`. */
+function findSchemaRecipes(value: unknown): RawRecipe[] {
+  if (Array.isArray(value)) return value.flatMap(findSchemaRecipes);
+  if (!value || typeof value !== "object") return [];
+  const node = value as RawRecipe;
+  if (isSchemaRecipe(node)) return [node];
+  return findSchemaRecipes(node["@graph"]);
+}
+
+function readSchemaInstructions(value: unknown, steps: string[], plating: string[], inPlating = false) {
+  if (typeof value === "string") {
+    (inPlating ? plating : steps).push(...textLines(value).flatMap((line) => cleanText(line) || []));
+  } else if (Array.isArray(value)) {
+    for (const entry of value) readSchemaInstructions(entry, steps, plating, inPlating);
+  } else if (value && typeof value === "object") {
+    const node = value as RawRecipe;
+    if (node["@type"] === "HowToSection" || Array.isArray(node.itemListElement)) {
+      const section = cleanText(node.name) ?? "";
+      readSchemaInstructions(node.itemListElement, steps, plating, inPlating || PLATING_HEADING.test(section));
+    } else {
+      const text = cleanText(node.text) || cleanText(node.name);
+      if (text) (inPlating ? plating : steps).push(text);
+    }
+  }
+}
+
+function fromSchemaOrgRecipe(node: RawRecipe): RawRecipe {
+  const first = (value: unknown) => (Array.isArray(value) ? value[0] : value);
+  const instructions: string[] = [];
+  const platingTips: string[] = [];
+  readSchemaInstructions(node.recipeInstructions, instructions, platingTips);
+
+  const nutritionNode = (node.nutrition ?? {}) as RawRecipe;
+  const nutrition: NutritionFacts = {};
+  for (const { id } of NUTRIENTS) {
+    const amount = Number.parseFloat(String(nutritionNode[SCHEMA_NUTRIENTS[id]] ?? ""));
+    if (Number.isFinite(amount)) nutrition[id] = amount;
+  }
+  const ingredients = node.recipeIngredient ?? node.ingredients;
+
+  return {
+    dishName: cleanText(node.name),
+    shortDescription: cleanText(node.description),
+    cuisine: cleanText(first(node.recipeCuisine)),
+    servings: first(node.recipeYield),
+    prepTime: fromIsoDuration(node.prepTime),
+    cookTime: fromIsoDuration(node.cookTime),
+    nutrition,
+    ingredients: (Array.isArray(ingredients) ? ingredients : [])
+      .flatMap((line) => cleanText(line) || [])
+      .map(toIngredient),
+    instructions,
+    platingTips,
+  };
+}
+
+/** Recipes embedded in a web page's `<script type="application/ld+json">` blocks. */
+function findHtmlSchemaRecipes(html: string): RawRecipe[] {
+  const blocks = html.matchAll(/<script[^>]*type=["']application\/ld\+json["'][^>]*>([\s\S]*?)<\/script>/gi);
+  return [...blocks].flatMap((block) => {
+    try {
+      return findSchemaRecipes(JSON.parse(block[1]));
+    } catch {
+      return [];
+    }
+  });
+}
+
+export function toMarkdownRecipe(recipe: RecipeApiResponse) {
+  const lines = [
+    `# ${recipe.dishName}`,
+    "",
+    recipe.shortDescription,
+    "",
+    `- **Cuisine:** ${recipe.cuisine}`,
+    `- **Difficulty:** ${recipe.difficulty}`,
+    `- **Servings:** ${recipe.servings}`,
+    `- **Prep time:** ${recipe.prepTime}`,
+    `- **Cook time:** ${recipe.cookTime}`,
+    "",
+    "## Ingredients",
+    "",
+    ...recipe.ingredients.map((ingredient) => `- ${formatIngredientLine(ingredient)}`),
+    "",
+    "## Method",
+    "",
+    ...recipe.instructions.map((step, index) => `${index + 1}. ${step}`),
+  ];
+  if (recipe.platingTips.length > 0) {
+    lines.push("", "## Plating", "", ...recipe.platingTips.map((tip) => `- ${tip}`));
+  }
+  const nutrition = nutritionLines(recipe);
+  if (nutrition.length > 0) {
+    lines.push("", "## Nutrition per serving", "", ...nutrition.map((line) => `- ${line}`));
+  }
+  if (recipe.substitutionNote) {
+    lines.push("", `> Adapted: ${recipe.substitutionNote}`);
+  }
+  return `${lines.join("\n")}\n`;
+}
+
+type MarkdownSection = "intro" | "ingredients" | "method" | "plating" | "nutrition" | "other";
+
+function markdownSection(heading: string): MarkdownSection {
+  if (/ingredient/i.test(heading)) return "ingredients";
+  if (/method|instruction|direction|step|preparation/i.test(heading)) return "method";
+  if (/nutrition/i.test(heading)) return "nutrition";
+  if (PLATING_HEADING.test(heading)) return "plating";
+  return "other";
+}
+
+/** Reads Markdown written by `toMarkdownRecipe` and most hand-written recipe notes. */
+function parseMarkdownRecipe(markdown: string): RawRecipe | null {
+  const lists: Record<MarkdownSection, string[]> = {
+    intro: [],
+    ingredients: [],
+    method: [],
+    plating: [],
+    nutrition: [],
+    other: [],
+  };
+  const description: string[] = [];
+  const meta: Record<string, string> = {};
+  let dishName: string | undefined;
+  let substitutionNote: string | undefined;
+  let section: MarkdownSection = "intro";
+
+  for (const rawLine of markdown.split(/\r?\n/)) {
+    const line = rawLine.trim();
+    const heading = line.match(/^(#{1,6})\s+(.*)$/);
+    const listItem = line.match(/^(?:[-*+]|\d+[.)])\s+(.*)$/);
+    const quote = line.match(/^>\s*(?:Adapted:\s*)?(.*)$/i);
+
+    if (heading) {
+      if (heading[1].length === 1 && !dishName) {
+        dishName = heading[2].trim();
+        section = "intro";
+      } else {
+        section = markdownSection(heading[2]);
+      }
+    } else if (listItem) {
+      const text = listItem[1].replace(/\*\*|__/g, "").trim();
+      const pair = section === "intro" ? text.match(/^([^:]{2,20}):\s*(.+)$/) : null;
+      if (pair) meta[pair[1].trim().toLowerCase()] = pair[2].trim();
+      else lists[section].push(text);
+    } else if (quote && quote[1]) {
+      substitutionNote = quote[1].trim();
+    } else if (line && section === "intro") {
+      description.push(line.replace(/^[_*]|[_*]$/g, ""));
+    }
+  }
+
+  if (!dishName && lists.ingredients.length === 0) return null;
+  return {
+    dishName,
+    shortDescription: description.join(" ") || undefined,
+    cuisine: meta.cuisine,
+    difficulty: normalizeDifficulty(meta.difficulty),
+    servings: meta.servings ?? meta.serves ?? meta.yield,
+    prepTime: meta["prep time"] ?? meta.prep,
+    cookTime: meta["cook time"] ?? meta.cook,
+    nutrition: parseNutritionLines(lists.nutrition),
+    ingredients: lists.ingredients.map(toIngredient),
+    instructions: lists.method,
+    platingTips: lists.plating,
+    substitutionNote,
+  };
+}
+
+/** The JSON inside each `.paprikarecipe` file. */
+type PaprikaRecipe = {
+  uid: string;
+  name: string;
+  description: string;
+  ingredients: string;
+  directions: string;
+  notes: string;
+  nutritional_info: string;
+  servings: string;
+  prep_time: string;
+  cook_time: string;
+  total_time: string;
+  difficulty: string;
+  categories: string[];
+  source: string;
+  source_url: string;
+  image_url: string;
+  photo: string;
+  photo_data: string | null;
+  rating: number;
+  created: string;
+};
+
+export function toPaprikaRecipe(recipe: RecipeApiResponse): PaprikaRecipe {
+  const notes = [
+    ...(recipe.platingTips.length > 0 ? ["Plating:", ...recipe.platingTips.map((tip) => `- ${tip}`)] : []),
+    ...(recipe.substitutionNote ? [`Adapted: ${recipe.substitutionNote}`] : []),
+  ];
+  return {
+    uid: crypto.randomUUID().toUpperCase(),
+    name: recipe.dishName,
+    description: recipe.shortDescription,
+    ingredients: recipe.ingredients.map(formatIngredientLine).join("\n"),
+    directions: recipe.instructions.join("\n\n"),
+    notes: notes.join("\n"),
+    nutritional_info: nutritionLines(recipe).join("\n"),
+    servings: String(recipe.servings),
+    prep_time: recipe.prepTime,
+    cook_time: recipe.cookTime,
+    total_time: "",
+    difficulty: recipe.difficulty,
+    categories: [recipe.cuisine],
+    source: "ChefCam",
+    source_url: "",
+    image_url: "",
+    photo: "",
+    photo_data: null,
+    rating: 0,
+    created: new Date().toISOString().slice(0, 19).replace("T", " "),
+  };
+}
+
+/** A `.paprikarecipes` archive: a zip holding one gzipped JSON file per recipe. */
+export async function createPaprikaArchive(recipes: RecipeApiResponse[]) {
+  const encoder = new TextEncoder();
+  const entries = await Promise.all(
+    recipes.map(async (recipe, index) => ({
+      name: `${recipe.dishName.replace(/[\\/:*?"<>|]+/g, " ").trim() || `Recipe ${index + 1}`}.paprikarecipe`,
+      data: await gzip(encoder.encode(JSON.stringify(toPaprikaRecipe(recipe)))),
+    }))
+  );
+  return createZip(entries);
+}
+
+function isPaprikaRecipe(value: RawRecipe) {
+  return typeof value.name === "string" && typeof value.ingredients === "string" && "directions" in value;
+}
+
+function fromPaprikaRecipe(record: RawRecipe): RawRecipe {
+  const notes = textLines(typeof record.notes === "string" ? record.notes : "");
+  const platingStart = notes.findIndex((line) => /^plating:?$/i.test(line));
+  const platingTips =
+    platingStart === -1
+      ? []
+      : notes
+          .slice(platingStart + 1)
+          .filter((line) => line.startsWith("- "))
+          .map((line) => line.slice(2).trim());
+  const adapted = notes.find((line) => /^adapted:/i.test(line));
+
+  return {
+    dishName: record.name,
+    shortDescription: record.description,
+    cuisine: Array.isArray(record.categories) ? record.categories[0] : undefined,
+    difficulty: normalizeDifficulty(record.difficulty),
+    servings: record.servings,
+    prepTime: record.prep_time,
+    cookTime: record.cook_time,
+    nutrition: parseNutritionLines(textLines(String(record.nutritional_info ?? ""))),
+    ingredients: textLines(String(record.ingredients))
+      .filter((line) => !line.endsWith(":"))
+      .map(toIngredient),
+    instructions: textLines(String(record.directions ?? "")).map((line) => line.replace(/^\d+[.)]\s*/, "")),
+    platingTips,
+    substitutionNote: adapted ? adapted.replace(/^adapted:\s*/i, "") : undefined,
+  };
+}
+
+function fromJson(value: unknown): RawRecipe[] {
+  const schemaRecipes = findSchemaRecipes(value);
+  if (schemaRecipes.length > 0) return schemaRecipes.map(fromSchemaOrgRecipe);
+  if (Array.isArray(value)) return value.flatMap(fromJson);
+  if (!value || typeof value !== "object") return [];
+  const record = value as RawRecipe;
+  if (isPaprikaRecipe(record)) return [fromPaprikaRecipe(record)];
+  // ChefCam's own shape, e.g. a saved-recipe document.
+  if (typeof record.dishName === "string") return [record];
+  if (record.recipe && typeof record.recipe === "object") return fromJson(record.recipe);
+  return [];
+}
+
+/**
+ * Reads every recipe in an uploaded file: JSON-LD (or an HTML page embedding
+ * it), Markdown, a single `.paprikarecipe` or a `.paprikarecipes` archive.
+ * Throws when nothing recipe-like is found.
+ */
+export async function parseRecipeFile(fileName: string, data: Uint8Array): Promise<RecipeApiResponse[]> {
+  if (isZip(data)) {
+    const entries = await readZip(data);
+    const nested = await Promise.all(
+      entries.map((entry) => parseRecipeFile(entry.name, entry.data).catch(() => []))
+    );
+    const recipes = nested.flat();
+    if (recipes.length === 0) throw new Error(`${fileName}: no recipes found in the archive.`);
+    return recipes;
+  }
+  if (isGzip(data)) return parseRecipeFile(fileName.replace(/\.gz$/i, ""), await gunzip(data));
+
+  const text = new TextDecoder().decode(data).replace(/^\uFEFF/, "");
+  const trimmed = text.trim();
+  let raw: RawRecipe[] = [];
+  if (/^[[{]/.test(trimmed)) {
+    try {
+      raw = fromJson(JSON.parse(trimmed));
+    } catch {
+      throw new Error(`${fileName}: the JSON could not be read.`);
+    }
+  } else if (trimmed.startsWith("<")) {
+    raw = findHtmlSchemaRecipes(trimmed).map(fromSchemaOrgRecipe);
+  } else {
+    // Several recipes exported together are separated by horizontal rules.
+    raw = text.split(/^---$/m).flatMap((part) => {
+      const recipe = parseMarkdownRecipe(part);
+      return recipe ? [recipe] : [];
+    });
+  }
+
+  if (raw.length === 0) throw new Error(`${fileName}: no recipe found.`);
+  return raw.map((recipe) => parseRecipeApiResponse(recipe));
+}
@@ -0,0 +1,200 @@
+import { getAllergenLabel } from "./dietary";
+import { computeNutrition, formatNutritionValue, NUTRIENTS } from "./nutrition";
+import {
+  buildPdf,
+  imageOp,
+  lineOp,
+  measureText,
+  PdfColor,
+  PdfFont,
+  PdfImage,
+  PdfPage,
+  readJpeg,
+  rectOp,
+  textOp,
+  wrapText,
+} from "./pdf";
+import { getRecipeFieldLabel, RecipeApiResponse } from "./recipe";
+
+export type PaperSize = "a4" | "letter";
+
+const PAPER: Record<PaperSize, { width: number; height: number }> = {
+  a4: { width: 595.28, height: 841.89 },
+  letter: { width: 612, height: 792 },
+};
+
+/** Regions that print on US Letter; everywhere else uses A4. */
+const LETTER_REGIONS = new Set(["US", "CA", "MX", "PH", "CL", "CO", "VE", "PR", "GT", "CR", "SV", "NI", "PA", "DO"]);
+
+const MARGIN = 54;
+const FOOTER_HEIGHT = 28;
+const PHOTO_MAX_HEIGHT = 260;
+
+const INK: PdfColor = [17, 17, 17];
+const MUTED: PdfColor = [119, 119, 119];
+const RULE: PdfColor = [216, 216, 216];
+const PANEL: PdfColor = [243, 243, 243];
+
+export function getPaperSize(locale: string): PaperSize {
+  const region = locale.split(/[-_]/)[1]?.toUpperCase();
+  return region && LETTER_REGIONS.has(region) ? "letter" : "a4";
+}
+
+/**
+ * Lays the recipe out top to bottom, starting a new page whenever the next
+ * block does not fit. Headings are kept with their first line and list items
+ * are never split from their number or amount.
+ */
+export function createRecipePdf(
+  recipe: RecipeApiResponse,
+  options: { paper: PaperSize; photo?: Uint8Array | null }
+): Uint8Array {
+  const { width, height } = PAPER[options.paper];
+  const contentWidth = width - MARGIN * 2;
+  const bottom = MARGIN + FOOTER_HEIGHT;
+  const pages: PdfPage[] = [];
+  const images: PdfImage[] = [];
+  let page: PdfPage = { width, height, content: [] };
+  let y = height - MARGIN;
+
+  function newPage() {
+    page = { width, height, content: [] };
+    pages.push(page);
+    y = height - MARGIN;
+  }
+  function ensureSpace(needed: number) {
+    if (y - needed < bottom) newPage();
+  }
+  function paragraph(
+    text: string,
+    style: { font?: PdfFont; size: number; color?: PdfColor; x?: number; width?: number; leading?: number }
+  ) {
+    const font = style.font ?? "regular";
+    const x = style.x ?? MARGIN;
+    const leading = style.leading ?? style.size * 1.4;
+    for (const line of wrapText(text, font, style.size, style.width ?? contentWidth)) {
+      ensureSpace(leading);
+      y -= leading;
+      page.content.push(textOp(line, x, y + (leading - style.size) / 2, font, style.size, style.color ?? INK));
+    }
+  }
+  function heading(text: string) {
+    ensureSpace(26 + 11 * 1.5);
+    y -= 18;
+    page.content.push(textOp(text.toUpperCase(), MARGIN, y, "bold", 11, INK));
+    y -= 6;
+    page.content.push(lineOp(MARGIN, y, MARGIN + contentWidth, y, RULE));
+    y -= 4;
+  }
+  /** A hanging-indent row: `label` in its own column, `text` wrapped beside it. */
+  function listItem(label: string, text: string, labelWidth: number, labelFont: PdfFont = "bold") {
+    const size = 10.5;
+    const leading = size * 1.5;
+    const lines = wrapText(text, "regular", size, contentWidth - labelWidth);
+    const labelLines = wrapText(label, labelFont, size, labelWidth - 8);
+    const rows = Math.max(lines.length, labelLines.length);
+    ensureSpace(leading * Math.min(rows, 2) + 4);
+    y -= 4;
+    for (let row = 0; row < rows; row += 1) {
+      ensureSpace(leading);
+      y -= leading;
+      const baseline = y + (leading - size) / 2;
+      if (labelLines[row]) page.content.push(textOp(labelLines[row], MARGIN, baseline, labelFont, size, INK));
+      if (lines[row]) page.content.push(textOp(lines[row], MARGIN + labelWidth, baseline, "regular", size, INK));
+    }
+  }
+
+  newPage();
+  paragraph("CHEFCAM RECIPE", { font: "bold", size: 8, color: MUTED });
+  y -= 4;
+  paragraph(recipe.dishName, { font: "bold", size: 24, leading: 29 });
+  if (recipe.shortDescription) {
+    y -= 2;
+    paragraph(recipe.shortDescription, { size: 11, color: MUTED });
+  }
+
+  const photo = options.photo ? readJpeg(options.photo) : null;
+  if (photo && photo.width > 0 && photo.height > 0) {
+    const scale = Math.min(contentWidth / photo.width, PHOTO_MAX_HEIGHT / photo.height);
+    const photoWidth = photo.width * scale;
+    const photoHeight = photo.height * scale;
+    y -= 14;
+    ensureSpace(photoHeight);
+    y -= photoHeight;
+    images.push(photo);
+    page.content.push(rectOp(MARGIN, y, contentWidth, photoHeight, { fill: PANEL }));
+    page.content.push(imageOp(images.length - 1, MARGIN + (contentWidth - photoWidth) / 2, y, photoWidth, photoHeight));
+  }
+
+  const nutrition = computeNutrition(recipe);
+  const guessed = new Set<string>(recipe.fallbackFields ?? []);
+  const meta: Array<[string, string, boolean]> = [
+    ["Cuisine", recipe.cuisine, guessed.has("cuisine")],
+    ["Difficulty", recipe.difficulty, guessed.has("difficulty")],
+    ["Servings", String(recipe.servings), guessed.has("servings")],
+    ["Prep", recipe.prepTime, guessed.has("prepTime")],
+    ["Cook", recipe.cookTime, guessed.has("cookTime")],
+    ["Calories", formatNutritionValue("kcal", nutrition.perServing.kcal), false],
+  ];
+  const cellWidth = contentWidth / 3;
+  const cellHeight = 38;
+  y -= 16;
+  ensureSpace(cellHeight * 2);
+  meta.forEach(([label, value, isGuess], index) => {
+    const x = MARGIN + (index % 3) * cellWidth;
+    const top = y - Math.floor(index / 3) * cellHeight;
+    page.content.push(rectOp(x, top - cellHeight, cellWidth, cellHeight, { stroke: RULE }));
+    page.content.push(textOp(label.toUpperCase(), x + 9, top - 13, "bold", 7.5, MUTED));
+    const [line] = wrapText(isGuess ? `${value}*` : value, "bold", 11, cellWidth - 18);
+    page.content.push(textOp(line ?? "", x + 9, top - 29, "bold", 11, INK));
+  });
+  y -= cellHeight * 2;
+
+  if (guessed.size > 0) {
+    y -= 4;
+    const fields = (recipe.fallbackFields ?? []).map(getRecipeFieldLabel).join(", ");
+    paragraph(`* Estimated (not read from the photo): ${fields}`, { size: 8.5, color: MUTED });
+  }
+  if (recipe.substitutionNote) {
+    y -= 2;
+    paragraph(`Adapted: ${recipe.substitutionNote}`, { size: 8.5, color: MUTED });
+  }
+
+  heading("Ingredients");
+  const amountWidth = Math.min(
+    contentWidth * 0.32,
+    Math.max(72, ...recipe.ingredients.map((ingredient) => measureText(ingredient.amount, "bold", 10.5) + 12))
+  );
+  for (const ingredient of recipe.ingredients) {
+    const allergens = ingredient.allergens.length
+      ? ` (contains ${ingredient.allergens.map(getAllergenLabel).join(", ").toLowerCase()})`
+      : "";
+    listItem(ingredient.amount, `${ingredient.item}${allergens}`, amountWidth);
+  }
+
+  heading("Nutrition per Serving");
+  const nutrients = NUTRIENTS.map(
+    (nutrient) => `${nutrient.label} ${formatNutritionValue(nutrient.id, nutrition.perServing[nutrient.id])}`
+  );
+  paragraph(nutrients.join(" · "), { size: 9.5 });
+
+  heading("Method");
+  recipe.instructions.forEach((instruction, index) => listItem(`${index + 1}.`, instruction, 24));
+
+  if (recipe.platingTips.length > 0) {
+    heading("Plating Tips");
+    for (const tip of recipe.platingTips) listItem("•", tip, 16, "regular");
+  }
+
+  pages.forEach((current, index) => {
+    const footerY = MARGIN;
+    current.content.push(lineOp(MARGIN, footerY + 14, MARGIN + contentWidth, footerY + 14, RULE));
+    current.content.push(textOp(recipe.dishName, MARGIN, footerY, "regular", 8, MUTED));
+    const pageLabel = `Page ${index + 1} of ${pages.length}`;
+    current.content.push(
+      textOp(pageLabel, MARGIN + contentWidth - measureText(pageLabel, "regular", 8), footerY, "regular", 8, MUTED)
+    );
+  });
+
+  return buildPdf(pages, images, recipe.dishName);
+}
@@ -0,0 +1,38 @@
+/**
+ * The dish photo saved with a recipe: the full JPEG for cards and PDFs and a
+ * small thumbnail for the library. Both live in photo storage under random,
+ * unguessable keys and are served from `/api/photos/<key>`.
+ */
+
+export type RecipePhoto = {
+  full: string;
+  thumbnail: string;
+  width: number;
+  height: number;
+};
+
+export const MAX_PHOTO_BYTES = 3_000_000;
+export const MAX_THUMBNAIL_BYTES = 300_000;
+/** Longest side of the library thumbnail, in pixels. */
+export const THUMBNAIL_SIZE = 320;
+
+/** Also matches the flash card images published with share links. */
+const PHOTO_KEY_PATTERN = /^[0-9a-f]{32}-(full|thumb|card)\.jpg$/;
+
+export function isPhotoKey(value: unknown): value is string {
+  return typeof value === "string" && PHOTO_KEY_PATTERN.test(value);
+}
+
+export function getPhotoUrl(key: string) {
+  return `/api/photos/${key}`;
+}
+
+export function parseRecipePhoto(value: unknown): RecipePhoto | null {
+  if (!value || typeof value !== "object") return null;
+  const photo = value as Record<string, unknown>;
+  const width = Number(photo.width);
+  const height = Number(photo.height);
+  if (!isPhotoKey(photo.full) || !isPhotoKey(photo.thumbnail)) return null;
+  if (!Number.isFinite(width) || !Number.isFinite(height) || width <= 0 || height <= 0) return null;
+  return { full: photo.full, thumbnail: photo.thumbnail, width, height };
+}
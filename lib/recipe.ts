@@ -0,0 +1,477 @@
+import {
+  Allergen,
+  DietaryConstraints,
+  detectAllergens,
+  isAllergen,
+  normalizeDietaryConstraints,
+} from "./dietary";
+import { NutritionFacts, parseNutritionFacts } from "./nutrition";
+import { PhotoQuality } from "./photo-quality";
+import { closePartialJson } from "./partial-json";
+import { formatAmount, normalizeUnit, parseAmount, parseServings, scaleAmount } from "./quantity";
+
+/**
+ * Recipe shape shared by `/api/analyze`, `/api/recipes` and the client, with a
+ * small runtime schema so model output and stored documents are validated the
+ * same way everywhere.
+ */
+
+export type Difficulty = "Easy" | "Medium" | "Hard";
+
+export type Ingredient = {
+  item: string;
+  /** Display text, kept in sync with the structured fields below. */
+  amount: string;
+  /** Null when the amount has no number, e.g. "to taste". */
+  quantity: number | null;
+  /** Upper bound for ranges such as "2-3 cloves". */
+  quantityMax: number | null;
+  unit: string | null;
+  allergens: Allergen[];
+};
+
+export type Recipe = {
+  dishName: string;
+  shortDescription: string;
+  cuisine: string;
+  difficulty: Difficulty;
+  servings: number;
+  prepTime: string;
+  cookTime: string;
+  /** The model's per-serving estimate; see `computeNutrition` for the displayed values. */
+  nutrition: NutritionFacts;
+  ingredients: Ingredient[];
+  instructions: string[];
+  platingTips: string[];
+  /** Set when the dish was adapted to the cook's dietary constraints. */
+  substitutionNote: string | null;
+};
+
+export type RecipeField = keyof Recipe;
+
+/** Another dish the photo could show, offered when the first identification is wrong. */
+export type DishAlternative = {
+  dishName: string;
+  /** 0-1, or null when the model gave none. */
+  confidence: number | null;
+  /** One short sentence on what in the photo points to this dish. */
+  reason: string;
+};
+
+export const MAX_DISH_ALTERNATIVES = 3;
+
+export type RecipeApiResponse = Recipe & {
+  /** Human-readable notes about anything that had to be guessed. */
+  warnings?: string[];
+  /** Fields whose values are placeholders rather than model output. */
+  fallbackFields?: RecipeField[];
+  /** Constraints the recipe was generated for. */
+  dietary?: DietaryConstraints;
+  /** Ingredients that still appear to break `dietary`, as readable sentences. */
+  dietaryConflicts?: string[];
+  /** Pantry mode: ingredients the recipe needs that were not in the photo. */
+  missingIngredients?: string[];
+  /** Server-measured quality of each analyzed photo, in upload order. Not kept when saved. */
+  photoQuality?: PhotoQuality[];
+  /** Dish mode: how sure the model is of `dishName`, 0-1. Not kept when saved. */
+  confidence?: number;
+  /** Dish mode: other likely identifications, most likely first. Not kept when saved. */
+  alternatives?: DishAlternative[];
+};
+
+export type RecipeIssue = {
+  field: RecipeField | null;
+  path: string;
+  message: string;
+};
+
+export type RecipeValidation = {
+  recipe: Partial<Recipe>;
+  issues: RecipeIssue[];
+};
+
+type FieldResult<T> = {
+  /** Parsed value, or the salvageable part of it when there are errors. */
+  value?: T;
+  errors: Array<{ path: string; message: string }>;
+};
+
+type FieldSpec<T> = {
+  label: string;
+  parse: (value: unknown, path: string) => FieldResult<T>;
+  fallback: () => T;
+};
+
+const DIFFICULTIES: Difficulty[] = ["Easy", "Medium", "Hard"];
+
+function text(value: unknown, path: string): FieldResult<string> {
+  if (typeof value !== "string" || !value.trim()) {
+    return { errors: [{ path, message: "expected a non-empty string" }] };
+  }
+  return { value: value.trim(), errors: [] };
+}
+
+function textList({ min }: { min: number }) {
+  return (value: unknown, path: string): FieldResult<string[]> => {
+    if (!Array.isArray(value)) {
+      return { errors: [{ path, message: "expected an array of strings" }] };
+    }
+    const errors: FieldResult<string[]>["errors"] = [];
+    const items: string[] = [];
+    value.forEach((entry, index) => {
+      const result = text(entry, `${path}[${index}]`);
+      if (result.value !== undefined) items.push(result.value);
+      errors.push(...result.errors);
+    });
+    if (items.length < min) {
+      errors.push({ path, message: `expected at least ${min} item${min === 1 ? "" : "s"}` });
+    }
+    return { value: items.length > 0 || min === 0 ? items : undefined, errors };
+  };
+}
+
+/**
+ * Accepts 0-1 ratios as well as percentages such as 85 or "85%". Bare numbers
+ * below 2 are ratios, so an overconfident 1.5 clamps to 1 rather than 1.5%.
+ */
+export function parseConfidence(value: unknown) {
+  const isPercent = typeof value === "string" && value.trim().endsWith("%");
+  const number = typeof value === "string" ? Number(value.replace("%", "")) : value;
+  if (typeof number !== "number" || !Number.isFinite(number)) return null;
+  const ratio = isPercent || number >= 2 ? number / 100 : number;
+  return Math.min(1, Math.max(0, ratio));
+}
+
+function finiteNumber(value: unknown) {
+  const number = typeof value === "string" && value.trim() ? Number(value) : value;
+  return typeof number === "number" && Number.isFinite(number) && number >= 0 ? number : null;
+}
+
+/**
+ * Reads one ingredient. Structured `quantity`/`unit` fields win; otherwise the
+ * free-text `amount` is parsed so legacy documents are upgraded on the fly.
+ */
+function ingredient(value: unknown, path: string): FieldResult<Ingredient> {
+  if (!value || typeof value !== "object") {
+    return { errors: [{ path, message: "expected an object" }] };
+  }
+  const record = value as Record<string, unknown>;
+  const item = text(record.item, `${path}.item`);
+  const allergens = (name: string) => [
+    ...new Set([
+      ...(Array.isArray(record.allergens) ? record.allergens.filter(isAllergen) : []),
+      ...detectAllergens(name),
+    ]),
+  ];
+  const amountText = typeof record.amount === "string" ? record.amount.trim() : "";
+  const quantity = finiteNumber(record.quantity);
+  const errors = [...item.errors];
+  if (item.value === undefined) return { errors };
+
+  if (quantity !== null) {
+    const quantityMax = finiteNumber(record.quantityMax);
+    const structured = {
+      quantity,
+      quantityMax: quantityMax !== null && quantityMax > quantity ? quantityMax : null,
+      unit: typeof record.unit === "string" ? normalizeUnit(record.unit) : null,
+    };
+    return {
+      value: {
+        item: item.value,
+        amount: formatAmount(structured, amountText || undefined),
+        ...structured,
+        allergens: allergens(item.value),
+      },
+      errors,
+    };
+  }
+
+  if (!amountText) {
+    errors.push({ path: `${path}.amount`, message: "expected a quantity or a non-empty amount" });
+  }
+  const amount = amountText || "To taste";
+  return {
+    value: { item: item.value, amount, ...parseAmount(amount), allergens: allergens(item.value) },
+    errors,
+  };
+}
+
+function ingredientList(value: unknown, path: string): FieldResult<Ingredient[]> {
+  if (!Array.isArray(value)) {
+    return { errors: [{ path, message: "expected an array of ingredient objects" }] };
+  }
+  const errors: FieldResult<Ingredient[]>["errors"] = [];
+  const items: Ingredient[] = [];
+  value.forEach((entry, index) => {
+    const result = ingredient(entry, `${path}[${index}]`);
+    if (result.value !== undefined) items.push(result.value);
+    errors.push(...result.errors);
+  });
+  if (items.length === 0) {
+    errors.push({ path, message: "expected at least 1 ingredient" });
+  }
+  return { value: items.length > 0 ? items : undefined, errors };
+}
+
+export const recipeSchema: { [K in RecipeField]: FieldSpec<Recipe[K]> } = {
+  dishName: { label: "Dish name", parse: text, fallback: () => "Unknown Dish" },
+  shortDescription: {
+    label: "Description",
+    parse: text,
+    fallback: () => "A flavorful dish generated from your photo.",
+  },
+  cuisine: { label: "Cuisine", parse: text, fallback: () => "Fusion" },
+  difficulty: {
+    label: "Difficulty",
+    parse: (value, path) =>
+      DIFFICULTIES.includes(value as Difficulty)
+        ? { value: value as Difficulty, errors: [] }
+        : { errors: [{ path, message: `expected one of ${DIFFICULTIES.join(", ")}` }] },
+    fallback: () => "Medium",
+  },
+  servings: {
+    label: "Servings",
+    parse: (value, path) => {
+      const servings = parseServings(value);
+      return servings === null
+        ? { errors: [{ path, message: "expected a positive number of servings" }] }
+        : { value: servings, errors: [] };
+    },
+    fallback: () => 2,
+  },
+  prepTime: { label: "Prep time", parse: text, fallback: () => "20 min" },
+  cookTime: { label: "Cook time", parse: text, fallback: () => "30 min" },
+  nutrition: {
+    label: "Nutrition",
+    parse: (value, path) => {
+      const facts = parseNutritionFacts(value);
+      return facts
+        ? { value: facts, errors: [] }
+        : { errors: [{ path, message: "expected an object of per-serving nutrient estimates" }] };
+    },
+    fallback: () => ({}),
+  },
+  ingredients: { label: "Ingredients", parse: ingredientList, fallback: () => [] },
+  instructions: {
+    label: "Method",
+    parse: textList({ min: 1 }),
+    fallback: () => [
+      "Review the dish photo and identify the main protein, vegetables, starches, and sauces.",
+      "Prepare matching ingredients in balanced portions.",
+      "Cook the main ingredients until tender and season gradually.",
+      "Finish with herbs, acidity, or sauce to match the photographed dish.",
+    ],
+  },
+  platingTips: {
+    label: "Plating tips",
+    parse: textList({ min: 0 }),
+    fallback: () => ["Plate neatly and keep the main ingredient visible."],
+  },
+  substitutionNote: {
+    label: "Substitutions",
+    parse: (value) => ({
+      value: typeof value === "string" && value.trim() ? value.trim() : null,
+      errors: [],
+    }),
+    fallback: () => null,
+  },
+};
+
+export const RECIPE_FIELDS = Object.keys(recipeSchema) as RecipeField[];
+
+/** Older documents and model replies used these names for today's fields. */
+const LEGACY_FIELD_NAMES: Partial<Record<RecipeField, string>> = {
+  nutrition: "caloriesPerServing",
+};
+
+export function getRecipeFieldLabel(field: RecipeField) {
+  return recipeSchema[field].label;
+}
+
+/** Pulls the JSON object out of a model reply, tolerating code fences and chatter. */
+export function extractJsonObject(raw: string): { value: unknown } | { error: string } {
+  const cleaned = raw.replace(/```json/gi, "").replace(/```/g, "").trim();
+  const firstBrace = cleaned.indexOf("{");
+  const lastBrace = cleaned.lastIndexOf("}");
+  const jsonString =
+    firstBrace !== -1 && lastBrace !== -1 ? cleaned.slice(firstBrace, lastBrace + 1) : cleaned;
+
+  try {
+    return { value: JSON.parse(jsonString) as unknown };
+  } catch (error) {
+    return { error: error instanceof Error ? error.message : "Invalid JSON" };
+  }
+}
+
+export function validateRecipe(input: unknown): RecipeValidation {
+  if (!input || typeof input !== "object" || Array.isArray(input)) {
+    return {
+      recipe: {},
+      issues: [{ field: null, path: "$", message: "expected a JSON object" }],
+    };
+  }
+
+  const record = input as Record<string, unknown>;
+  const recipe: Partial<Recipe> = {};
+  const issues: RecipeIssue[] = [];
+  for (const field of RECIPE_FIELDS) {
+    const legacyName = LEGACY_FIELD_NAMES[field];
+    const value =
+      record[field] === undefined && legacyName !== undefined ? record[legacyName] : record[field];
+    const result = recipeSchema[field].parse(value, field);
+    if (result.value !== undefined) {
+      (recipe as Record<RecipeField, unknown>)[field] = result.value;
+    }
+    issues.push(...result.errors.map((error) => ({ field, ...error })));
+  }
+  return { recipe, issues };
+}
+
+/** Model reply text → validation result. JSON syntax errors become a single issue. */
+export function parseRecipeText(raw: string): RecipeValidation {
+  const extracted = extractJsonObject(raw);
+  if ("error" in extracted) {
+    return {
+      recipe: {},
+      issues: [{ field: null, path: "$", message: `response is not valid JSON (${extracted.error})` }],
+    };
+  }
+  return validateRecipe(extracted.value);
+}
+
+/**
+ * Best-effort parse of an in-progress model reply. Only values that have fully
+ * arrived are returned, so fields can be shown while the rest is still streaming.
+ */
+export function parsePartialRecipeText(raw: string): Partial<Recipe> {
+  const closed = closePartialJson(raw.replace(/```json/gi, "").replace(/```/g, ""));
+  if (!closed) return {};
+  try {
+    return validateRecipe(JSON.parse(closed) as unknown).recipe;
+  } catch {
+    return {};
+  }
+}
+
+export function formatRecipeIssues(issues: RecipeIssue[]) {
+  return issues.map((issue) => `- ${issue.path}: ${issue.message}`).join("\n");
+}
+
+/**
+ * Turns a (possibly partial) validation result into a complete recipe. Fields
+ * with issues keep whatever was salvageable, otherwise they get a placeholder;
+ * either way they are listed in `fallbackFields` so the UI can flag them.
+ */
+export function withRecipeFallbacks(
+  validation: RecipeValidation,
+  previous?: Pick<RecipeApiResponse, "warnings" | "fallbackFields">
+): RecipeApiResponse {
+  const fallbackFields = new Set<RecipeField>(previous?.fallbackFields ?? []);
+  const invalidFields = new Set(
+    validation.issues.flatMap((issue) => (issue.field ? [issue.field] : RECIPE_FIELDS))
+  );
+  const recipe = {} as Recipe;
+
+  for (const field of RECIPE_FIELDS) {
+    const value = validation.recipe[field];
+    if (invalidFields.has(field)) fallbackFields.add(field);
+    (recipe as Record<RecipeField, unknown>)[field] =
+      value !== undefined ? value : recipeSchema[field].fallback();
+  }
+
+  const warnings = new Set(previous?.warnings ?? []);
+  if (validation.issues.some((issue) => issue.field === null)) {
+    warnings.add("The recipe could not be read from the model response.");
+  }
+  const fieldsWithIssues = RECIPE_FIELDS.filter((field) => invalidFields.has(field));
+  if (fieldsWithIssues.length > 0 && fieldsWithIssues.length < RECIPE_FIELDS.length) {
+    warnings.add(`Some details were guessed: ${fieldsWithIssues.map(getRecipeFieldLabel).join(", ")}.`);
+  }
+
+  return {
+    ...recipe,
+    ...(warnings.size > 0 ? { warnings: [...warnings] } : {}),
+    ...(fallbackFields.size > 0
+      ? { fallbackFields: RECIPE_FIELDS.filter((field) => fallbackFields.has(field)) }
+      : {}),
+  };
+}
+
+/** Rescales every ingredient quantity for a new number of servings. */
+export function scaleRecipe<T extends Recipe>(recipe: T, servings: number): T {
+  if (!(servings > 0) || servings === recipe.servings) return recipe;
+  const factor = servings / recipe.servings;
+  return {
+    ...recipe,
+    servings,
+    ingredients: recipe.ingredients.map((entry) => scaleAmount(entry, factor)),
+  };
+}
+
+/**
+ * Client-side counterpart of the server validation: accepts an API payload or
+ * a stored document and returns a renderable recipe with its metadata intact.
+ */
+export function parseRecipeApiResponse(payload: unknown): RecipeApiResponse {
+  const record = (payload && typeof payload === "object" ? payload : {}) as Record<string, unknown>;
+  const previousFields = Array.isArray(record.fallbackFields)
+    ? record.fallbackFields.filter((field): field is RecipeField =>
+        RECIPE_FIELDS.includes(field as RecipeField)
+      )
+    : [];
+  const previousWarnings = Array.isArray(record.warnings)
+    ? record.warnings.filter((warning): warning is string => typeof warning === "string")
+    : [];
+  const dietary =
+    record.dietary && typeof record.dietary === "object"
+      ? normalizeDietaryConstraints(record.dietary as { diets?: unknown[]; allergens?: unknown[] })
+      : null;
+  const dietaryConflicts = Array.isArray(record.dietaryConflicts)
+    ? record.dietaryConflicts.filter((conflict): conflict is string => typeof conflict === "string")
+    : [];
+  const missingIngredients = Array.isArray(record.missingIngredients)
+    ? record.missingIngredients.filter((item): item is string => typeof item === "string")
+    : null;
+
+  const recipe = withRecipeFallbacks(validateRecipe(payload), {
+    warnings: previousWarnings,
+    fallbackFields: previousFields,
+  });
+  return {
+    ...recipe,
+    ...(dietary ? { dietary } : {}),
+    ...(dietaryConflicts.length > 0 ? { dietaryConflicts } : {}),
+    ...(missingIngredients ? { missingIngredients } : {}),
+  };
+}
+
+/**
+ * Reads the model's `confidence` and `alternatives` for a dish-mode reply.
+ * Alternatives that repeat `dishName` or each other are dropped, and the rest
+ * are ordered by confidence and capped at MAX_DISH_ALTERNATIVES.
+ */
+export function parseDishIdentification(
+  payload: unknown,
+  dishName: string
+): Pick<RecipeApiResponse, "confidence" | "alternatives"> {
+  const record = (payload && typeof payload === "object" ? payload : {}) as Record<string, unknown>;
+  const confidence = parseConfidence(record.confidence);
+  const seen = new Set([dishName.trim().toLowerCase()]);
+  const alternatives: DishAlternative[] = [];
+  for (const entry of Array.isArray(record.alternatives) ? record.alternatives : []) {
+    const alternative = (entry && typeof entry === "object" ? entry : {}) as Record<string, unknown>;
+    const name = typeof entry === "string" ? entry.trim() : text(alternative.dishName, "").value;
+    if (!name || seen.has(name.toLowerCase())) continue;
+    seen.add(name.toLowerCase());
+    alternatives.push({
+      dishName: name,
+      confidence: parseConfidence(alternative.confidence),
+      reason: text(alternative.reason, "").value ?? "",
+    });
+  }
+  alternatives.sort((a, b) => (b.confidence ?? 0) - (a.confidence ?? 0));
+  return {
+    ...(confidence !== null ? { confidence } : {}),
+    alternatives: alternatives.slice(0, MAX_DISH_ALTERNATIVES),
+  };
+}
@@ -0,0 +1,70 @@
+import { randomBytes } from "node:crypto";
+import { getAdminDb } from "./firebase-admin";
+import { getPhotoStorage } from "./photo-storage";
+import { parseRecipeApiResponse, RecipeApiResponse } from "./recipe";
+import { isPhotoKey, parseRecipePhoto, RecipePhoto } from "./recipe-photo";
+
+/**
+ * Public share links. Each link is a document in `shared-recipes` keyed by a
+ * random slug that points at the owner's saved recipe, so the public page
+ * always shows the recipe as it is now. The saved recipe keeps the slug in
+ * `shareSlug` so the owner can find and revoke the link.
+ */
+
+export const SHARES_COLLECTION = "shared-recipes";
+const RECIPES_COLLECTION = "recipes";
+
+export type SharedRecipe = {
+  slug: string;
+  name: string;
+  recipe: RecipeApiResponse;
+  photo: RecipePhoto | null;
+  /** Storage key of the flash card rendered when the link was published. */
+  card: string | null;
+};
+
+const SLUG_PATTERN = /^[A-Za-z0-9_-]{22}$/;
+
+export function createShareSlug() {
+  return randomBytes(16).toString("base64url");
+}
+
+export function isShareSlug(value: unknown): value is string {
+  return typeof value === "string" && SLUG_PATTERN.test(value);
+}
+
+/** Shared images are served through the link, never by storage key, so revoking it hides them too. */
+export function getSharedImageUrl(slug: string, image: "photo" | "card") {
+  return `/api/shared/${slug}/${image}.jpg`;
+}
+
+/** Null for unknown or revoked slugs, and for links whose recipe was deleted. */
+export async function getSharedRecipe(slug: string): Promise<SharedRecipe | null> {
+  if (!isShareSlug(slug)) return null;
+  const db = getAdminDb();
+  const share = await db.collection(SHARES_COLLECTION).doc(slug).get();
+  const recipeId = share.data()?.recipeId;
+  if (!share.exists || typeof recipeId !== "string") return null;
+
+  const saved = await db.collection(RECIPES_COLLECTION).doc(recipeId).get();
+  const data = saved.data();
+  if (!saved.exists || !data || data.shareSlug !== slug) return null;
+
+  const recipe = parseRecipeApiResponse(data.recipe);
+  const card = share.data()?.card;
+  return {
+    slug,
+    name: typeof data.name === "string" && data.name.trim() ? data.name : recipe.dishName,
+    recipe,
+    photo: parseRecipePhoto(data.photo),
+    card: isPhotoKey(card) ? card : null,
+  };
+}
+
+/** Removes the share document and its card image; the caller clears `shareSlug`. */
+export async function deleteShare(slug: string) {
+  const ref = getAdminDb().collection(SHARES_COLLECTION).doc(slug);
+  const card = (await ref.get()).data()?.card;
+  await ref.delete();
+  if (isPhotoKey(card)) await getPhotoStorage().delete(card);
+}
@@ -0,0 +1,272 @@
+import { ingredientStems } from "./cook-mode";
+import { formatAmount, ParsedAmount } from "./quantity";
+import type { Ingredient } from "./recipe";
+import { addAmounts } from "./units";
+
+/**
+ * Turns the ingredients of one or more recipes into a list for the store:
+ * duplicates are merged ("2 eggs" + "1 egg, beaten" → "3 eggs"), compatible
+ * units are added together and items are grouped by aisle.
+ */
+
+export type Aisle = "produce" | "meat" | "dairy" | "bakery" | "pantry" | "spices" | "frozen" | "other";
+
+/** In walking order through a typical supermarket. */
+export const AISLES: Array<{ id: Aisle; label: string }> = [
+  { id: "produce", label: "Produce" },
+  { id: "bakery", label: "Bakery" },
+  { id: "meat", label: "Meat & Seafood" },
+  { id: "dairy", label: "Dairy & Eggs" },
+  { id: "pantry", label: "Pantry" },
+  { id: "spices", label: "Spices & Seasonings" },
+  { id: "frozen", label: "Frozen" },
+  { id: "other", label: "Other" },
+];
+
+export type ShoppingSource = {
+  /** Recipe name shown next to each item so the cook knows what it is for. */
+  name: string;
+  ingredients: Ingredient[];
+};
+
+export type ShoppingItem = {
+  /** Stable across recipes and re-renders; used to remember checked items. */
+  key: string;
+  name: string;
+  aisle: Aisle;
+  /** One entry per group of incompatible units, e.g. "200 g" and "2 cloves". */
+  amounts: ParsedAmount[];
+  /** Amounts without a number, such as "to taste". */
+  notes: string[];
+  sources: string[];
+};
+
+export type ShoppingAisle = {
+  aisle: Aisle;
+  label: string;
+  items: ShoppingItem[];
+};
+
+/**
+ * Keywords matched as substrings of the ingredient name, longest first, so
+ * "black pepper" lands in spices while "bell pepper" stays in produce.
+ */
+const AISLE_KEYWORDS: Record<string, Aisle> = {
+  onion: "produce",
+  shallot: "produce",
+  scallion: "produce",
+  "spring onion": "produce",
+  garlic: "produce",
+  ginger: "produce",
+  tomato: "produce",
+  pepper: "produce",
+  chili: "produce",
+  chilli: "produce",
+  potato: "produce",
+  carrot: "produce",
+  celery: "produce",
+  mushroom: "produce",
+  spinach: "produce",
+  lettuce: "produce",
+  kale: "produce",
+  cabbage: "produce",
+  broccoli: "produce",
+  zucchini: "produce",
+  courgette: "produce",
+  eggplant: "produce",
+  aubergine: "produce",
+  cucumber: "produce",
+  avocado: "produce",
+  lemon: "produce",
+  lime: "produce",
+  apple: "produce",
+  banana: "produce",
+  berries: "produce",
+  parsley: "produce",
+  cilantro: "produce",
+  coriander: "produce",
+  basil: "produce",
+  mint: "produce",
+  dill: "produce",
+  chive: "produce",
+  bread: "bakery",
+  baguette: "bakery",
+  tortilla: "bakery",
+  pita: "bakery",
+  naan: "bakery",
+  bun: "bakery",
+  chicken: "meat",
+  beef: "meat",
+  pork: "meat",
+  lamb: "meat",
+  bacon: "meat",
+  sausage: "meat",
+  chorizo: "meat",
+  mince: "meat",
+  fish: "meat",
+  salmon: "meat",
+  cod: "meat",
+  shrimp: "meat",
+  prawn: "meat",
+  egg: "dairy",
+  milk: "dairy",
+  butter: "dairy",
+  cream: "dairy",
+  yogurt: "dairy",
+  yoghurt: "dairy",
+  cheese: "dairy",
+  feta: "dairy",
+  parmesan: "dairy",
+  mozzarella: "dairy",
+  flour: "pantry",
+  sugar: "pantry",
+  rice: "pantry",
+  pasta: "pantry",
+  spaghetti: "pantry",
+  noodle: "pantry",
+  oats: "pantry",
+  oil: "pantry",
+  vinegar: "pantry",
+  stock: "pantry",
+  broth: "pantry",
+  "chicken stock": "pantry",
+  "chicken broth": "pantry",
+  "tomato paste": "pantry",
+  canned: "pantry",
+  "canned tomato": "pantry",
+  "san marzano": "pantry",
+  "crushed tomatoes": "pantry",
+  beans: "pantry",
+  lentil: "pantry",
+  chickpea: "pantry",
+  sauce: "pantry",
+  honey: "pantry",
+  breadcrumbs: "pantry",
+  panko: "pantry",
+  nuts: "pantry",
+  almond: "pantry",
+  walnut: "pantry",
+  salt: "spices",
+  "black pepper": "spices",
+  "pepper flakes": "spices",
+  "chili flakes": "spices",
+  "chili powder": "spices",
+  cumin: "spices",
+  paprika: "spices",
+  turmeric: "spices",
+  cinnamon: "spices",
+  oregano: "spices",
+  "dried thyme": "spices",
+  spice: "spices",
+  seasoning: "spices",
+  frozen: "frozen",
+  "ice cream": "frozen",
+};
+
+const AISLE_KEYS = Object.keys(AISLE_KEYWORDS).sort((a, b) => b.length - a.length);
+
+/** Size words that the model sometimes puts in the unit field ("1 medium" onion). */
+const SIZE_UNITS = /^(?:small|medium|large|extra[- ]large)$/i;
+
+export function findAisle(item: string): Aisle {
+  const name = item.toLowerCase();
+  const key = AISLE_KEYS.find((candidate) => name.includes(candidate));
+  return key ? AISLE_KEYWORDS[key] : "other";
+}
+
+/** "Eggs, beaten" and "large eggs" share the key "egg". */
+function itemKey(item: string) {
+  return ingredientStems(item).join(" ") || item.trim().toLowerCase();
+}
+
+/** The ingredient name without preparation notes: "Garlic cloves, minced" → "Garlic cloves". */
+function shoppingName(item: string) {
+  return item.split(/[,(]/)[0].trim() || item.trim();
+}
+
+function addAmount(amounts: ParsedAmount[], amount: ParsedAmount) {
+  for (let index = 0; index < amounts.length; index += 1) {
+    const combined = addAmounts(amounts[index], amount);
+    if (combined) {
+      amounts[index] = combined;
+      return;
+    }
+  }
+  amounts.push(amount);
+}
+
+export function buildShoppingList(sources: ShoppingSource[]): ShoppingAisle[] {
+  const items = new Map<string, ShoppingItem>();
+
+  for (const source of sources) {
+    for (const ingredient of source.ingredients) {
+      const key = itemKey(ingredient.item);
+      let item = items.get(key);
+      if (!item) {
+        item = {
+          key,
+          name: shoppingName(ingredient.item),
+          aisle: findAisle(ingredient.item),
+          amounts: [],
+          notes: [],
+          sources: [],
+        };
+        items.set(key, item);
+      }
+
+      if (ingredient.quantity !== null) {
+        addAmount(item.amounts, {
+          quantity: ingredient.quantity,
+          quantityMax: ingredient.quantityMax,
+          unit: SIZE_UNITS.test(ingredient.unit ?? "") ? null : ingredient.unit,
+        });
+      } else if (ingredient.amount.trim() && !item.notes.includes(ingredient.amount.trim().toLowerCase())) {
+        item.notes.push(ingredient.amount.trim().toLowerCase());
+      }
+      if (!item.sources.includes(source.name)) item.sources.push(source.name);
+    }
+  }
+
+  return AISLES.map(({ id, label }) => ({
+    aisle: id,
+    label,
+    items: [...items.values()]
+      .filter((item) => item.aisle === id)
+      .sort((a, b) => a.name.localeCompare(b.name)),
+  })).filter((group) => group.items.length > 0);
+}
+
+/** "3 eggs", "200 g + 2 cloves garlic", "Salt (to taste)". */
+export function describeShoppingItem(item: ShoppingItem) {
+  if (item.amounts.length === 0) {
+    return item.notes.length > 0 ? `${item.name} (${item.notes.join(", ")})` : item.name;
+  }
+  return `${item.amounts.map((amount) => formatAmount(amount)).join(" + ")} ${item.name}`;
+}
+
+/** Plain text for messaging apps; checked items are left out as already bought. */
+export function formatShoppingListText(aisles: ShoppingAisle[], checked: string[], recipeNames: string[]) {
+  const lines = [`Shopping list: ${recipeNames.join(", ")}`];
+  for (const group of aisles) {
+    const remaining = group.items.filter((item) => !checked.includes(item.key));
+    if (remaining.length === 0) continue;
+    lines.push("", group.label.toUpperCase(), ...remaining.map((item) => `- ${describeShoppingItem(item)}`));
+  }
+  return lines.join("\n");
+}
+
+/** Markdown with task-list checkboxes, keeping checked items ticked. */
+export function formatShoppingListMarkdown(aisles: ShoppingAisle[], checked: string[], recipeNames: string[]) {
+  const lines = ["# Shopping list", "", `For: ${recipeNames.join(", ")}`];
+  for (const group of aisles) {
+    lines.push(
+      "",
+      `## ${group.label}`,
+      "",
+      ...group.items.map(
+        (item) => `- [${checked.includes(item.key) ? "x" : " "}] ${describeShoppingItem(item)}`
+      )
+    );
+  }
+  return `${lines.join("\n")}\n`;
+}
@@ -0,0 +1,78 @@
+/**
+ * A preference or session mirrored to localStorage, read with
+ * `useSyncExternalStore(store.subscribe, store.get, store.getServer)` like the
+ * kitchen timers. The server snapshot is the fallback, so the first client
+ * render matches the server-rendered page and the stored value follows right
+ * after hydration.
+ */
+
+export type StoredValue<T> = {
+  get: () => T;
+  getServer: () => T;
+  subscribe: (listener: () => void) => () => void;
+  /** Null removes the stored value, so the next read gets the fallback. */
+  set: (next: T | null) => void;
+};
+
+/**
+ * `parse` turns the raw stored string into a value and may throw on bad input;
+ * a missing or unreadable entry reads as `fallback`.
+ */
+export function createStoredValue<T>(
+  key: string,
+  fallback: T,
+  parse: (stored: string) => T,
+  serialize: (value: T) => string = JSON.stringify
+): StoredValue<T> {
+  let value: T | undefined;
+  const listeners = new Set<() => void>();
+
+  function read(): T {
+    try {
+      const stored = window.localStorage.getItem(key);
+      return stored === null ? fallback : parse(stored);
+    } catch {
+      return fallback;
+    }
+  }
+
+  function notify() {
+    for (const listener of listeners) listener();
+  }
+
+  return {
+    get() {
+      if (typeof window === "undefined") return fallback;
+      if (value === undefined) value = read();
+      return value;
+    },
+    getServer() {
+      return fallback;
+    },
+    /** Also listens for changes made in other tabs. */
+    subscribe(listener) {
+      function handleStorage(event: StorageEvent) {
+        if (event.key !== key) return;
+        value = read();
+        listener();
+      }
+
+      listeners.add(listener);
+      window.addEventListener("storage", handleStorage);
+      return () => {
+        listeners.delete(listener);
+        window.removeEventListener("storage", handleStorage);
+      };
+    },
+    set(next) {
+      if (next === null) {
+        window.localStorage.removeItem(key);
+        value = fallback;
+      } else {
+        window.localStorage.setItem(key, serialize(next));
+        value = next;
+      }
+      notify();
+    },
+  };
+}
@@ -0,0 +1,113 @@
+/**
+ * Kitchen timers shared across the app. Timers live outside React and are
+ * mirrored to localStorage with absolute end times, so they keep running when
+ * the cook moves between pages (or reloads) and any component can read them
+ * with `useSyncExternalStore(subscribeTimers, getTimers, getServerTimers)`.
+ */
+
+export type KitchenTimer = {
+  id: string;
+  label: string;
+  durationMs: number;
+  /** Epoch milliseconds when the timer goes off. */
+  endsAt: number;
+  /** Set once the finish alert has fired. */
+  doneAt: number | null;
+};
+
+const TIMERS_STORAGE_KEY = "chef-cam-timers";
+const NO_TIMERS: KitchenTimer[] = [];
+
+let timers: KitchenTimer[] | null = null;
+const listeners = new Set<() => void>();
+
+function isKitchenTimer(value: unknown): value is KitchenTimer {
+  const timer = value as KitchenTimer | null;
+  return Boolean(
+    timer &&
+      typeof timer.id === "string" &&
+      typeof timer.label === "string" &&
+      typeof timer.durationMs === "number" &&
+      typeof timer.endsAt === "number" &&
+      (timer.doneAt === null || typeof timer.doneAt === "number")
+  );
+}
+
+function readStoredTimers(): KitchenTimer[] {
+  try {
+    const stored = JSON.parse(window.localStorage.getItem(TIMERS_STORAGE_KEY) || "[]");
+    return Array.isArray(stored) ? stored.filter(isKitchenTimer) : [];
+  } catch {
+    return [];
+  }
+}
+
+function setTimers(next: KitchenTimer[]) {
+  timers = next;
+  window.localStorage.setItem(TIMERS_STORAGE_KEY, JSON.stringify(next));
+  for (const listener of listeners) listener();
+}
+
+export function getTimers(): KitchenTimer[] {
+  if (typeof window === "undefined") return NO_TIMERS;
+  if (timers === null) timers = readStoredTimers();
+  return timers;
+}
+
+export function getServerTimers(): KitchenTimer[] {
+  return NO_TIMERS;
+}
+
+/** Also listens for changes made in other tabs. */
+export function subscribeTimers(listener: () => void) {
+  function handleStorage(event: StorageEvent) {
+    if (event.key !== TIMERS_STORAGE_KEY) return;
+    timers = readStoredTimers();
+    listener();
+  }
+
+  listeners.add(listener);
+  window.addEventListener("storage", handleStorage);
+  return () => {
+    listeners.delete(listener);
+    window.removeEventListener("storage", handleStorage);
+  };
+}
+
+export function startTimer(label: string, seconds: number) {
+  const durationMs = seconds * 1000;
+  const id = `${Date.now().toString(36)}-${Math.random().toString(36).slice(2, 8)}`;
+  setTimers([...getTimers(), { id, label, durationMs, endsAt: Date.now() + durationMs, doneAt: null }]);
+  return id;
+}
+
+export function extendTimer(id: string, seconds: number) {
+  const now = Date.now();
+  setTimers(
+    getTimers().map((timer) =>
+      timer.id === id
+        ? {
+            ...timer,
+            durationMs: timer.durationMs + seconds * 1000,
+            endsAt: Math.max(timer.endsAt, now) + seconds * 1000,
+            doneAt: null,
+          }
+        : timer
+    )
+  );
+}
+
+export function removeTimer(id: string) {
+  setTimers(getTimers().filter((timer) => timer.id !== id));
+}
+
+/** Marks every timer that has run out as done and returns those newly finished. */
+export function collectFinishedTimers(now = Date.now()): KitchenTimer[] {
+  const finished = getTimers().filter((timer) => timer.doneAt === null && timer.endsAt <= now);
+  if (finished.length > 0) {
+    setTimers(
+      getTimers().map((timer) => (finished.includes(timer) ? { ...timer, doneAt: now } : timer))
+    );
+  }
+  return finished;
+}
@@ -0,0 +1,110 @@
+/**
+ * Finds cooking times in instruction text ("simmer for 15 minutes", "4-5 minutes
+ * per side", "1 hour 30 minutes") so steps can offer one-tap timers. Steps that
+ * only give a visual cue ("until golden") report the cue instead.
+ */
+
+import { parseNumber } from "./quantity";
+
+export type StepTimer = {
+  /** The matched text, e.g. "6-8 minutes". */
+  text: string;
+  /** Lower bound; the timer goes off here so the cook can check early. */
+  seconds: number;
+  /** Upper bound for ranges. */
+  maxSeconds: number | null;
+};
+
+export type StepTiming = {
+  timers: StepTimer[];
+  /** A doneness cue such as "until golden" when the step gives no time. */
+  cue: string | null;
+};
+
+const WORD_NUMBERS: Record<string, number> = {
+  a: 1,
+  an: 1,
+  one: 1,
+  two: 2,
+  three: 3,
+  four: 4,
+  five: 5,
+  six: 6,
+  ten: 10,
+  fifteen: 15,
+  twenty: 20,
+  thirty: 30,
+};
+
+const UNIT_SECONDS: Array<[RegExp, number]> = [
+  [/^h/i, 3600],
+  [/^m/i, 60],
+  [/^s/i, 1],
+];
+
+// Mixed numbers go first, or "1 1/2 hours" would be read from the "1/2".
+const NUMBER = String.raw`\d+\s+\d+\/\d+|\d+\/\d+|\d+(?:[.,]\d+)?\s*[¼½¾]?|[¼½¾]|an?|one|two|three|four|five|six|ten|fifteen|twenty|thirty`;
+const UNIT = String.raw`hours?|hrs?|h|minutes?|mins?|seconds?|secs?`;
+const SPAN = String.raw`(${NUMBER})(?:\s*(?:-|–|to)\s*(${NUMBER}))?\s*(${UNIT})\b`;
+const DURATION_PATTERN = new RegExp(
+  String.raw`\b(?:half an hour|${SPAN}(?:,?\s*(?:and\s+)?(\d+)\s*(minutes?|mins?)\b)?)`,
+  "gi"
+);
+const CUE_PATTERN = /\buntil\s+([^.,;:()]+)/i;
+const MAX_CUE_WORDS = 5;
+
+function readNumber(token: string) {
+  const word = WORD_NUMBERS[token.trim().toLowerCase()];
+  return word ?? parseNumber(token);
+}
+
+function unitSeconds(unit: string) {
+  return UNIT_SECONDS.find(([pattern]) => pattern.test(unit))?.[1] ?? 60;
+}
+
+export function extractStepTiming(instruction: string): StepTiming {
+  const timers: StepTimer[] = [];
+  for (const match of instruction.matchAll(DURATION_PATTERN)) {
+    const [text, first, second, unit, extraMinutes] = match;
+    if (text.toLowerCase() === "half an hour") {
+      timers.push({ text, seconds: 1800, maxSeconds: null });
+      continue;
+    }
+    const low = readNumber(first);
+    if (low === null || low <= 0) continue;
+    const high = second ? readNumber(second) : null;
+    const factor = unitSeconds(unit);
+    const extra = extraMinutes ? Number(extraMinutes) * 60 : 0;
+    timers.push({
+      text: text.trim(),
+      seconds: Math.round(low * factor + extra),
+      maxSeconds: high !== null && high > low ? Math.round(high * factor + extra) : null,
+    });
+  }
+
+  if (timers.length > 0) return { timers, cue: null };
+  const cue = instruction.match(CUE_PATTERN)?.[1].trim().split(/\s+/).slice(0, MAX_CUE_WORDS).join(" ");
+  return { timers, cue: cue ? `until ${cue}` : null };
+}
+
+/** "1 h 30 min", "45 min", "30 s". */
+export function formatDuration(seconds: number) {
+  const hours = Math.floor(seconds / 3600);
+  const minutes = Math.floor((seconds % 3600) / 60);
+  const rest = seconds % 60;
+  const parts = [
+    hours > 0 ? `${hours} h` : "",
+    minutes > 0 ? `${minutes} min` : "",
+    rest > 0 && hours === 0 ? `${rest} s` : "",
+  ].filter(Boolean);
+  return parts.join(" ") || "0 s";
+}
+
+/** Clock-style remaining time: "4:05" or "1:02:30". */
+export function formatCountdown(milliseconds: number) {
+  const total = Math.max(0, Math.ceil(milliseconds / 1000));
+  const hours = Math.floor(total / 3600);
+  const minutes = Math.floor((total % 3600) / 60);
+  const seconds = String(total % 60).padStart(2, "0");
+  return hours > 0 ? `${hours}:${String(minutes).padStart(2, "0")}:${seconds}` : `${minutes}:${seconds}`;
+}
@@ -0,0 +1,245 @@
+/**
+ * Metric/imperial conversion for ingredient quantities and oven temperatures in
+ * instructions. Volume-to-mass conversions (cups of flour → grams) use a small
+ * density table; anything without an entry converts volume to volume.
+ */
+
+import { formatAmount, normalizeUnit, ParsedAmount } from "./quantity";
+import type { Ingredient, Recipe } from "./recipe";
+
+export type UnitSystem = "original" | "metric" | "imperial";
+
+export const UNIT_SYSTEMS: Array<{ id: UnitSystem; label: string }> = [
+  { id: "original", label: "As written" },
+  { id: "metric", label: "Metric" },
+  { id: "imperial", label: "Imperial" },
+];
+
+type Dimension = "mass" | "volume";
+
+/** Base factors: grams for mass, millilitres for volume. */
+const UNIT_FACTORS: Record<string, { dimension: Dimension; factor: number }> = {
+  mg: { dimension: "mass", factor: 0.001 },
+  g: { dimension: "mass", factor: 1 },
+  kg: { dimension: "mass", factor: 1000 },
+  oz: { dimension: "mass", factor: 28.3495 },
+  lb: { dimension: "mass", factor: 453.592 },
+  ml: { dimension: "volume", factor: 1 },
+  l: { dimension: "volume", factor: 1000 },
+  tsp: { dimension: "volume", factor: 4.92892 },
+  tbsp: { dimension: "volume", factor: 14.7868 },
+  "fl oz": { dimension: "volume", factor: 29.5735 },
+  cup: { dimension: "volume", factor: 236.588 },
+};
+
+const ML_PER_CUP = UNIT_FACTORS.cup.factor;
+
+type Density = { gramsPerCup: number; liquid?: boolean };
+
+/**
+ * Grams per US cup for common ingredients. Keys are matched as substrings of
+ * the ingredient name, longest first, so "brown sugar" wins over "sugar".
+ */
+const DENSITIES: Record<string, Density> = {
+  "all-purpose flour": { gramsPerCup: 120 },
+  "plain flour": { gramsPerCup: 120 },
+  "bread flour": { gramsPerCup: 127 },
+  "whole wheat flour": { gramsPerCup: 113 },
+  flour: { gramsPerCup: 120 },
+  cornstarch: { gramsPerCup: 128 },
+  cornflour: { gramsPerCup: 128 },
+  "brown sugar": { gramsPerCup: 220 },
+  "powdered sugar": { gramsPerCup: 120 },
+  "icing sugar": { gramsPerCup: 120 },
+  sugar: { gramsPerCup: 200 },
+  butter: { gramsPerCup: 227 },
+  "cocoa powder": { gramsPerCup: 85 },
+  oats: { gramsPerCup: 90 },
+  rice: { gramsPerCup: 185 },
+  panko: { gramsPerCup: 60 },
+  breadcrumbs: { gramsPerCup: 108 },
+  "chocolate chips": { gramsPerCup: 170 },
+  parmesan: { gramsPerCup: 100 },
+  cheese: { gramsPerCup: 113 },
+  almonds: { gramsPerCup: 143 },
+  walnuts: { gramsPerCup: 117 },
+  nuts: { gramsPerCup: 140 },
+  salt: { gramsPerCup: 288 },
+  honey: { gramsPerCup: 340 },
+  "maple syrup": { gramsPerCup: 315, liquid: true },
+  yogurt: { gramsPerCup: 245 },
+  tomatoes: { gramsPerCup: 240 },
+  milk: { gramsPerCup: 245, liquid: true },
+  cream: { gramsPerCup: 240, liquid: true },
+  water: { gramsPerCup: 237, liquid: true },
+  stock: { gramsPerCup: 240, liquid: true },
+  broth: { gramsPerCup: 240, liquid: true },
+  oil: { gramsPerCup: 218, liquid: true },
+  juice: { gramsPerCup: 245, liquid: true },
+  wine: { gramsPerCup: 240, liquid: true },
+  vinegar: { gramsPerCup: 240, liquid: true },
+  sauce: { gramsPerCup: 250, liquid: true },
+};
+
+const DENSITY_KEYS = Object.keys(DENSITIES).sort((a, b) => b.length - a.length);
+
+export function findDensity(item: string): Density | null {
+  const name = item.toLowerCase();
+  const key = DENSITY_KEYS.find((candidate) => name.includes(candidate));
+  return key ? DENSITIES[key] : null;
+}
+
+function unitInfo(unit: string | null) {
+  const canonical = normalizeUnit(unit);
+  return canonical ? (UNIT_FACTORS[canonical] ?? null) : null;
+}
+
+/**
+ * Weight in grams of a measured amount. Volumes use `gramsPerCup` when given,
+ * then the density table, then water. Count units such as "clove" return null.
+ */
+export function toGrams(
+  quantity: number,
+  unit: string | null,
+  item: string,
+  gramsPerCup?: number
+): number | null {
+  const info = unitInfo(unit);
+  if (!info) return null;
+  if (info.dimension === "mass") return quantity * info.factor;
+  const perCup = gramsPerCup ?? findDensity(item)?.gramsPerCup ?? ML_PER_CUP;
+  return ((quantity * info.factor) / ML_PER_CUP) * perCup;
+}
+
+const METRIC_UNITS = new Set(["mg", "g", "kg", "ml", "l"]);
+/** Spoon measures are used in both systems and are never converted. */
+const SHARED_UNITS = new Set(["tsp", "tbsp"]);
+
+/** Picks a readable target unit for an amount already expressed in grams or millilitres. */
+function pickUnit(system: "metric" | "imperial", dimension: Dimension, base: number) {
+  if (system === "metric") {
+    if (dimension === "mass") return base >= 1000 ? "kg" : "g";
+    return base >= 1000 ? "l" : "ml";
+  }
+  if (dimension === "mass") return base >= UNIT_FACTORS.lb.factor ? "lb" : "oz";
+  if (base < UNIT_FACTORS.tbsp.factor) return "tsp";
+  if (base < ML_PER_CUP / 4) return "tbsp";
+  return "cup";
+}
+
+/**
+ * Converts one ingredient to the target system. Dry goods measured in cups
+ * become grams in metric (and grams become cups in imperial when the density is
+ * known); liquids stay volumes. Count units such as "clove" are left alone.
+ */
+export function convertIngredient(ingredient: Ingredient, system: UnitSystem): Ingredient {
+  if (system === "original" || ingredient.quantity === null) return ingredient;
+  const unit = normalizeUnit(ingredient.unit);
+  const info = unitInfo(unit);
+  if (!unit || !info || SHARED_UNITS.has(unit)) return ingredient;
+  if (METRIC_UNITS.has(unit) === (system === "metric")) return ingredient;
+
+  const density = findDensity(ingredient.item);
+  const solid = density && !density.liquid;
+  let dimension = info.dimension;
+  let toBase = info.factor;
+
+  if (system === "metric" && dimension === "volume" && solid) {
+    dimension = "mass";
+    toBase = (info.factor / ML_PER_CUP) * density.gramsPerCup;
+  } else if (
+    system === "imperial" &&
+    dimension === "mass" &&
+    solid &&
+    ingredient.quantity * info.factor >= density.gramsPerCup / 4
+  ) {
+    dimension = "volume";
+    toBase = (info.factor / density.gramsPerCup) * ML_PER_CUP;
+  }
+
+  const targetUnit = pickUnit(system, dimension, ingredient.quantity * toBase);
+  const factor = toBase / UNIT_FACTORS[targetUnit].factor;
+  const converted = {
+    quantity: ingredient.quantity * factor,
+    quantityMax: ingredient.quantityMax === null ? null : ingredient.quantityMax * factor,
+    unit: targetUnit,
+  };
+  return { ...ingredient, ...converted, amount: formatAmount(converted, ingredient.amount) };
+}
+
+/**
+ * Adds two amounts of the same ingredient. Identical units are summed as they
+ * are; different units of the same dimension ("2 tbsp" + "1/4 cup") are summed
+ * and re-expressed in a readable unit, metric if either side was metric.
+ * Returns null when the amounts cannot be combined (grams and cloves, or a
+ * missing quantity).
+ */
+export function addAmounts(a: ParsedAmount, b: ParsedAmount): ParsedAmount | null {
+  const lowA = a.quantity;
+  const lowB = b.quantity;
+  if (lowA === null || lowB === null) return null;
+  const unitA = normalizeUnit(a.unit);
+  const unitB = normalizeUnit(b.unit);
+  const ranged = a.quantityMax !== null || b.quantityMax !== null;
+  const sumMax = (factorA: number, factorB: number) =>
+    ranged ? (a.quantityMax ?? lowA) * factorA + (b.quantityMax ?? lowB) * factorB : null;
+
+  if (unitA === unitB) {
+    return { quantity: lowA + lowB, quantityMax: sumMax(1, 1), unit: a.unit };
+  }
+
+  const infoA = unitInfo(unitA);
+  const infoB = unitInfo(unitB);
+  if (!unitA || !unitB || !infoA || !infoB || infoA.dimension !== infoB.dimension) return null;
+
+  const system = METRIC_UNITS.has(unitA) || METRIC_UNITS.has(unitB) ? "metric" : "imperial";
+  const base = lowA * infoA.factor + lowB * infoB.factor;
+  const unit = pickUnit(system, infoA.dimension, base);
+  const factor = UNIT_FACTORS[unit].factor;
+  const max = sumMax(infoA.factor, infoB.factor);
+  return { quantity: base / factor, quantityMax: max === null ? null : max / factor, unit };
+}
+
+function roundTemperature(value: number) {
+  return Math.round(value / 5) * 5;
+}
+
+function convertTemperature(value: number, from: "C" | "F", to: "C" | "F") {
+  if (from === to) return value;
+  return roundTemperature(from === "C" ? (value * 9) / 5 + 32 : ((value - 32) * 5) / 9);
+}
+
+const TEMPERATURE = String.raw`(\d{2,3})\s*(?:°\s*|degrees?\s+)?(C|F|Celsius|Fahrenheit)\b`;
+const TEMPERATURE_PAIR = new RegExp(`${TEMPERATURE}\\s*(?:\\(|/)\\s*${TEMPERATURE}\\s*\\)?`, "gi");
+const TEMPERATURE_SINGLE = new RegExp(TEMPERATURE, "gi");
+
+function scaleLetter(unit: string) {
+  return unit[0].toUpperCase() as "C" | "F";
+}
+
+/** Rewrites oven and oil temperatures ("180°C", "350 F", "260°C (500°F)") into one system. */
+export function convertTemperatures(text: string, system: UnitSystem) {
+  if (system === "original") return text;
+  const target = system === "metric" ? "C" : "F";
+
+  return text
+    .replace(TEMPERATURE_PAIR, (match, firstValue, firstUnit, secondValue, secondUnit) => {
+      if (scaleLetter(firstUnit) === target) return `${firstValue}°${target}`;
+      if (scaleLetter(secondUnit) === target) return `${secondValue}°${target}`;
+      return match;
+    })
+    .replace(TEMPERATURE_SINGLE, (_match, value, unit) => {
+      const converted = convertTemperature(Number(value), scaleLetter(unit), target);
+      return `${converted}°${target}`;
+    });
+}
+
+export function convertRecipeUnits<T extends Recipe>(recipe: T, system: UnitSystem): T {
+  if (system === "original") return recipe;
+  return {
+    ...recipe,
+    ingredients: recipe.ingredients.map((ingredient) => convertIngredient(ingredient, system)),
+    instructions: recipe.instructions.map((instruction) => convertTemperatures(instruction, system)),
+    platingTips: recipe.platingTips.map((tip) => convertTemperatures(tip, system)),
+  };
+}
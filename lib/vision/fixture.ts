@@ -0,0 +1,227 @@
+import { VisionImage, VisionProvider } from "./types";
+
+/**
+ * Canned model output for offline development. Each entry is the raw JSON text
+ * a real model would return for the recipe prompt.
+ */
+const FIXTURE_RECIPES = [
+  {
+    dishName: "Shakshuka",
+    shortDescription: "Eggs gently poached in a spiced tomato and pepper sauce. Best with warm bread.",
+    cuisine: "Middle Eastern",
+    difficulty: "Easy",
+    servings: "2-3",
+    prepTime: "10 min",
+    cookTime: "25 min",
+    nutrition: { kcal: 320, protein: 17, carbs: 18, fat: 20, fiber: 5, sugar: 11, sodium: 640 },
+    ingredients: [
+      { item: "olive oil", amount: "2 tbsp" },
+      { item: "onion, diced", amount: "1 medium" },
+      { item: "red bell pepper, sliced", amount: "1" },
+      { item: "garlic, minced", amount: "3 cloves" },
+      { item: "ground cumin", amount: "1 tsp" },
+      { item: "smoked paprika", amount: "1 tsp" },
+      { item: "crushed tomatoes", amount: "400 g" },
+      { item: "eggs", amount: "4" },
+      { item: "feta, crumbled", amount: "50 g" },
+      { item: "salt", amount: "to taste" },
+    ],
+    instructions: [
+      "Heat the olive oil in a wide skillet over medium heat and cook the onion and pepper for 6-8 minutes until soft.",
+      "Stir in the garlic, cumin and paprika and cook for 1 minute until fragrant.",
+      "Add the crushed tomatoes, season with salt and simmer for 10 minutes until slightly thickened.",
+      "Make four wells in the sauce, crack in the eggs, cover and cook for 5-7 minutes until the whites are set.",
+      "Scatter over the feta and serve straight from the pan.",
+    ],
+    platingTips: ["Serve in the skillet with torn parsley on top.", "Add bread on the side for dipping."],
+  },
+  {
+    dishName: "Chicken Katsu Curry",
+    shortDescription: "Crisp panko chicken cutlets over rice with a mild, sweet Japanese curry sauce.",
+    cuisine: "Japanese",
+    difficulty: "Medium",
+    servings: "4",
+    prepTime: "20 min",
+    cookTime: "35 min",
+    nutrition: { kcal: 780, protein: 44, carbs: 98, fat: 22, fiber: 5, sugar: 9, sodium: 1350 },
+    ingredients: [
+      { item: "chicken breasts", amount: "2 large" },
+      { item: "plain flour", amount: "1/2 cup" },
+      { item: "eggs, beaten", amount: "2" },
+      { item: "panko breadcrumbs", amount: "1 1/2 cups" },
+      { item: "vegetable oil", amount: "for frying" },
+      { item: "onion, sliced", amount: "1" },
+      { item: "carrot, diced", amount: "1" },
+      { item: "Japanese curry roux", amount: "100 g" },
+      { item: "water", amount: "500 ml" },
+      { item: "cooked short-grain rice", amount: "4 cups" },
+    ],
+    instructions: [
+      "Fry the onion and carrot in a little oil for 5 minutes, add the water and simmer for 15 minutes.",
+      "Turn off the heat, stir in the curry roux until dissolved, then simmer for 5 minutes until glossy.",
+      "Butterfly the chicken, then coat in flour, egg and panko.",
+      "Shallow-fry the chicken at 170°C for 4-5 minutes per side until golden and cooked through.",
+      "Rest the chicken for 2 minutes, slice, and serve over rice with the curry sauce.",
+    ],
+    platingTips: ["Fan the sliced katsu over the rice and pour the sauce alongside, not over."],
+  },
+  {
+    dishName: "Margherita Pizza",
+    shortDescription: "A thin, blistered crust topped with tomato, fresh mozzarella and basil.",
+    cuisine: "Italian",
+    difficulty: "Medium",
+    servings: "2",
+    prepTime: "15 min",
+    cookTime: "10 min",
+    nutrition: { kcal: 650, protein: 27, carbs: 82, fat: 23, fiber: 4, sugar: 6, sodium: 1180 },
+    ingredients: [
+      { item: "pizza dough", amount: "250 g" },
+      { item: "canned San Marzano tomatoes", amount: "1/2 cup" },
+      { item: "fresh mozzarella", amount: "125 g" },
+      { item: "fresh basil leaves", amount: "8" },
+      { item: "extra virgin olive oil", amount: "1 tbsp" },
+      { item: "salt", amount: "1 pinch" },
+    ],
+    instructions: [
+      "Preheat the oven with a pizza stone or steel to 260°C (500°F) for 45 minutes.",
+      "Crush the tomatoes by hand with the salt.",
+      "Stretch the dough into a 30 cm round and spread the tomatoes thinly on top.",
+      "Tear over the mozzarella and bake for 8-10 minutes until the crust is blistered.",
+      "Finish with basil and a drizzle of olive oil.",
+    ],
+    platingTips: ["Slice on a board and add the basil right before serving so it stays bright."],
+  },
+];
+
+/** Why the fixture "thinks" a photo could show each dish, for the alternatives list. */
+const FIXTURE_REASONS: Record<string, string> = {
+  Shakshuka: "Eggs set in a red, tomato-based sauce.",
+  "Chicken Katsu Curry": "A breaded cutlet next to rice and a brown sauce.",
+  "Margherita Pizza": "A round flatbread with tomato, melted cheese and basil.",
+};
+
+/** Canned reply for the "What can I cook" prompt. */
+const FIXTURE_PANTRY_IDEAS = {
+  detectedIngredients: [
+    { name: "eggs", confidence: 0.97 },
+    { name: "tomatoes", confidence: 0.92 },
+    { name: "onion", confidence: 0.88 },
+    { name: "red bell pepper", confidence: 0.81 },
+    { name: "feta", confidence: 0.64 },
+    { name: "spinach", confidence: 0.42 },
+  ],
+  candidates: [
+    {
+      ...FIXTURE_RECIPES[0],
+      ingredients: FIXTURE_RECIPES[0].ingredients.map((ingredient) =>
+        ingredient.item === "crushed tomatoes" ? { item: "tomatoes, chopped", amount: "4" } : ingredient
+      ),
+      missingIngredients: ["ground cumin", "smoked paprika"],
+    },
+    {
+      dishName: "Spinach and Feta Frittata",
+      shortDescription: "A thick, golden oven-finished omelette with wilted spinach, sweet onion and salty feta.",
+      cuisine: "Mediterranean",
+      difficulty: "Easy",
+      servings: "4",
+      prepTime: "10 min",
+      cookTime: "20 min",
+      nutrition: { kcal: 290, protein: 19, carbs: 5, fat: 21, fiber: 1.5, sugar: 3, sodium: 560 },
+      ingredients: [
+        { item: "eggs", amount: "8" },
+        { item: "spinach", amount: "2 cups" },
+        { item: "onion, thinly sliced", amount: "1" },
+        { item: "feta, crumbled", amount: "100 g" },
+        { item: "milk", amount: "3 tbsp" },
+        { item: "olive oil", amount: "1 tbsp" },
+        { item: "salt", amount: "to taste" },
+      ],
+      instructions: [
+        "Preheat the grill to high.",
+        "Soften the onion in the olive oil in an ovenproof skillet for 5 minutes, then wilt in the spinach.",
+        "Whisk the eggs with the milk and a pinch of salt and pour over the vegetables.",
+        "Scatter over the feta and cook on low heat for 8-10 minutes until the edges set.",
+        "Grill for 3-4 minutes until puffed and golden, then rest for 2 minutes before slicing.",
+      ],
+      platingTips: ["Cut into wedges and serve from the pan with a simple salad."],
+      missingIngredients: ["milk"],
+    },
+    {
+      dishName: "Roasted Pepper and Tomato Soup",
+      shortDescription: "A smoky, velvety soup of oven-roasted peppers, tomatoes and onion.",
+      cuisine: "European",
+      difficulty: "Easy",
+      servings: "4",
+      prepTime: "10 min",
+      cookTime: "40 min",
+      nutrition: { kcal: 180, protein: 4, carbs: 20, fat: 8, fiber: 5, sugar: 12, sodium: 520 },
+      ingredients: [
+        { item: "tomatoes, halved", amount: "6" },
+        { item: "red bell pepper, chopped", amount: "2" },
+        { item: "onion, quartered", amount: "1" },
+        { item: "garlic", amount: "3 cloves" },
+        { item: "vegetable stock", amount: "750 ml" },
+        { item: "olive oil", amount: "2 tbsp" },
+      ],
+      instructions: [
+        "Roast the tomatoes, pepper, onion and garlic with the olive oil at 200°C for 30 minutes.",
+        "Tip everything into a pot with the stock and simmer for 5 minutes.",
+        "Blend until smooth and season to taste.",
+        "Thin with a splash of water if needed and reheat before serving.",
+      ],
+      platingTips: ["Finish each bowl with crumbled feta and a drizzle of olive oil."],
+      missingIngredients: ["garlic", "vegetable stock"],
+    },
+  ],
+};
+
+function hashString(value: string) {
+  let hash = 0;
+  for (let index = 0; index < value.length; index += 1) {
+    hash = (hash * 31 + value.charCodeAt(index)) | 0;
+  }
+  return Math.abs(hash);
+}
+
+const FIXTURE_CHUNK_CHARS = 48;
+const FIXTURE_CHUNK_DELAY_MS = 25;
+
+function pickFixture(prompt: string, images: VisionImage[]) {
+  // The pantry prompt is the only one that asks for a list of candidates.
+  if (prompt.includes('"candidates"')) return JSON.stringify(FIXTURE_PANTRY_IDEAS);
+  // A dish the cook picked is named in the prompt; otherwise the images decide.
+  const requested = FIXTURE_RECIPES.find((recipe) => prompt.includes(JSON.stringify(recipe.dishName)));
+  const key = images.map((image) => image.data).join("|");
+  const recipe = requested ?? FIXTURE_RECIPES[hashString(key) % FIXTURE_RECIPES.length];
+  const alternatives = FIXTURE_RECIPES.filter((other) => other !== recipe).map((other, index) => ({
+    dishName: other.dishName,
+    confidence: (20 - index * 8) / 100,
+    reason: FIXTURE_REASONS[other.dishName],
+  }));
+  return JSON.stringify({ ...recipe, confidence: requested ? 0.4 : 0.72, alternatives });
+}
+
+/**
+ * Deterministic offline provider: the same images always map to the same canned
+ * recipe (or the canned ingredient ideas in pantry mode), so the full analyze
+ * flow can be exercised without network access. The other canned recipes are
+ * offered as alternatives, and picking one returns it.
+ */
+export function createFixtureProvider(): VisionProvider {
+  return {
+    id: "fixture",
+    label: "Fixture",
+    model: "fixture",
+    async generateText({ prompt, images }) {
+      return pickFixture(prompt, images);
+    },
+    async *streamText({ prompt, images, signal }) {
+      const text = pickFixture(prompt, images);
+      for (let index = 0; index < text.length; index += FIXTURE_CHUNK_CHARS) {
+        await new Promise((resolve) => setTimeout(resolve, FIXTURE_CHUNK_DELAY_MS));
+        signal?.throwIfAborted();
+        yield text.slice(index, index + FIXTURE_CHUNK_CHARS);
+      }
+    },
+  };
+}
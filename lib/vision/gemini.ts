@@ -0,0 +1,70 @@
+import { GoogleGenerativeAI } from "@google/generative-ai";
+import { VisionImage, VisionProvider, VisionProviderError } from "./types";
+
+const DEFAULT_GEMINI_MODEL = "gemini-3.1-flash-lite-preview";
+
+function getGeminiStatus(error: unknown) {
+  if (typeof error === "object" && error && "status" in error) {
+    const status = Number((error as { status?: unknown }).status);
+    if (Number.isFinite(status)) return status;
+  }
+  const message = error instanceof Error ? error.message : String(error);
+  const match = message.match(/\[(\d{3}) [^\]]+\]/);
+  return match ? Number(match[1]) : null;
+}
+
+function toParts(prompt: string, images: VisionImage[]) {
+  return [
+    prompt,
+    ...images.map((image) => ({ inlineData: { data: image.data, mimeType: image.mimeType } })),
+  ];
+}
+
+function toProviderError(error: unknown) {
+  return new VisionProviderError(error instanceof Error ? error.message : String(error), {
+    status: getGeminiStatus(error),
+    provider: "gemini",
+    cause: error,
+  });
+}
+
+export function createGeminiProvider({
+  apiKey,
+  model = DEFAULT_GEMINI_MODEL,
+}: {
+  apiKey: string;
+  model?: string;
+}): VisionProvider {
+  const genAI = new GoogleGenerativeAI(apiKey);
+  const getModel = () =>
+    genAI.getGenerativeModel({
+      model,
+      generationConfig: {
+        responseMimeType: "application/json",
+      },
+    });
+
+  return {
+    id: "gemini",
+    label: "Gemini",
+    model,
+    async generateText({ prompt, images, signal }) {
+      try {
+        const result = await getModel().generateContent(toParts(prompt, images), { signal });
+        return result.response.text();
+      } catch (error) {
+        throw toProviderError(error);
+      }
+    },
+    async *streamText({ prompt, images, signal }) {
+      try {
+        const result = await getModel().generateContentStream(toParts(prompt, images), { signal });
+        for await (const chunk of result.stream) {
+          yield chunk.text();
+        }
+      } catch (error) {
+        throw toProviderError(error);
+      }
+    },
+  };
+}
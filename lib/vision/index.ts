@@ -0,0 +1,40 @@
+import { createFixtureProvider } from "./fixture";
+import { createGeminiProvider } from "./gemini";
+import { createOpenAiCompatibleProvider } from "./openai-compatible";
+import { VisionProvider } from "./types";
+
+export type { VisionImage, VisionProvider, VisionRequest } from "./types";
+export { VisionProviderError } from "./types";
+
+/**
+ * Picks the vision provider from VISION_PROVIDER ("gemini" by default,
+ * "openai" for any OpenAI-compatible endpoint, "fixture" for offline runs).
+ * Throws when the selected provider is missing its configuration.
+ */
+export function getVisionProvider(): VisionProvider {
+  const providerId = (process.env.VISION_PROVIDER?.trim() || "gemini").toLowerCase();
+  const model = process.env.VISION_MODEL?.trim() || undefined;
+
+  switch (providerId) {
+    case "gemini": {
+      const apiKey =
+        process.env.GEMINI_API_KEY?.trim() || process.env.GOOGLE_API_KEY?.trim();
+      if (!apiKey) {
+        throw new Error("Missing GEMINI_API_KEY (or GOOGLE_API_KEY).");
+      }
+      return createGeminiProvider({ apiKey, model });
+    }
+    case "openai": {
+      const apiKey = process.env.VISION_API_KEY?.trim() || process.env.OPENAI_API_KEY?.trim();
+      const baseUrl = process.env.VISION_BASE_URL?.trim() || undefined;
+      if (!apiKey && !baseUrl) {
+        throw new Error("Missing OPENAI_API_KEY (or VISION_API_KEY with VISION_BASE_URL).");
+      }
+      return createOpenAiCompatibleProvider({ apiKey, baseUrl, model });
+    }
+    case "fixture":
+      return createFixtureProvider();
+    default:
+      throw new Error(`Unknown VISION_PROVIDER "${providerId}". Use gemini, openai, or fixture.`);
+  }
+}
@@ -0,0 +1,112 @@
+import { readServerSentEvents } from "../sse";
+import { VisionProvider, VisionProviderError, VisionRequest } from "./types";
+
+const DEFAULT_BASE_URL = "https://api.openai.com/v1";
+const DEFAULT_MODEL = "gpt-4o-mini";
+
+type ChatCompletionResponse = {
+  choices?: Array<{ message?: { content?: string | null } }>;
+  error?: { message?: string };
+};
+
+type ChatCompletionChunk = {
+  choices?: Array<{ delta?: { content?: string | null } }>;
+};
+
+/**
+ * Talks to any server that implements the OpenAI `/chat/completions` API with
+ * image inputs (OpenAI, OpenRouter, vLLM, Ollama, LM Studio, ...).
+ */
+export function createOpenAiCompatibleProvider({
+  apiKey,
+  baseUrl = DEFAULT_BASE_URL,
+  model = DEFAULT_MODEL,
+}: {
+  apiKey?: string;
+  baseUrl?: string;
+  model?: string;
+}): VisionProvider {
+  const endpoint = `${baseUrl.replace(/\/+$/, "")}/chat/completions`;
+
+  async function request({ prompt, images, signal }: VisionRequest, stream: boolean) {
+    let response: Response;
+    try {
+      response = await fetch(endpoint, {
+        method: "POST",
+        signal,
+        headers: {
+          "Content-Type": "application/json",
+          ...(apiKey ? { Authorization: `Bearer ${apiKey}` } : {}),
+        },
+        body: JSON.stringify({
+          model,
+          stream,
+          response_format: { type: "json_object" },
+          messages: [
+            {
+              role: "user",
+              content: [
+                { type: "text", text: prompt },
+                ...images.map((image) => ({
+                  type: "image_url",
+                  image_url: { url: `data:${image.mimeType};base64,${image.data}` },
+                })),
+              ],
+            },
+          ],
+        }),
+      });
+    } catch (error) {
+      throw new VisionProviderError(`Could not reach ${endpoint}.`, {
+        provider: "openai",
+        cause: error,
+      });
+    }
+
+    if (!response.ok) {
+      const payload = (await response.json().catch(() => null)) as ChatCompletionResponse | null;
+      throw new VisionProviderError(
+        payload?.error?.message || `Vision request failed with status ${response.status}.`,
+        { status: response.status, provider: "openai" }
+      );
+    }
+    return response;
+  }
+
+  return {
+    id: "openai",
+    label: "Vision API",
+    model,
+    async generateText(visionRequest) {
+      const response = await request(visionRequest, false);
+      const payload = (await response.json().catch(() => null)) as ChatCompletionResponse | null;
+      const content = payload?.choices?.[0]?.message?.content;
+      if (!content) {
+        throw new VisionProviderError("Vision model returned an empty response.", {
+          status: 502,
+          provider: "openai",
+        });
+      }
+      return content;
+    },
+    async *streamText(visionRequest) {
+      const response = await request(visionRequest, true);
+      if (!response.body) {
+        throw new VisionProviderError("Vision model returned an empty stream.", {
+          status: 502,
+          provider: "openai",
+        });
+      }
+      for await (const event of readServerSentEvents(response.body)) {
+        if (event.data === "[DONE]") return;
+        try {
+          const chunk = JSON.parse(event.data) as ChatCompletionChunk;
+          const content = chunk.choices?.[0]?.delta?.content;
+          if (content) yield content;
+        } catch {
+          // Ignore keep-alive or malformed chunks; the final text is validated anyway.
+        }
+      }
+    },
+  };
+}
@@ -0,0 +1,35 @@
+export type VisionImage = {
+  data: string;
+  mimeType: string;
+};
+
+export type VisionRequest = {
+  prompt: string;
+  /** One or more photos of the same subject, sent to the model in a single call. */
+  images: VisionImage[];
+  /** Stops the model call, for example when the client has gone away. */
+  signal?: AbortSignal;
+};
+
+export type VisionProvider = {
+  /** Stable identifier used in logs and the VISION_PROVIDER env var. */
+  id: string;
+  /** Human-readable name used in user-facing error messages. */
+  label: string;
+  model: string;
+  generateText(request: VisionRequest): Promise<string>;
+  /** Optional incremental variant; yields text chunks as the model produces them. */
+  streamText?(request: VisionRequest): AsyncIterable<string>;
+};
+
+export class VisionProviderError extends Error {
+  readonly status: number | null;
+  readonly provider: string;
+
+  constructor(message: string, options: { status?: number | null; provider: string; cause?: unknown }) {
+    super(message, { cause: options.cause });
+    this.name = "VisionProviderError";
+    this.status = options.status ?? null;
+    this.provider = options.provider;
+  }
+}